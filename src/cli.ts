@@ -5,6 +5,14 @@ import { config } from 'dotenv';
 import { initCommand } from './commands/init';
 import { refreshCommand } from './commands/refresh';
 import { contextCommand } from './commands/context';
+import { graphCommand } from './commands/graph';
+import { statusCommand } from './commands/status';
+import { searchCommand } from './commands/search';
+import { serveCommand } from './commands/serve';
+import { siteCommand } from './commands/site';
+import { hooksCommand } from './commands/hooks';
+import { configCommand } from './commands/config';
+import { apiDiffCommand } from './commands/apiDiff';
 
 // Load environment variables
 config();
@@ -19,8 +27,9 @@ program
 program
   .command('init')
   .description('Initialize CodeContext in your project')
-  .option('-m, --mode <mode>', 'Analysis mode: quick, smart, or deep', 'smart')
+  .option('-m, --mode <mode>', 'Analysis mode: quick, smart, or deep (default: smart)')
   .option('-f, --force', 'Force re-initialization even if already initialized')
+  .option('--central', 'Write docs into .codecontext/docs instead of every directory')
   .action(initCommand);
 
 program
@@ -28,7 +37,9 @@ program
   .description('Refresh documentation for changed files')
   .option('-p, --path <path>', 'Specific path to refresh')
   .option('-a, --all', 'Force refresh all documentation')
-  .option('-m, --mode <mode>', 'Analysis mode: quick, smart, or deep', 'smart')
+  .option('-s, --since <ref>', 'Refresh for changes since a commit (default: the last documented commit)')
+  .option('-r, --range <range>', 'Refresh for changes in a commit range, e.g. main..feature')
+  .option('-m, --mode <mode>', 'Analysis mode for this refresh: quick, smart, or deep (overrides the config)')
   .action(refreshCommand);
 
 program
@@ -36,9 +47,74 @@ program
   .description('Generate optimized context for AI coding sessions')
   .option('-d, --current-dir', 'Generate context for current directory only')
   .option('-s, --project-summary', 'Generate project-wide summary')
+  .option('--for <target>', 'Generate context for a file path, symbol name, or task description')
+  .option('-t, --max-tokens <n>', 'Token budget for the context (default: 8000)')
   .option('-o, --output <file>', 'Output to file instead of stdout')
   .action(contextCommand);
 
+program
+  .command('graph')
+  .description('Print the module or directory dependency graph')
+  .option('-f, --format <format>', 'Output format: dot, mermaid, or json', 'mermaid')
+  .option('--filter <prefix>', 'Only include modules under this path prefix and their direct neighbours')
+  .option('--depth <n>', 'Collapse paths deeper than n segments into their ancestor')
+  .option('-d, --directories', 'Collapse files to directory level')
+  .option('-c, --cycles', 'Highlight dependency cycles')
+  .option('--rebuild', 'Rebuild the graph instead of using the saved one')
+  .option('-o, --output <file>', 'Output to file instead of stdout')
+  .action(graphCommand);
+
+program
+  .command('status')
+  .description('Report which directory docs are fresh, stale, missing, or orphaned')
+  .option('--check', 'Exit with code 1 if any documentation is out of date')
+  .option('-v, --verbose', 'List fresh directories too')
+  .option('--json', 'Output the report as JSON')
+  .action(statusCommand);
+
+program
+  .command('search <query>')
+  .description('Search generated docs, file descriptions, and symbols')
+  .option('-n, --limit <n>', 'Maximum number of results', '10')
+  .option('-k, --kind <kind>', 'Only return one kind of result: section, file, or symbol')
+  .option('--offline', 'Rank by keywords only, even when embeddings are configured')
+  .option('--json', 'Output results as JSON')
+  .action(searchCommand);
+
+program
+  .command('serve')
+  .description('Serve project context to AI agents')
+  .option('--mcp', 'Speak the Model Context Protocol over stdio')
+  .action(serveCommand);
+
+program
+  .command('site')
+  .description('Build a static HTML documentation site that works offline')
+  .option('-o, --output <dir>', 'Output directory (default: .codecontext/site)')
+  .action(siteCommand);
+
+program
+  .command('hooks <action>')
+  .description('Install, uninstall, or inspect the git hook: install, uninstall, or status')
+  .option('--mode <mode>', 'On install: refresh docs after each commit (refresh) or block commits with stale docs (check)', 'refresh')
+  .option('--json', 'Output the status report as JSON')
+  .action(hooksCommand);
+
+program
+  .command('config <action> [key] [value]')
+  .description('Read, change, or check configuration: get <key>, set <key> <value>, validate, or print-effective')
+  .option('-g, --global', 'On set: write the user-wide config instead of .codecontext.json')
+  .option('-p, --path <dir>', 'On print-effective: include the overrides that apply to this directory')
+  .action(configCommand);
+
+program
+  .command('api-diff <ref>')
+  .description('Compare the public API with a git ref and classify changes as breaking or non-breaking')
+  .option('-p, --path <dir>', 'Only compare the API declared under this directory')
+  .option('--json', 'Output the changes as JSON')
+  .option('--check', 'Exit with code 1 when there are breaking changes (for CI)')
+  .action(apiDiffCommand);
+
 program.parse(process.argv);
 
 if (!process.argv.slice(2).length) {
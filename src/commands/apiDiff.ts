@@ -0,0 +1,82 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs-extra';
+import path from 'path';
+import { ApiChange, diffApi } from '../services/apiDiff';
+import { readApiAtRevision, readWorkingTreeApi } from '../services/apiSnapshot';
+import { ConfigError, loadConfig } from '../services/configLoader';
+import { commitExists } from '../services/git';
+import { toProjectPath } from '../utils/fileUtils';
+
+const CHANGE_MARKERS: Record<ApiChange['change'], string> = {
+  added: chalk.green('+'),
+  removed: chalk.red('-'),
+  changed: chalk.yellow('~')
+};
+
+export async function apiDiffCommand(ref: string, options: any) {
+  const spinner = ora(`Comparing the public API with ${ref}...`).start();
+  
+  try {
+    const projectRoot = process.cwd();
+    const configPath = path.join(projectRoot, '.codecontext.json');
+    
+    if (!await fs.pathExists(configPath)) {
+      spinner.fail(chalk.red('CodeContext not initialized. Run "codecontext init" first.'));
+      return;
+    }
+    
+    if (!await commitExists(projectRoot, ref)) {
+      spinner.fail(chalk.red(`Unknown revision "${ref}".`));
+      process.exitCode = 1;
+      return;
+    }
+    
+    const config = await loadConfig(projectRoot);
+    const scope = options.path ? toProjectPath(projectRoot, path.resolve(projectRoot, options.path)) : undefined;
+    const before = await readApiAtRevision(projectRoot, ref, config, scope);
+    const after = await readWorkingTreeApi(projectRoot, config, scope);
+    const changes = diffApi(before, after);
+    const breaking = changes.filter(change => change.breaking);
+    
+    spinner.stop();
+    
+    if (options.json) {
+      console.log(JSON.stringify({ ref, breaking: breaking.length, nonBreaking: changes.length - breaking.length, changes }, null, 2));
+    } else if (changes.length === 0) {
+      console.log(chalk.green(`No public API changes since ${ref}.`));
+    } else {
+      printChanges('Breaking changes', breaking, chalk.red);
+      printChanges('Non-breaking changes', changes.filter(change => !change.breaking), chalk.green);
+      console.log(`${breaking.length} breaking, ${changes.length - breaking.length} non-breaking since ${ref}`);
+    }
+    
+    if (options.check && breaking.length > 0) {
+      process.exitCode = 1;
+    }
+  
+  } catch (error) {
+    spinner.fail(chalk.red('Failed to compare the public API'));
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  }
+}
+
+function printChanges(heading: string, changes: ApiChange[], color: (text: string) => string) {
+  if (changes.length === 0) {
+    return;
+  }
+  
+  console.log(color(`${heading} (${changes.length}):`));
+  for (const change of changes) {
+    const reasons = change.change === 'changed' ? `: ${change.reasons.join('; ')}` : '';
+    console.log(`  ${CHANGE_MARKERS[change.change]} ${chalk.bold(change.name)} ${chalk.gray(change.file)}${reasons}`);
+    if (change.before && change.after) {
+      console.log(chalk.gray(`      before: ${change.before}`));
+      console.log(chalk.gray(`      after:  ${change.after}`));
+    } else {
+      console.log(chalk.gray(`      ${change.before || change.after}`));
+    }
+  }
+  console.log('');
+}
\ No newline at end of file
@@ -0,0 +1,88 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import {
+  ConfigError,
+  getDirectoryConfig,
+  getGlobalConfigPath,
+  getProjectConfigPath,
+  getSetting,
+  loadConfig,
+  loadConfigLayers,
+  parseSettingValue,
+  setSetting,
+  validateConfig
+} from '../services/configLoader';
+
+const ACTIONS = ['get', 'set', 'validate', 'print-effective'];
+
+export async function configCommand(action: string, key: string | undefined, value: string | undefined, options: any) {
+  try {
+    const projectRoot = process.cwd();
+    
+    if (!ACTIONS.includes(action)) {
+      console.error(chalk.red(`Unknown action "${action}". Use one of: ${ACTIONS.join(', ')}`));
+      process.exitCode = 1;
+      return;
+    }
+    
+    if (action === 'get') {
+      if (!key) {
+        console.error(chalk.red('Usage: codecontext config get <key>'));
+        process.exitCode = 1;
+        return;
+      }
+      const setting = getSetting(await loadConfig(projectRoot), key);
+      if (setting === undefined) {
+        console.error(chalk.yellow(`${key} is not set`));
+        process.exitCode = 1;
+        return;
+      }
+      console.log(typeof setting === 'string' ? setting : JSON.stringify(setting, null, 2));
+      return;
+    }
+    
+    if (action === 'set') {
+      if (!key || value === undefined) {
+        console.error(chalk.red('Usage: codecontext config set <key> <value>'));
+        process.exitCode = 1;
+        return;
+      }
+      const filePath = options.global ? getGlobalConfigPath() : getProjectConfigPath(projectRoot);
+      const settings = await fs.pathExists(filePath) ? await fs.readJson(filePath) : {};
+      setSetting(settings, key, parseSettingValue(value));
+      
+      // Never write a file the next command would refuse to load
+      const issues = validateConfig(settings);
+      if (issues.length > 0) {
+        throw new ConfigError(`Not saved; ${path.basename(filePath)} would be invalid:`, issues);
+      }
+      await fs.outputJson(filePath, settings, { spaces: 2 });
+      console.log(chalk.green(`Set ${key} in ${filePath}`));
+      return;
+    }
+    
+    if (action === 'validate') {
+      const layers = await loadConfigLayers(projectRoot);
+      console.log(chalk.green('Configuration is valid.'));
+      for (const layer of layers) {
+        console.log(chalk.gray(`  ${layer.source.padEnd(8)} ${layer.label}`));
+      }
+      return;
+    }
+    
+    const config = await loadConfig(projectRoot);
+    const effective = options.path ? getDirectoryConfig(config, projectRoot, path.resolve(projectRoot, options.path)) : config;
+    console.log(JSON.stringify(effective, null, 2));
+  
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(chalk.red(error.message));
+      process.exitCode = 1;
+      return;
+    }
+    console.error(chalk.red('Failed to read configuration'));
+    console.error(error);
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -2,14 +2,16 @@ import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs-extra';
 import path from 'path';
-import { generateContext } from '../services/contextGenerator';
-import { CodeContextConfig } from '../types';
+import { generateContext, generateTaskContext } from '../services/contextGenerator';
+import { countTokens } from '../services/tokenizer';
+import { ConfigError, loadConfig } from '../services/configLoader';
+import { findProjectRoot } from '../utils/fileUtils';
 
 export async function contextCommand(options: any) {
   const spinner = ora('Generating AI context...').start();
   
   try {
-    const projectRoot = process.cwd();
+    const projectRoot = await findProjectRoot(process.cwd());
     const configPath = path.join(projectRoot, '.codecontext.json');
     
     if (!await fs.pathExists(configPath)) {
@@ -17,32 +19,47 @@ export async function contextCommand(options: any) {
       return;
     }
     
-    const config: CodeContextConfig = await fs.readJson(configPath);
+    const maxTokens = options.maxTokens !== undefined ? parseInt(options.maxTokens, 10) : undefined;
+    if (maxTokens !== undefined && (isNaN(maxTokens) || maxTokens < 1)) {
+      spinner.fail(chalk.red('--max-tokens must be a positive integer'));
+      return;
+    }
+    
+    const config = await loadConfig(projectRoot);
+    const contextOptions = { maxTokens, projectRoot };
     let context: string;
     
-    if (options.currentDir) {
+    if (options.for) {
+      spinner.text = `Gathering context for ${options.for}...`;
+      const taskContext = await generateTaskContext(options.for, config, contextOptions);
+      if (taskContext === null) {
+        spinner.fail(chalk.red(`Nothing in the project matches "${options.for}". Pass a file path, a symbol name, or a few words describing the task.`));
+        return;
+      }
+      context = taskContext;
+    } else if (options.currentDir) {
       spinner.text = 'Generating context for current directory...';
-      context = await generateContext(process.cwd(), config, 'directory');
+      context = await generateContext(process.cwd(), config, 'directory', contextOptions);
     } else if (options.projectSummary) {
       spinner.text = 'Generating project-wide summary...';
-      context = await generateContext(projectRoot, config, 'project');
+      context = await generateContext(projectRoot, config, 'project', contextOptions);
     } else {
       spinner.text = 'Generating standard context...';
-      context = await generateContext(process.cwd(), config, 'standard');
+      context = await generateContext(process.cwd(), config, 'standard', contextOptions);
     }
     
     spinner.stop();
     
     if (options.output) {
       await fs.writeFile(options.output, context);
-      console.log(chalk.green(`Context saved to ${options.output}`));
+      console.log(chalk.green(`Context saved to ${options.output} (~${countTokens(context).toLocaleString('en-US')} tokens)`));
     } else {
       console.log(context);
     }
     
   } catch (error) {
     spinner.fail(chalk.red('Failed to generate context'));
-    console.error(error);
+    console.error(error instanceof ConfigError ? error.message : error);
     process.exit(1);
   }
 }
\ No newline at end of file
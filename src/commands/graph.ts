@@ -0,0 +1,69 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs-extra';
+import path from 'path';
+import { getDirectories } from '../services/analyzer';
+import { buildDependencyGraph, loadDependencyGraph, saveDependencyGraph } from '../services/dependencyGraph';
+import { exportGraph, GraphFormat } from '../services/graphExporter';
+import { ConfigError, loadConfig } from '../services/configLoader';
+import { getIgnoreRules } from '../utils/ignoreRules';
+
+const FORMATS: GraphFormat[] = ['dot', 'mermaid', 'json'];
+
+export async function graphCommand(options: any) {
+  const spinner = ora('Loading dependency graph...').start();
+  
+  try {
+    const projectRoot = process.cwd();
+    const configPath = path.join(projectRoot, '.codecontext.json');
+    
+    if (!await fs.pathExists(configPath)) {
+      spinner.fail(chalk.red('CodeContext not initialized. Run "codecontext init" first.'));
+      return;
+    }
+    
+    const format = String(options.format || 'mermaid').toLowerCase() as GraphFormat;
+    if (!FORMATS.includes(format)) {
+      spinner.fail(chalk.red(`Unknown format "${options.format}". Use one of: ${FORMATS.join(', ')}`));
+      return;
+    }
+    
+    const depth = options.depth !== undefined ? parseInt(options.depth, 10) : undefined;
+    if (depth !== undefined && (isNaN(depth) || depth < 1)) {
+      spinner.fail(chalk.red('--depth must be a positive integer'));
+      return;
+    }
+    
+    const config = await loadConfig(projectRoot);
+    let graph = options.rebuild ? null : await loadDependencyGraph(projectRoot);
+    
+    if (!graph) {
+      spinner.text = 'Building dependency graph...';
+      const directories = await getDirectories(projectRoot, getIgnoreRules(projectRoot, config.ignorePatterns));
+      graph = await buildDependencyGraph(projectRoot, directories, config);
+      await saveDependencyGraph(projectRoot, graph);
+    }
+    
+    const output = exportGraph(graph, {
+      format,
+      filter: options.filter,
+      depth,
+      directories: options.directories,
+      highlightCycles: options.cycles
+    });
+    
+    spinner.stop();
+    
+    if (options.output) {
+      await fs.writeFile(options.output, output);
+      console.log(chalk.green(`Graph saved to ${options.output}`));
+    } else {
+      console.log(output);
+    }
+  
+  } catch (error) {
+    spinner.fail(chalk.red('Failed to export dependency graph'));
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,85 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import path from 'path';
+import {
+  getGitHooksStatus,
+  HookMode,
+  installGitHooks,
+  uninstallGitHooks
+} from '../services/gitHooks';
+
+const ACTIONS = ['install', 'uninstall', 'status'];
+const MODES: HookMode[] = ['refresh', 'check'];
+
+export async function hooksCommand(action: string, options: any) {
+  const spinner = ora('Checking git hooks...').start();
+  
+  try {
+    const projectRoot = process.cwd();
+    const display = (file: string) => {
+      const relative = path.relative(projectRoot, file);
+      return relative && !relative.startsWith('..') ? relative : file;
+    };
+    
+    if (!ACTIONS.includes(action)) {
+      spinner.fail(chalk.red(`Unknown action "${action}". Use one of: ${ACTIONS.join(', ')}`));
+      process.exitCode = 1;
+      return;
+    }
+    
+    if (action === 'install') {
+      const mode: HookMode = options.mode || 'refresh';
+      if (!MODES.includes(mode)) {
+        spinner.fail(chalk.red(`Unknown mode "${options.mode}". Use one of: ${MODES.join(', ')}`));
+        process.exitCode = 1;
+        return;
+      }
+      
+      spinner.text = 'Installing git hooks...';
+      const result = await installGitHooks(projectRoot, mode);
+      if (result.snippet) {
+        spinner.info(`${result.manager?.name} manages this repository's hooks. Add this to ${display(result.manager?.config || '')}:`);
+        console.log(`\n${result.snippet}\n`);
+      } else {
+        spinner.succeed(chalk.green(`Installed the ${result.hook} hook in ${display(result.path || '')}`));
+      }
+      return;
+    }
+    
+    if (action === 'uninstall') {
+      spinner.text = 'Removing git hooks...';
+      const { hooksDir, disabled, changed } = await uninstallGitHooks(projectRoot);
+      if (disabled) {
+        spinner.info(`Git hooks are disabled (core.hooksPath points to ${display(hooksDir)}); nothing to remove.`);
+      } else if (changed.length === 0) {
+        spinner.succeed(chalk.green('No CodeContext hooks installed.'));
+      } else {
+        spinner.succeed(chalk.green(`Removed CodeContext from ${changed.map(display).join(', ')}`));
+      }
+      return;
+    }
+    
+    const report = await getGitHooksStatus(projectRoot);
+    spinner.stop();
+    
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+    
+    console.log(`Hooks directory: ${display(report.hooksDir)}${report.disabled ? chalk.yellow(' (hooks disabled by core.hooksPath)') : ''}`);
+    if (report.manager) {
+      console.log(`Hook manager:    ${report.manager.name} (${display(report.manager.config)})`);
+    }
+    for (const hook of report.hooks) {
+      const state = hook.installed ? chalk.green('installed') : chalk.gray('not installed');
+      const note = hook.legacy ? chalk.yellow('  (old whole-file hook; run "codecontext hooks install" to upgrade)') : '';
+      console.log(`  ${hook.hook.padEnd(12)} ${hook.mode.padEnd(8)} ${state}${note}`);
+    }
+  
+  } catch (error) {
+    spinner.fail(chalk.red('Failed to manage git hooks'));
+    console.error(error);
+    process.exit(1);
+  }
+}
\ No newline at end of file
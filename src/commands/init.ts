@@ -3,7 +3,10 @@ import ora from 'ora';
 import fs from 'fs-extra';
 import path from 'path';
 import { analyzeProject } from '../services/analyzer';
-import { installGitHooks } from '../services/git';
+import { HookInstallResult, installGitHooks } from '../services/gitHooks';
+import { describeAIUsage } from '../services/aiAnalyzer';
+import { ConfigError, DEFAULT_CONFIG, loadConfig, validateConfig } from '../services/configLoader';
+import { McpRegistration, registerMcpServer } from '../services/mcpConfig';
 import { CodeContextConfig } from '../types';
 
 export async function initCommand(options: any) {
@@ -19,41 +22,73 @@ export async function initCommand(options: any) {
     }
     
     const config: CodeContextConfig = {
-      version: '1.0.0',
-      mode: options.mode || 'smart',
-      ignorePatterns: [
-        'node_modules/**',
-        'dist/**',
-        'build/**',
-        '*.log',
-        '.git/**',
-        'coverage/**'
-      ],
-      analysisFocus: ['architecture', 'dependencies', 'recent-changes'],
-      outputFormat: 'markdown',
-      integrations: {
-        git: true,
-        claude: true
+      ...DEFAULT_CONFIG,
+      mode: options.mode || DEFAULT_CONFIG.mode,
+      ai: {
+        provider: 'anthropic'
       }
     };
+    if (options.central) {
+      config.docs = { location: 'central' };
+    }
+    
+    const issues = validateConfig(config);
+    if (issues.length > 0) {
+      throw new ConfigError('Invalid configuration:', issues);
+    }
     
     await fs.writeJson(configPath, config, { spaces: 2 });
     spinner.text = 'Configuration created...';
+    // User-wide settings and CODECONTEXT_* variables apply from the first analysis on
+    const effective = await loadConfig(projectRoot, { mode: options.mode });
+    
+    let hookResult: HookInstallResult | null = null;
+    let hookError: string | null = null;
+    if (effective.integrations.git) {
+      spinner.text = 'Installing git hooks...';
+      try {
+        hookResult = await installGitHooks(projectRoot);
+      } catch (error) {
+        // Docs are still worth generating without a hook; `codecontext hooks install` can retry
+        hookError = error instanceof Error ? error.message : String(error);
+      }
+    }
     
-    spinner.text = 'Installing git hooks...';
-    await installGitHooks(projectRoot);
+    let mcpResult: McpRegistration | null = null;
+    let mcpError: string | null = null;
+    if (effective.integrations.claude) {
+      spinner.text = 'Registering MCP server...';
+      try {
+        mcpResult = await registerMcpServer(projectRoot);
+      } catch (error) {
+        mcpError = error instanceof Error ? error.message : String(error);
+      }
+    }
     
     spinner.text = 'Analyzing project structure...';
-    await analyzeProject(projectRoot, config);
+    await analyzeProject(projectRoot, effective);
     
     spinner.succeed(chalk.green('CodeContext initialized successfully!'));
+    const usage = describeAIUsage(effective, projectRoot);
+    if (usage) console.log(chalk.gray(usage));
+    if (hookError) {
+      console.log(chalk.yellow(`Git hook not installed: ${hookError}`));
+    } else if (hookResult?.snippet) {
+      console.log(chalk.yellow(`\n${hookResult.manager?.name} manages this repository's hooks. Add this to ${hookResult.manager?.config}:`));
+      console.log(hookResult.snippet);
+    }
+    if (mcpError) {
+      console.log(chalk.yellow(`MCP server not registered: ${mcpError}`));
+    } else if (mcpResult?.added) {
+      console.log(chalk.gray(`Registered the codecontext MCP server in ${path.relative(projectRoot, mcpResult.path)}`));
+    }
     console.log(chalk.cyan('\nNext steps:'));
     console.log('  - Run ' + chalk.bold('codecontext refresh') + ' to update documentation');
     console.log('  - Run ' + chalk.bold('codecontext context') + ' to generate AI context');
-    
+  
   } catch (error) {
     spinner.fail(chalk.red('Failed to initialize CodeContext'));
-    console.error(error);
+    console.error(error instanceof ConfigError ? error.message : error);
     process.exit(1);
   }
 }
\ No newline at end of file
@@ -2,8 +2,14 @@ import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs-extra';
 import path from 'path';
-import { analyzeDirectory } from '../services/analyzer';
-import { getChangedFiles } from '../services/git';
+import { analyzeDirectory, pruneDeletedDirectories } from '../services/analyzer';
+import { ChangedFile, commitExists, getChangedFiles } from '../services/git';
+import { getGeneratedFilenames, writeProjectOutputs } from '../services/outputRenderer';
+import { getLastDocumentedCommit, recordDocumentedCommit } from '../services/refreshState';
+import { fromProjectPath } from '../utils/fileUtils';
+import { getIgnoreRules } from '../utils/ignoreRules';
+import { describeAIUsage } from '../services/aiAnalyzer';
+import { ConfigError, loadConfig } from '../services/configLoader';
 import { CodeContextConfig } from '../types';
 
 export async function refreshCommand(options: any) {
@@ -18,37 +24,84 @@ export async function refreshCommand(options: any) {
       return;
     }
     
-    const config: CodeContextConfig = await fs.readJson(configPath);
+    const config = await loadConfig(projectRoot, { mode: options.mode });
     
     if (options.all) {
       spinner.text = 'Refreshing all documentation...';
-      await analyzeDirectory(projectRoot, config);
+      await analyzeDirectory(projectRoot, config, { projectRoot });
     } else if (options.path) {
       const targetPath = path.resolve(projectRoot, options.path);
       spinner.text = `Refreshing documentation for ${options.path}...`;
-      await analyzeDirectory(targetPath, config);
+      await analyzeDirectory(targetPath, config, { projectRoot });
     } else {
+      // Without an explicit --since/--range, pick up where the last run left off,
+      // so the post-commit hook sees what was just committed
+      const since = options.since || (options.range ? undefined : await getLastDocumentedCommit(projectRoot));
+      if (options.since && !await commitExists(projectRoot, options.since)) {
+        spinner.fail(chalk.red(`Unknown revision "${options.since}".`));
+        return;
+      }
+      
       spinner.text = 'Detecting changed files...';
-      const changedFiles = await getChangedFiles(projectRoot);
+      const changedFiles = await getChangedFiles(projectRoot, {
+        range: options.range,
+        // A recorded commit lost to a rebase falls back to the working tree
+        since: since && await commitExists(projectRoot, since) ? since : undefined
+      });
+      const { sourceFiles, directories } = getAffectedSources(changedFiles, config);
       
-      if (changedFiles.length === 0) {
+      if (sourceFiles.length === 0) {
+        if (!options.since && !options.range) await recordDocumentedCommit(projectRoot);
         spinner.succeed(chalk.green('No changes detected. Documentation is up to date.'));
         return;
       }
       
-      spinner.text = `Updating documentation for ${changedFiles.length} changed files...`;
-      const directories = new Set(changedFiles.map(file => path.dirname(file)));
+      spinner.text = `Updating documentation for ${sourceFiles.length} changed files...`;
+      const dirPaths = directories.map(dir => fromProjectPath(projectRoot, dir));
+      const removed = new Set(await pruneDeletedDirectories(projectRoot, dirPaths, config));
       
       for (const dir of directories) {
-        await analyzeDirectory(path.join(projectRoot, dir), config);
+        if (removed.has(dir)) continue;
+        await analyzeDirectory(fromProjectPath(projectRoot, dir), config, { projectRoot, writeProjectOutputs: false });
+      }
+      await writeProjectOutputs(projectRoot, config);
+      if (!options.since && !options.range) await recordDocumentedCommit(projectRoot);
+      
+      if (removed.size > 0) {
+        spinner.info(`Removed documentation for deleted directories: ${Array.from(removed).join(', ')}`);
+        spinner.start();
       }
     }
     
     spinner.succeed(chalk.green('Documentation refreshed successfully!'));
+    const usage = describeAIUsage(config, projectRoot);
+    if (usage) console.log(chalk.gray(usage));
     
   } catch (error) {
     spinner.fail(chalk.red('Failed to refresh documentation'));
-    console.error(error);
+    console.error(error instanceof ConfigError ? error.message : error);
     process.exit(1);
   }
+}
+
+/**
+ * The changed files the analysis would see, and their project-relative
+ * directories. Renames count on both sides, since the old directory lost a
+ * file. Generated docs and ignored or hidden files are left out.
+ */
+function getAffectedSources(changedFiles: ChangedFile[], config: CodeContextConfig): { sourceFiles: string[]; directories: string[] } {
+  const rules = getIgnoreRules(process.cwd(), config.ignorePatterns);
+  const generatedNames = getGeneratedFilenames(config);
+  const sourceFiles = changedFiles
+    .flatMap(change => change.previousPath ? [change.path, change.previousPath] : [change.path])
+    .filter(file =>
+      !generatedNames.includes(path.posix.basename(file)) &&
+      !rules.ignores(file) &&
+      !file.split('/').some(part => part.startsWith('.'))
+    );
+  
+  return {
+    sourceFiles,
+    directories: Array.from(new Set(sourceFiles.map(file => path.posix.dirname(file)))).sort()
+  };
 }
\ No newline at end of file
@@ -0,0 +1,91 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs-extra';
+import path from 'path';
+import { getAIAnalyzer } from '../services/aiAnalyzer';
+import { getSearchIndex, SearchDocumentKind } from '../services/searchIndex';
+import { ConfigError, loadConfig } from '../services/configLoader';
+
+const KINDS: SearchDocumentKind[] = ['section', 'file', 'symbol'];
+
+export async function searchCommand(query: string, options: any) {
+  const spinner = ora('Searching...').start();
+  
+  try {
+    const projectRoot = process.cwd();
+    const configPath = path.join(projectRoot, '.codecontext.json');
+    
+    if (!await fs.pathExists(configPath)) {
+      spinner.fail(chalk.red('CodeContext not initialized. Run "codecontext init" first.'));
+      process.exitCode = 1;
+      return;
+    }
+    
+    const limit = options.limit !== undefined ? parseInt(options.limit, 10) : 10;
+    if (isNaN(limit) || limit < 1) {
+      spinner.fail(chalk.red('--limit must be a positive integer'));
+      process.exitCode = 1;
+      return;
+    }
+    
+    if (options.kind && !KINDS.includes(options.kind)) {
+      spinner.fail(chalk.red(`Unknown kind "${options.kind}". Use one of: ${KINDS.join(', ')}`));
+      process.exitCode = 1;
+      return;
+    }
+    
+    const index = getSearchIndex(projectRoot);
+    if (!await index.exists()) {
+      spinner.fail(chalk.red('No search index yet. Run "codecontext refresh" to build it.'));
+      process.exitCode = 1;
+      return;
+    }
+    
+    const config = await loadConfig(projectRoot);
+    let queryVector: number[] | undefined;
+    let indexHasEmbeddings = false;
+    
+    // Hybrid ranking needs the query embedded by the model that embedded the index
+    if (config.search?.embeddings && !options.offline) {
+      const analyzer = getAIAnalyzer(config, projectRoot);
+      indexHasEmbeddings = analyzer.canEmbed() && analyzer.getEmbeddingModelId() === await index.getEmbeddingModel();
+      if (indexHasEmbeddings) {
+        try {
+          [queryVector] = await analyzer.embed([query]);
+        } catch (error) {
+          spinner.warn(chalk.yellow(`Embedding the query failed, ranking by keywords only: ${(error as Error).message}`));
+          spinner.start('Searching...');
+        }
+      }
+    }
+    
+    const results = await index.search(query, { limit, kind: options.kind, queryVector });
+    spinner.stop();
+    
+    if (options.json) {
+      console.log(JSON.stringify(results, null, 2));
+      return;
+    }
+    
+    if (results.length === 0) {
+      console.log(chalk.yellow(`No results for "${query}".`));
+      return;
+    }
+    
+    for (const { document, snippet } of results) {
+      const location = `${document.path}${document.line ? `:${document.line}` : ''}`;
+      const label = document.name ? `${chalk.bold(document.name)} ${chalk.gray(document.kind)}` : chalk.gray(document.kind);
+      console.log(`${chalk.cyan(location)}  ${label}`);
+      console.log(`  ${snippet}\n`);
+    }
+    
+    if (config.search?.embeddings && !options.offline && !indexHasEmbeddings) {
+      console.log(chalk.gray('Ranked by keywords only: the index has no embeddings from the configured provider.'));
+    }
+  
+  } catch (error) {
+    spinner.fail(chalk.red('Search failed'));
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  }
+}
\ No newline at end of file
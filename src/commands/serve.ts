@@ -0,0 +1,34 @@
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { startMcpServer } from '../services/mcpServer';
+import { ConfigError, loadConfig } from '../services/configLoader';
+
+export async function serveCommand(options: any) {
+  // stdout carries the protocol, so every message here goes to stderr
+  try {
+    if (!options.mcp) {
+      console.error(chalk.red('Specify a protocol to serve. Currently supported: --mcp'));
+      process.exitCode = 1;
+      return;
+    }
+    
+    const projectRoot = process.cwd();
+    const configPath = path.join(projectRoot, '.codecontext.json');
+    
+    if (!await fs.pathExists(configPath)) {
+      console.error(chalk.red('CodeContext not initialized. Run "codecontext init" first.'));
+      process.exitCode = 1;
+      return;
+    }
+    
+    const config = await loadConfig(projectRoot);
+    console.error(chalk.gray(`CodeContext MCP server running on stdio for ${projectRoot}`));
+    await startMcpServer(projectRoot, config);
+    
+  } catch (error) {
+    console.error(chalk.red('MCP server failed'));
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,41 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs-extra';
+import path from 'path';
+import { generateSite } from '../services/siteGenerator';
+
+const DEFAULT_SITE_DIR = '.codecontext/site';
+
+export async function siteCommand(options: any) {
+  const spinner = ora('Building documentation site...').start();
+  
+  try {
+    const projectRoot = process.cwd();
+    const configPath = path.join(projectRoot, '.codecontext.json');
+    
+    if (!await fs.pathExists(configPath)) {
+      spinner.fail(chalk.red('CodeContext not initialized. Run "codecontext init" first.'));
+      return;
+    }
+    
+    const outputDir = path.resolve(projectRoot, options.output || DEFAULT_SITE_DIR);
+    if (outputDir === projectRoot || projectRoot.startsWith(`${outputDir}${path.sep}`)) {
+      spinner.fail(chalk.red('--output must be a directory inside or beside the project, not the project itself or one of its parents'));
+      return;
+    }
+    
+    const result = await generateSite(projectRoot, outputDir);
+    if (result.directories === 0) {
+      spinner.fail(chalk.red('No stored analyses yet. Run "codecontext init --force" or "codecontext refresh" first.'));
+      return;
+    }
+    
+    spinner.succeed(chalk.green(`Built ${result.pages} pages for ${result.directories} directories`));
+    console.log(chalk.cyan(`Open ${path.join(path.relative(process.cwd(), outputDir) || '.', 'index.html')} in a browser.`));
+  
+  } catch (error) {
+    spinner.fail(chalk.red('Failed to build documentation site'));
+    console.error(error);
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs-extra';
+import path from 'path';
+import { getDocumentationStatus, DocState } from '../services/docStatus';
+import { ConfigError, loadConfig } from '../services/configLoader';
+
+const STATE_COLORS: Record<DocState, (text: string) => string> = {
+  fresh: chalk.green,
+  stale: chalk.yellow,
+  missing: chalk.red,
+  orphaned: chalk.magenta
+};
+
+export async function statusCommand(options: any) {
+  const spinner = ora('Checking documentation status...').start();
+  
+  try {
+    const projectRoot = process.cwd();
+    const configPath = path.join(projectRoot, '.codecontext.json');
+    
+    if (!await fs.pathExists(configPath)) {
+      spinner.fail(chalk.red('CodeContext not initialized. Run "codecontext init" first.'));
+      if (options.check) process.exitCode = 1;
+      return;
+    }
+    
+    const config = await loadConfig(projectRoot);
+    const entries = await getDocumentationStatus(projectRoot, config);
+    const outdated = entries.filter(entry => entry.state !== 'fresh');
+    
+    spinner.stop();
+    
+    if (options.json) {
+      console.log(JSON.stringify(entries, null, 2));
+    } else {
+      const shown = options.verbose ? entries : outdated;
+      for (const entry of shown) {
+        const label = STATE_COLORS[entry.state](entry.state.padEnd(8));
+        console.log(`  ${label} ${entry.directory}${entry.reason ? chalk.gray(`  (${entry.reason})`) : ''}`);
+      }
+      
+      const counts = (['fresh', 'stale', 'missing', 'orphaned'] as DocState[])
+        .map(state => `${entries.filter(entry => entry.state === state).length} ${state}`)
+        .join(', ');
+      console.log(`${shown.length > 0 ? '\n' : ''}${counts}`);
+      
+      if (outdated.length > 0) {
+        console.log(chalk.cyan('Run ' + chalk.bold('codecontext refresh') + ' to update stale and missing docs.'));
+      } else {
+        console.log(chalk.green('All documentation is up to date.'));
+      }
+    }
+    
+    if (options.check && outdated.length > 0) {
+      process.exitCode = 1;
+    }
+  
+  } catch (error) {
+    spinner.fail(chalk.red('Failed to check documentation status'));
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  }
+}
\ No newline at end of file
@@ -1,35 +1,147 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { FileAnalysis, DirectoryAnalysis } from '../types';
+import { AIConfig, AITask, AnalysisFocus, CodeContextConfig, FileAnalysis, DirectoryAnalysis } from '../types';
 import { ParsedFile } from './codeParser';
+import { createLLMProvider, LLMProvider, resolveModel } from './llmProvider';
+import { completeStructured, Schema } from './structuredOutput';
+import { AIScheduler, AIUsageSummary, formatUsage } from './aiScheduler';
+import { FOCUS_DESCRIPTIONS } from './analysisFocus';
+
+// Bump when a prompt changes so cached responses from the old prompt are not reused
+export const PROMPT_VERSIONS = {
+  file: 2,
+  directory: 3
+};
+
+const FILE_DESCRIPTION_SCHEMA: Schema = {
+  type: 'object',
+  properties: { description: { type: 'string', minLength: 1 } },
+  required: ['description']
+};
+
+const DIRECTORY_INSIGHTS_SCHEMA: Schema = {
+  type: 'object',
+  properties: {
+    purpose: { type: 'string', minLength: 1 },
+    architecture: { type: 'string', minLength: 1 },
+    improvements: { type: 'array', items: { type: 'string', minLength: 1 } }
+  },
+  required: ['purpose', 'architecture', 'improvements']
+};
+
+const IMPROVEMENTS_SCHEMA: Schema = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+  minItems: 1
+};
+
+export interface DirectoryInsights {
+  purpose: string;
+  architecture: string;
+  improvements: string[];
+}
+
+const EMBEDDING_BATCH_SIZE = 64;
+
+const analyzers = new Map<string, AIAnalyzer>();
+
+/**
+ * One analyzer per project per run, so every directory shares the same
+ * scheduler and therefore the same rate limits and budget.
+ */
+export function getAIAnalyzer(config: CodeContextConfig, projectRoot: string): AIAnalyzer {
+  let analyzer = analyzers.get(projectRoot);
+  if (!analyzer) {
+    analyzer = new AIAnalyzer(config, projectRoot);
+    analyzers.set(projectRoot, analyzer);
+  }
+  return analyzer;
+}
+
+/**
+ * One-line summary of this run's AI requests, tokens and cost, or null when none were made.
+ */
+export function describeAIUsage(config: CodeContextConfig, projectRoot: string): string | null {
+  // Directory overrides can switch AI on for part of a quick-mode project
+  const usesAI = config.mode !== 'quick' || (config.overrides || []).some(override => override.mode && override.mode !== 'quick');
+  const analyzer = usesAI ? analyzers.get(projectRoot) : undefined;
+  const usage = analyzer?.getUsage();
+  return usage && usage.requests > 0 ? formatUsage(usage) : null;
+}
 
 export class AIAnalyzer {
-  private client: Anthropic | null = null;
+  private provider: LLMProvider;
+  private aiConfig?: AIConfig;
+  private scheduler: AIScheduler;
+  
+  constructor(config?: CodeContextConfig, projectRoot?: string) {
+    this.aiConfig = config?.ai;
+    this.scheduler = new AIScheduler(this.aiConfig?.limits, this.aiConfig?.budget, this.aiConfig?.pricing);
+    this.provider = this.scheduler.wrap(createLLMProvider(this.aiConfig, projectRoot));
+  }
+  
+  isAvailable(): boolean {
+    return this.provider.isAvailable();
+  }
+  
+  isBudgetExhausted(): boolean {
+    return this.scheduler.isExhausted();
+  }
+  
+  getUsage(): AIUsageSummary {
+    return this.scheduler.getUsage();
+  }
+  
+  getModel(task: AITask, mode: 'smart' | 'deep'): string {
+    return resolveModel(this.provider, this.aiConfig, task, mode);
+  }
+  
+  /**
+   * Provider and model together, for cache keys: the same model name on two
+   * endpoints (or two mock fixture sets) can answer differently.
+   */
+  getModelId(task: AITask, mode: 'smart' | 'deep'): string {
+    return `${this.provider.id}/${this.getModel(task, mode)}`;
+  }
+  
+  canEmbed(): boolean {
+    return Boolean(this.provider.embed && this.getEmbeddingModel()) && this.isAvailable();
+  }
+  
+  getEmbeddingModelId(): string {
+    return `${this.provider.id}/${this.getEmbeddingModel()}`;
+  }
   
-  constructor() {
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (apiKey) {
-      this.client = new Anthropic({
-        apiKey: apiKey,
+  /**
+   * Embedding vectors for `texts`, in order, requested in batches.
+   */
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.provider.embed || !this.getEmbeddingModel()) {
+      throw new Error(`AI provider "${this.provider.name}" does not support embeddings`);
+    }
+    
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await this.provider.embed({
+        model: this.getEmbeddingModel()!,
+        input: texts.slice(i, i + EMBEDDING_BATCH_SIZE)
       });
+      vectors.push(...response.vectors);
     }
+    return vectors;
   }
   
-  isAvailable(): boolean {
-    return this.client !== null;
+  private getEmbeddingModel(): string | undefined {
+    return this.aiConfig?.embeddingModel || this.provider.defaultEmbeddingModel;
   }
   
   async analyzeDirectory(
     dirPath: string,
     files: FileAnalysis[],
     parsedFiles: Map<string, ParsedFile>,
-    mode: 'smart' | 'deep'
-  ): Promise<{
-    purpose: string;
-    architecture: string;
-    improvements: string[];
-  }> {
-    if (!this.client) {
-      throw new Error('Claude API key not configured');
+    mode: 'smart' | 'deep',
+    focus: AnalysisFocus[] = []
+  ): Promise<DirectoryInsights> {
+    if (!this.isAvailable()) {
+      throw new Error(`AI provider "${this.provider.name}" is not configured`);
     }
     
     // Prepare context for Claude
@@ -41,66 +153,52 @@ ${parsed ? `Exports: ${parsed.exports.map(e => e.name).join(', ')}
 Imports: ${parsed.imports.map(i => i.source).join(', ')}` : ''}`;
     }).join('\n\n');
     
+    // Suggestions follow the configured focus areas, e.g. only security and performance
+    const concerns = focus.filter(area => area !== 'architecture' && area !== 'improvements');
+    const focusContext = concerns.length > 0
+      ? `\nThe team cares most about:\n${concerns.map(area => `- ${area}: ${FOCUS_DESCRIPTIONS[area]}`).join('\n')}\n`
+      : '';
+    const suggestionTopic = concerns.length > 0 ? 'the concerns listed above' : 'the code structure';
+    
     const prompt = `Analyze this directory structure and provide insights:
 
 Directory: ${dirPath}
 
 Files:
 ${fileContext}
-
+${focusContext}
 Please provide:
 1. A concise purpose statement (1 sentence)
-2. Architecture insights (2-3 sentences about patterns, structure, and design)
-3. 3-5 specific improvement suggestions based on the code structure
+2. Architecture insights (${focus.includes('architecture') ? '2-3 sentences about patterns, structure, and design' : '1 sentence'})
+3. ${focus.includes('improvements') ? `3-5 specific improvement suggestions about ${suggestionTopic}` : 'An empty list of improvements'}
 
 Format your response as JSON with keys: purpose, architecture, improvements (array)`;
 
-    try {
-      const response = await this.client.messages.create({
-        model: mode === 'deep' ? 'claude-3-opus-20240229' : 'claude-3-haiku-20240307',
-        max_tokens: 1000,
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
-      });
-      
-      const content = response.content[0];
-      if (content.type === 'text') {
-        try {
-          // Try to parse JSON response
-          const parsed = JSON.parse(content.text);
-          return {
-            purpose: parsed.purpose || 'AI analysis unavailable',
-            architecture: parsed.architecture || 'AI analysis unavailable',
-            improvements: parsed.improvements || []
-          };
-        } catch {
-          // Fallback if not valid JSON
-          return {
-            purpose: 'AI-powered analysis available with proper API key',
-            architecture: content.text.substring(0, 200),
-            improvements: []
-          };
-        }
-      }
-    } catch (error) {
-      console.error('AI analysis error:', error);
-    }
+    // API errors and unusable output propagate so callers can fall back without caching a failure
+    const insights = await completeStructured<DirectoryInsights>(this.provider, {
+      task: 'directory',
+      model: this.getModel('directory', mode),
+      maxTokens: 1000,
+      messages: [{
+        role: 'user',
+        content: prompt
+      }]
+    }, DIRECTORY_INSIGHTS_SCHEMA);
     
     return {
-      purpose: 'AI-powered analysis available with proper API key',
-      architecture: 'Standard module structure',
-      improvements: []
+      purpose: insights.purpose.trim(),
+      architecture: insights.architecture.trim(),
+      improvements: insights.improvements.map(improvement => improvement.trim()).slice(0, 5)
     };
   }
   
   async analyzeCodeQuality(
     filePath: string,
     content: string,
-    parsed: ParsedFile
+    parsed: ParsedFile,
+    mode: 'smart' | 'deep' = 'smart'
   ): Promise<string> {
-    if (!this.client || !parsed) {
+    if (!this.isAvailable() || !parsed) {
       return parsed?.mainPurpose || 'File analysis';
     }
     
@@ -114,34 +212,26 @@ Imports: ${parsed.imports.slice(0, 5).map(i => i.source).join(', ')}
 Code snippet (first 30 lines):
 ${content.split('\n').slice(0, 30).join('\n')}
 
-Provide only a single sentence describing what this file does.`;
+Respond with JSON of the form {"description": "<one sentence describing what this file does>"}.`;
 
-    try {
-      const response = await this.client.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 100,
-        messages: [{
-          role: 'user',
-          content: prompt
-        }]
-      });
-      
-      const content = response.content[0];
-      if (content.type === 'text') {
-        return content.text.trim();
-      }
-    } catch (error) {
-      // Fallback to parsed analysis
-    }
+    const result = await completeStructured<{ description: string }>(this.provider, {
+      task: 'file',
+      model: this.getModel('file', mode),
+      maxTokens: 150,
+      messages: [{
+        role: 'user',
+        content: prompt
+      }]
+    }, FILE_DESCRIPTION_SCHEMA);
     
-    return parsed.mainPurpose;
+    return result.description.trim();
   }
   
   async suggestImprovements(
     analysis: DirectoryAnalysis,
     mode: 'smart' | 'deep'
   ): Promise<string[]> {
-    if (!this.client || mode === 'smart') {
+    if (!this.isAvailable() || mode === 'smart') {
       // Return basic improvements for smart mode
       return analysis.improvements;
     }
@@ -163,34 +253,19 @@ Consider:
 Provide specific, actionable suggestions as a JSON array of strings.`;
 
     try {
-      const response = await this.client.messages.create({
-        model: 'claude-3-opus-20240229',
-        max_tokens: 500,
+      const suggestions = await completeStructured<string[]>(this.provider, {
+        task: 'improvements',
+        model: this.getModel('improvements', mode),
+        maxTokens: 500,
         messages: [{
           role: 'user',
           content: prompt
         }]
-      });
+      }, IMPROVEMENTS_SCHEMA);
       
-      const content = response.content[0];
-      if (content.type === 'text') {
-        try {
-          const suggestions = JSON.parse(content.text);
-          if (Array.isArray(suggestions)) {
-            return suggestions.slice(0, 5);
-          }
-        } catch {
-          // Parse as text lines if not JSON
-          return content.text
-            .split('\n')
-            .filter(line => line.trim().match(/^[\d\-\*]\.?\s/))
-            .map(line => line.replace(/^[\d\-\*]\.?\s+/, '').trim())
-            .filter(Boolean)
-            .slice(0, 5);
-        }
-      }
+      return suggestions.map(suggestion => suggestion.trim()).slice(0, 5);
     } catch (error) {
-      console.error('AI improvement suggestions error:', error);
+      console.error(`AI improvement suggestions failed for ${analysis.path}: ${(error as Error).message}`);
     }
     
     return analysis.improvements;
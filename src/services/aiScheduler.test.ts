@@ -0,0 +1,177 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { LLMProvider, LLMRequest, LLMRequestError, LLMResponse } from './llmProvider';
+import { AIScheduler, BudgetExceededError, formatUsage, runWithConcurrency } from './aiScheduler';
+
+// 40 characters, so the scheduler estimates 10 input tokens
+const request: LLMRequest = {
+  model: 'test-model',
+  maxTokens: 50,
+  messages: [{ role: 'user', content: 'x'.repeat(40) }]
+};
+
+function createProvider(complete: (request: LLMRequest) => Promise<LLMResponse>): LLMProvider {
+  return {
+    name: 'mock',
+    id: 'mock:test',
+    defaultModels: {
+      smart: { file: 'm', directory: 'm', improvements: 'm' },
+      deep: { file: 'm', directory: 'm', improvements: 'm' }
+    },
+    isAvailable: () => true,
+    complete
+  };
+}
+
+function reply(inputTokens = 10, outputTokens = 20): LLMResponse {
+  return { text: 'ok', model: 'test-model', usage: { inputTokens, outputTokens } };
+}
+
+describe('AIScheduler', () => {
+  describe('retries', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      // Take the top of the jitter range so delays are exact
+      jest.spyOn(Math, 'random').mockReturnValue(1);
+    });
+    
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+    
+    it('backs off exponentially on rate limits and overload', async () => {
+      const calls: number[] = [];
+      const provider = createProvider(async () => {
+        calls.push(Date.now());
+        if (calls.length === 1) throw new LLMRequestError('rate limited', 429);
+        if (calls.length === 2) throw new LLMRequestError('overloaded', 529);
+        return reply();
+      });
+      const scheduler = new AIScheduler();
+      
+      const result = scheduler.wrap(provider).complete(request);
+      await jest.advanceTimersByTimeAsync(999);
+      expect(calls).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(calls).toHaveLength(2);
+      await jest.advanceTimersByTimeAsync(2000);
+      
+      expect(await result).toEqual(reply());
+      expect(calls.map(time => time - calls[0])).toEqual([0, 1000, 3000]);
+      expect(scheduler.getUsage()).toMatchObject({ requests: 1, retries: 2, inputTokens: 10, outputTokens: 20 });
+    });
+    
+    it('waits at least as long as the server asks', async () => {
+      let calls = 0;
+      const provider = createProvider(async () => {
+        if (++calls === 1) throw new LLMRequestError('rate limited', 429, 5000);
+        return reply();
+      });
+      
+      const result = new AIScheduler().wrap(provider).complete(request);
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(calls).toBe(1);
+      await jest.advanceTimersByTimeAsync(1);
+      await result;
+      expect(calls).toBe(2);
+    });
+    
+    it('rethrows other failures and gives up after maxRetries', async () => {
+      const badRequest = createProvider(async () => { throw new LLMRequestError('bad request', 400); });
+      await expect(new AIScheduler().wrap(badRequest).complete(request)).rejects.toThrow('bad request');
+      
+      let calls = 0;
+      const overloaded = createProvider(async () => {
+        calls++;
+        throw new LLMRequestError('overloaded', 503);
+      });
+      const result = new AIScheduler({ maxRetries: 2 }).wrap(overloaded).complete(request);
+      const settled = expect(result).rejects.toThrow('overloaded');
+      await jest.advanceTimersByTimeAsync(3000);
+      await settled;
+      expect(calls).toBe(3);
+    });
+    
+    it('holds requests beyond the per-minute limit until the window moves on', async () => {
+      const calls: number[] = [];
+      const provider = createProvider(async () => {
+        calls.push(Date.now());
+        return reply();
+      });
+      const wrapped = new AIScheduler({ requestsPerMinute: 2 }).wrap(provider);
+      
+      const results = Promise.all([wrapped.complete(request), wrapped.complete(request), wrapped.complete(request)]);
+      await jest.advanceTimersByTimeAsync(59999);
+      expect(calls).toHaveLength(2);
+      await jest.advanceTimersByTimeAsync(1);
+      await results;
+      expect(calls[2] - calls[0]).toBe(60000);
+    });
+  });
+  
+  describe('budget', () => {
+    it('refuses requests that could exceed the token budget', async () => {
+      const scheduler = new AIScheduler({}, { tokens: 100 });
+      const wrapped = scheduler.wrap(createProvider(async () => reply()));
+      
+      // Each request reserves its input estimate plus maxTokens (60), then is charged what it used (30)
+      await wrapped.complete(request);
+      await wrapped.complete(request);
+      await expect(wrapped.complete(request)).rejects.toThrow(BudgetExceededError);
+      expect(scheduler.isExhausted()).toBe(true);
+      expect(wrapped.isAvailable()).toBe(false);
+      expect(scheduler.getUsage()).toMatchObject({ requests: 2, inputTokens: 20, outputTokens: 40 });
+    });
+    
+    it('counts requests still in flight against the budget', async () => {
+      let finish: () => void = () => {};
+      const provider = createProvider(() => new Promise(resolve => { finish = () => resolve(reply()); }));
+      const wrapped = new AIScheduler({}, { tokens: 100 }).wrap(provider);
+      
+      const first = wrapped.complete(request);
+      await expect(wrapped.complete(request)).rejects.toThrow('AI token budget of 100 for this run is used up');
+      finish();
+      await first;
+    });
+    
+    it('prices requests by model for the cost budget', async () => {
+      const scheduler = new AIScheduler({}, { cost: 0.01 }, { 'test-model': { input: 100, output: 100 } });
+      const wrapped = scheduler.wrap(createProvider(async () => reply()));
+      
+      await wrapped.complete(request);
+      expect(scheduler.getUsage().cost).toBeCloseTo(0.003);
+      await expect(wrapped.complete({ ...request, maxTokens: 1000 })).rejects.toThrow('AI cost budget of $0.01 for this run is used up');
+    });
+  });
+  
+  it('runs at most `concurrency` requests at once', async () => {
+    let active = 0;
+    let peak = 0;
+    const provider = createProvider(async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise(resolve => setImmediate(resolve));
+      active--;
+      return reply();
+    });
+    const wrapped = new AIScheduler({ concurrency: 2 }).wrap(provider);
+    
+    await Promise.all(Array.from({ length: 5 }, () => wrapped.complete(request)));
+    expect(peak).toBe(2);
+  });
+});
+
+describe('formatUsage', () => {
+  it('summarizes requests, retries, tokens and cost', () => {
+    expect(formatUsage({ requests: 1, retries: 0, inputTokens: 10, outputTokens: 5, cost: 0 })).toBe('AI usage: 1 request, 15 tokens');
+    expect(formatUsage({ requests: 12, retries: 1, inputTokens: 1200, outputTokens: 300, cost: 0.126 }))
+      .toBe('AI usage: 12 requests, 1 retry, 1,500 tokens, ~$0.13');
+  });
+});
+
+describe('runWithConcurrency', () => {
+  it('keeps results in input order', async () => {
+    const delays = [30, 10, 20, 0];
+    const results = await runWithConcurrency(delays, 2, delay => new Promise<number>(resolve => setTimeout(() => resolve(delay), delay)));
+    expect(results).toEqual(delays);
+  });
+});
\ No newline at end of file
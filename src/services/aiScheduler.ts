@@ -0,0 +1,283 @@
+import { AIBudget, AILimits, ModelPricing } from '../types';
+import { EmbeddingRequest, EmbeddingResponse, LLMProvider, LLMRequest, LLMResponse } from './llmProvider';
+
+export const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+const WINDOW_MS = 60000;
+
+// Rate limited, service unavailable, and Anthropic's "overloaded"
+const RETRYABLE_STATUS = new Set([429, 503, 529]);
+
+// USD per million tokens for the built-in default models; `ai.pricing` overrides these
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-opus-20240229': { input: 15, output: 75 }
+};
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface AIUsageSummary {
+  requests: number;
+  retries: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+/**
+ * Gate for every LLM request in a run: caps parallel requests, keeps
+ * requests and tokens per minute under the configured limits, retries
+ * rate-limit and overload responses with backoff, and refuses requests once
+ * the run's token or cost budget would be exceeded.
+ */
+export class AIScheduler {
+  private active = 0;
+  private queue: (() => void)[] = [];
+  private requestLog: number[] = [];
+  private tokenLog: { time: number; tokens: number }[] = [];
+  private reservedTokens = 0;
+  private reservedCost = 0;
+  private exhausted = false;
+  private usage: AIUsageSummary = { requests: 0, retries: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+  
+  constructor(
+    private limits: AILimits = {},
+    private budget: AIBudget = {},
+    private pricing: Record<string, ModelPricing> = {}
+  ) {}
+  
+  /**
+   * Returns a provider whose requests all go through this scheduler.
+   */
+  wrap(provider: LLMProvider): LLMProvider {
+    return {
+      ...provider,
+      isAvailable: () => provider.isAvailable() && !this.exhausted,
+      complete: request => this.complete(provider, request),
+      embed: provider.embed ? request => this.embed(provider, request) : undefined
+    };
+  }
+  
+  isExhausted(): boolean {
+    return this.exhausted;
+  }
+  
+  getUsage(): AIUsageSummary {
+    return { ...this.usage };
+  }
+  
+  private complete(provider: LLMProvider, request: LLMRequest): Promise<LLMResponse> {
+    const inputEstimate = estimateInputTokens(request);
+    return this.schedule(request.model, inputEstimate, request.maxTokens, async () => {
+      const response = await provider.complete(request);
+      return {
+        result: response,
+        inputTokens: response.usage?.inputTokens ?? inputEstimate,
+        outputTokens: response.usage?.outputTokens ?? Math.ceil(response.text.length / 4)
+      };
+    });
+  }
+  
+  private embed(provider: LLMProvider, request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    const inputEstimate = Math.ceil(request.input.reduce((sum, text) => sum + text.length, 0) / 4);
+    return this.schedule(request.model, inputEstimate, 0, async () => {
+      const response = await provider.embed!(request);
+      return { result: response, inputTokens: response.usage?.inputTokens ?? inputEstimate, outputTokens: 0 };
+    });
+  }
+  
+  /**
+   * Runs one request under the budget, concurrency and rate limits, retrying
+   * retryable failures. `send` reports the tokens the request actually used.
+   */
+  private async schedule<T>(
+    model: string,
+    inputEstimate: number,
+    maxOutputTokens: number,
+    send: () => Promise<{ result: T; inputTokens: number; outputTokens: number }>
+  ): Promise<T> {
+    const tokenEstimate = inputEstimate + maxOutputTokens;
+    const costEstimate = this.costOf(model, inputEstimate, maxOutputTokens);
+    
+    this.reserveBudget(tokenEstimate, costEstimate);
+    try {
+      await this.acquireSlot();
+      try {
+        return await this.sendWithRetry(model, tokenEstimate, send);
+      } finally {
+        this.releaseSlot();
+      }
+    } finally {
+      this.reservedTokens -= tokenEstimate;
+      this.reservedCost -= costEstimate;
+    }
+  }
+  
+  private async sendWithRetry<T>(
+    model: string,
+    tokenEstimate: number,
+    send: () => Promise<{ result: T; inputTokens: number; outputTokens: number }>
+  ): Promise<T> {
+    const maxRetries = this.limits.maxRetries ?? DEFAULT_MAX_RETRIES;
+    
+    for (let attempt = 0; ; attempt++) {
+      const logEntry = await this.waitForRateLimit(tokenEstimate);
+      
+      try {
+        const { result, inputTokens, outputTokens } = await send();
+        
+        logEntry.tokens = inputTokens + outputTokens;
+        this.usage.requests++;
+        this.usage.inputTokens += inputTokens;
+        this.usage.outputTokens += outputTokens;
+        this.usage.cost += this.costOf(model, inputTokens, outputTokens);
+        return result;
+      } catch (error) {
+        const status = (error as { status?: unknown } | null)?.status;
+        if (typeof status !== 'number' || !RETRYABLE_STATUS.has(status) || attempt >= maxRetries) {
+          throw error;
+        }
+        
+        this.usage.retries++;
+        const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt) * (0.5 + Math.random() / 2);
+        await sleep(Math.max(backoff, getRetryAfterMs(error) ?? 0));
+      }
+    }
+  }
+  
+  private reserveBudget(tokens: number, cost: number): void {
+    const usedTokens = this.usage.inputTokens + this.usage.outputTokens + this.reservedTokens;
+    const usedCost = this.usage.cost + this.reservedCost;
+    
+    if (this.budget.tokens !== undefined && usedTokens + tokens > this.budget.tokens) {
+      this.exhausted = true;
+      throw new BudgetExceededError(`AI token budget of ${this.budget.tokens} for this run is used up`);
+    }
+    if (this.budget.cost !== undefined && usedCost + cost > this.budget.cost) {
+      this.exhausted = true;
+      throw new BudgetExceededError(`AI cost budget of $${this.budget.cost.toFixed(2)} for this run is used up`);
+    }
+    
+    this.reservedTokens += tokens;
+    this.reservedCost += cost;
+  }
+  
+  private async acquireSlot(): Promise<void> {
+    const concurrency = this.limits.concurrency || DEFAULT_CONCURRENCY;
+    if (this.active < concurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing request hands its slot straight to the next waiter
+    await new Promise<void>(resolve => this.queue.push(resolve));
+  }
+  
+  private releaseSlot(): void {
+    const next = this.queue.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+  
+  /**
+   * Waits until one more request of `tokens` fits in the sliding one-minute
+   * window, then records it. A single request larger than the whole token
+   * limit is let through on an empty window rather than blocking forever.
+   */
+  private async waitForRateLimit(tokens: number): Promise<{ time: number; tokens: number }> {
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    
+    for (;;) {
+      const now = Date.now();
+      this.requestLog = this.requestLog.filter(time => now - time < WINDOW_MS);
+      this.tokenLog = this.tokenLog.filter(entry => now - entry.time < WINDOW_MS);
+      
+      const windowTokens = this.tokenLog.reduce((sum, entry) => sum + entry.tokens, 0);
+      const requestsOk = !requestsPerMinute || this.requestLog.length < requestsPerMinute;
+      const tokensOk = !tokensPerMinute || this.tokenLog.length === 0 || windowTokens + tokens <= tokensPerMinute;
+      
+      if (requestsOk && tokensOk) {
+        const entry = { time: now, tokens };
+        this.requestLog.push(now);
+        this.tokenLog.push(entry);
+        return entry;
+      }
+      
+      const oldest = Math.min(this.requestLog[0] ?? Infinity, this.tokenLog[0]?.time ?? Infinity);
+      await sleep(Math.max(50, oldest + WINDOW_MS - now));
+    }
+  }
+  
+  private costOf(model: string, inputTokens: number, outputTokens: number): number {
+    const price = this.pricing[model] || DEFAULT_PRICING[model];
+    if (!price) {
+      return 0;
+    }
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  }
+}
+
+export function formatUsage(usage: AIUsageSummary): string {
+  const tokens = usage.inputTokens + usage.outputTokens;
+  const retries = usage.retries > 0 ? `, ${usage.retries} ${usage.retries === 1 ? 'retry' : 'retries'}` : '';
+  const cost = usage.cost > 0 ? `, ~$${usage.cost.toFixed(2)}` : '';
+  return `AI usage: ${usage.requests} ${usage.requests === 1 ? 'request' : 'requests'}${retries}, ${tokens.toLocaleString('en-US')} tokens${cost}`;
+}
+
+/**
+ * Runs `fn` over `items` with at most `limit` in flight, preserving result order.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+function estimateInputTokens(request: LLMRequest): number {
+  const characters = (request.system?.length || 0) +
+    request.messages.reduce((sum, message) => sum + message.content.length, 0);
+  return Math.ceil(characters / 4);
+}
+
+function getRetryAfterMs(error: unknown): number | undefined {
+  const { retryAfterMs, headers } = (error || {}) as { retryAfterMs?: unknown; headers?: unknown };
+  if (typeof retryAfterMs === 'number') {
+    return retryAfterMs;
+  }
+  
+  let value: unknown;
+  if (headers && typeof (headers as { get?: unknown }).get === 'function') {
+    value = (headers as { get(name: string): string | null }).get('retry-after');
+  } else if (headers && typeof headers === 'object') {
+    value = (headers as Record<string, unknown>)['retry-after'];
+  }
+  
+  const seconds = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { createCacheKey, getAnalysisCache } from './analysisCache';
+
+describe('createCacheKey', () => {
+  it('changes when any part changes', () => {
+    const key = createCacheKey('hash', 'smart', 'model', 1);
+    expect(createCacheKey('hash', 'smart', 'model', 1)).toBe(key);
+    expect(createCacheKey('hash', 'deep', 'model', 1)).not.toBe(key);
+    expect(createCacheKey('hash', 'smart', 'model', 2)).not.toBe(key);
+    // Parts are separated, so shifting text between them is a different key
+    expect(createCacheKey('ab', 'c')).not.toBe(createCacheKey('a', 'bc'));
+  });
+});
+
+describe('AnalysisCache', () => {
+  let projectRoot: string;
+  
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'codecontext-cache-'));
+  });
+  
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+  
+  it('stores and returns entries by key', async () => {
+    const cache = getAnalysisCache(projectRoot);
+    const key = createCacheKey('content');
+    
+    expect(await cache.get('descriptions', key)).toBeUndefined();
+    await cache.set('descriptions', key, { description: 'Parses config' });
+    expect(await cache.get('descriptions', key)).toEqual({ description: 'Parses config' });
+  });
+  
+  it('git-ignores its own directory', async () => {
+    await getAnalysisCache(projectRoot).set('parsed', createCacheKey('x'), null);
+    
+    const ignore = await fs.readFile(path.join(projectRoot, '.codecontext', 'cache', '.gitignore'), 'utf-8');
+    expect(ignore.split('\n')).toContain('*');
+  });
+  
+  it('reuses the parse of an unchanged file', async () => {
+    const filePath = path.join(projectRoot, 'a.ts');
+    await fs.writeFile(filePath, 'export function a() { return 1; }\n');
+    const cache = getAnalysisCache(projectRoot);
+    
+    const first = await cache.parseFile(filePath);
+    expect(first?.parsed?.functions.map(fn => fn.name)).toEqual(['a']);
+    expect(await cache.parseFile(filePath)).toEqual(first);
+    expect(await cache.parseFile(path.join(projectRoot, 'notes.bin'))).toBeNull();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,121 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { getCodeContextDir, toProjectPath } from '../utils/fileUtils';
+import { getParserForFile, parseSourceFile, ParsedFile } from './codeParser';
+
+// Bump when the shape of cached entries or the parser output changes
+const CACHE_VERSION = 1;
+const CACHE_DIR = 'cache';
+
+export type CacheNamespace = 'parsed' | 'descriptions' | 'directories';
+
+export interface CachedParse {
+  parsed: ParsedFile | null;
+  content: string;
+  contentHash: string;
+}
+
+const caches = new Map<string, AnalysisCache>();
+
+export function getAnalysisCache(projectRoot: string): AnalysisCache {
+  let cache = caches.get(projectRoot);
+  if (!cache) {
+    cache = new AnalysisCache(projectRoot);
+    caches.set(projectRoot, cache);
+  }
+  return cache;
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Combines everything an entry depends on into one content-addressed key, so
+ * a change to any part (source, mode, model, prompt) misses the old entry.
+ */
+export function createCacheKey(...parts: (string | number)[]): string {
+  return hashContent([CACHE_VERSION, ...parts].join('\0'));
+}
+
+/**
+ * Persistent store under `.codecontext/cache`. Entries are immutable JSON files
+ * named by their key, so stale entries are simply never looked up again. The
+ * directory carries its own `.gitignore`, so it never shows up as untracked files.
+ */
+export class AnalysisCache {
+  private readonly root: string;
+  private ignored: Promise<void> | null = null;
+  
+  constructor(private projectRoot: string) {
+    this.root = path.join(getCodeContextDir(projectRoot), CACHE_DIR);
+  }
+  
+  async get<T>(namespace: CacheNamespace, key: string): Promise<T | undefined> {
+    try {
+      const entry = await fs.readJson(this.entryPath(namespace, key));
+      return entry.value as T;
+    } catch {
+      return undefined;
+    }
+  }
+  
+  async set<T>(namespace: CacheNamespace, key: string, value: T): Promise<void> {
+    try {
+      await this.ensureIgnored();
+      await fs.outputJson(this.entryPath(namespace, key), { value });
+    } catch {
+      // A read-only or full disk only costs us the cache, not the analysis
+    }
+  }
+  
+  /**
+   * Parses a source file, reusing the stored result when its content is unchanged.
+   * Returns null for files no registered parser handles.
+   */
+  async parseFile(filePath: string): Promise<CachedParse | null> {
+    if (!getParserForFile(filePath)) {
+      return null;
+    }
+    
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      console.error(`Error reading ${filePath}:`, error);
+      return null;
+    }
+    
+    const contentHash = hashContent(content);
+    const key = createCacheKey(contentHash, toProjectPath(this.projectRoot, filePath));
+    
+    const cached = await this.get<ParsedFile>('parsed', key);
+    if (cached) {
+      return { parsed: cached, content, contentHash };
+    }
+    
+    const parsed = await parseSourceFile(filePath, content);
+    if (parsed) {
+      await this.set('parsed', key, parsed);
+    }
+    return { parsed, content, contentHash };
+  }
+  
+  // Checked once per run; a cache directory deleted between runs gets a new one
+  private ensureIgnored(): Promise<void> {
+    if (!this.ignored) {
+      const ignorePath = path.join(this.root, '.gitignore');
+      this.ignored = fs.pathExists(ignorePath).then(exists =>
+        exists ? undefined : fs.outputFile(ignorePath, '# Local analysis cache written by CodeContext\n*\n')
+      );
+      // A failed write is retried with the next entry
+      this.ignored.catch(() => { this.ignored = null; });
+    }
+    return this.ignored;
+  }
+  
+  private entryPath(namespace: CacheNamespace, key: string): string {
+    return path.join(this.root, namespace, key.slice(0, 2), `${key}.json`);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { AnalysisFocus, CodeContextConfig } from '../types';
+
+// What each focus area asks the AI to look at, worded for prompts
+export const FOCUS_DESCRIPTIONS: Record<AnalysisFocus, string> = {
+  architecture: 'structure, patterns, and design decisions',
+  dependencies: 'what the code imports, what depends on it, and how tightly they are coupled',
+  'recent-changes': 'how recent commits changed the code',
+  improvements: 'refactoring and maintenance opportunities',
+  'api-surface': 'the exported API: naming, consistency, and what callers can rely on',
+  tests: 'what is tested and which behavior has no tests',
+  security: 'input validation, injection, secrets, and unsafe APIs',
+  performance: 'blocking I/O, repeated work, and memory use'
+};
+
+/**
+ * The focus areas enabled for a directory's config. An empty list leaves
+ * only the purpose and key files.
+ */
+export function getAnalysisFocus(config: CodeContextConfig): Set<AnalysisFocus> {
+  return new Set(config.analysisFocus || []);
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { DirectoryAnalysis } from '../types';
+import { getCodeContextDir, toProjectPath } from '../utils/fileUtils';
+
+const STORE_VERSION = 1;
+const STORE_FILE = 'analyses.json';
+
+interface AnalysisStoreData {
+  version: number;
+  // Latest analysis per project-relative directory, in portable form
+  directories: Record<string, DirectoryAnalysis>;
+}
+
+const stores = new Map<string, AnalysisStore>();
+
+export function getAnalysisStore(projectRoot: string): AnalysisStore {
+  let store = stores.get(projectRoot);
+  if (!store) {
+    store = new AnalysisStore(projectRoot);
+    stores.set(projectRoot, store);
+  }
+  return store;
+}
+
+/**
+ * Forgets the loaded store, so the next getAnalysisStore call re-reads
+ * analyses.json, including changes another process made to it.
+ */
+export function clearAnalysisStore(projectRoot: string): void {
+  stores.delete(projectRoot);
+}
+
+/**
+ * The analysis with every absolute path made project-relative, so it reads the
+ * same on every machine. Import specifiers are left as written.
+ */
+export function toPortableAnalysis(projectRoot: string, analysis: DirectoryAnalysis): DirectoryAnalysis {
+  const relative = (filePath: string) => path.isAbsolute(filePath) ? toProjectPath(projectRoot, filePath) : filePath;
+  return {
+    ...analysis,
+    path: toProjectPath(projectRoot, analysis.path),
+    keyFiles: analysis.keyFiles.map(file => ({ ...file, path: relative(file.path) })),
+    dependencies: analysis.dependencies.map(dep => ({ ...dep, from: relative(dep.from), to: relative(dep.to) }))
+  };
+}
+
+/**
+ * The latest DirectoryAnalysis of every analyzed directory, kept in
+ * `.codecontext/analyses.json` so readers such as the static site work from
+ * the analysis itself rather than from whichever doc formats were rendered.
+ */
+export class AnalysisStore {
+  private data: Promise<AnalysisStoreData> | null = null;
+  // Writes are chained so parallel directory updates never interleave
+  private saving: Promise<void> = Promise.resolve();
+  
+  constructor(private projectRoot: string) {}
+  
+  async set(analysis: DirectoryAnalysis): Promise<void> {
+    const portable = toPortableAnalysis(this.projectRoot, analysis);
+    (await this.load()).directories[portable.path] = portable;
+    await this.save();
+  }
+  
+  /**
+   * Drops directories that are no longer analyzed.
+   */
+  async retain(dirs: string[]): Promise<void> {
+    const data = await this.load();
+    const keep = new Set(dirs);
+    for (const dir of Object.keys(data.directories)) {
+      if (!keep.has(dir)) delete data.directories[dir];
+    }
+    await this.save();
+  }
+  
+  /**
+   * Every stored analysis, sorted by directory, with project-relative paths.
+   */
+  async getAll(): Promise<DirectoryAnalysis[]> {
+    const data = await this.load();
+    return Object.values(data.directories).sort((a, b) => a.path.localeCompare(b.path));
+  }
+  
+  private load(): Promise<AnalysisStoreData> {
+    if (!this.data) {
+      this.data = fs.readJson(this.storePath())
+        .then((data: AnalysisStoreData) => data.version === STORE_VERSION ? reviveDates(data) : null)
+        .catch(() => null)
+        .then(data => data || { version: STORE_VERSION, directories: {} });
+    }
+    return this.data;
+  }
+  
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      await fs.outputJson(this.storePath(), await this.load());
+    });
+    return this.saving;
+  }
+  
+  private storePath(): string {
+    return path.join(getCodeContextDir(this.projectRoot), STORE_FILE);
+  }
+}
+
+// JSON leaves dates as ISO strings
+function reviveDates(data: AnalysisStoreData): AnalysisStoreData {
+  for (const analysis of Object.values(data.directories)) {
+    analysis.keyFiles.forEach(file => { file.lastModified = new Date(file.lastModified); });
+    analysis.recentChanges.forEach(change => { change.date = new Date(change.date); });
+  }
+  return data;
+}
\ No newline at end of file
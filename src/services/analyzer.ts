@@ -1,36 +1,147 @@
 import fs from 'fs-extra';
 import path from 'path';
-import ignore from 'ignore';
-import { CodeContextConfig, DirectoryAnalysis, FileAnalysis, Dependency } from '../types';
-import { getFileInfo, getDirectoryPurpose } from '../utils/fileUtils';
-import { generateDocumentation } from './documentationGenerator';
-import { parseSourceFile, ParsedFile } from './codeParser';
-import { getRecentCommits } from './git';
-import { AIAnalyzer } from './aiAnalyzer';
+import { CodeContextConfig, DirectoryAnalysis, FileAnalysis, Dependency, DependencyGraph, Change, Finding, FileTestStatus } from '../types';
+import {
+  getFileInfo,
+  getDirectoryPurpose,
+  findProjectRoot,
+  toProjectPath,
+  fromProjectPath,
+  listDirectoryEntries,
+  computeSourceHash
+} from '../utils/fileUtils';
+import { getIgnoreRules, IgnoreRules } from '../utils/ignoreRules';
+import { ParsedFile } from './codeParser';
+import { formatParams } from './parsers/common';
+import { getDirectoryChanges } from './changeHistory';
+import { getAIAnalyzer, AIAnalyzer, DirectoryInsights, PROMPT_VERSIONS } from './aiAnalyzer';
+import { BudgetExceededError, DEFAULT_CONCURRENCY, runWithConcurrency } from './aiScheduler';
+import { createCacheKey, getAnalysisCache } from './analysisCache';
+import {
+  buildDependencyGraph,
+  createEmptyGraph,
+  getDirectoryRelations,
+  loadDependencyGraph,
+  saveDependencyGraph,
+  updateGraphForDirectory
+} from './dependencyGraph';
+import { getModuleResolver } from './moduleResolver';
+import { buildSearchDocuments, Embedder, getSearchIndex } from './searchIndex';
+import { getAnalysisStore } from './analysisStore';
+import { getDirectoryConfig } from './configLoader';
+import { getAnalysisFocus } from './analysisFocus';
+import { extractApiSymbols } from './apiSurface';
+import { getApiSnapshotStore } from './apiSnapshot';
+import { runCodeChecks } from './codeChecks';
+import { isTestFile, mapTestFiles } from './testMapping';
+import { CoverageReport, loadCoverageReport } from './coverageReport';
+import {
+  getGeneratedFilenames,
+  removeDirectoryOutputs,
+  retainOutputDirectories,
+  writeDirectoryOutputs,
+  writeProjectOutputs
+} from './outputRenderer';
+import { recordDocumentedCommit } from './refreshState';
+
+export interface AnalyzeDirectoryOptions {
+  projectRoot?: string;
+  // Pre-built project graph; when omitted the persisted graph is loaded and updated
+  graph?: DependencyGraph;
+  // False when the caller rebuilds llms.txt and the docs index itself after a batch of directories
+  writeProjectOutputs?: boolean;
+}
 
 export async function analyzeProject(projectPath: string, config: CodeContextConfig): Promise<void> {
-  const ig = ignore().add(config.ignorePatterns);
-  const directories = await getDirectories(projectPath, ig);
+  const directories = await getDirectories(projectPath, getIgnoreRules(projectPath, config.ignorePatterns));
   
-  for (const dir of directories) {
-    await analyzeDirectory(dir, config);
-  }
+  const graph = await buildDependencyGraph(projectPath, directories, config);
+  await saveDependencyGraph(projectPath, graph);
+  
+  await runWithConcurrency(directories, getConcurrency(config), dir =>
+    analyzeDirectory(dir, config, { projectRoot: projectPath, graph, writeProjectOutputs: false })
+  );
+  const analyzed = directories.map(dir => toProjectPath(projectPath, dir));
+  await getSearchIndex(projectPath).retainDirectories(analyzed);
+  await retainOutputDirectories(projectPath, analyzed, config);
+  await getAnalysisStore(projectPath).retain(analyzed);
+  await getApiSnapshotStore(projectPath).retain(analyzed);
+  await recordDocumentedCommit(projectPath);
 }
 
-export async function analyzeDirectory(dirPath: string, config: CodeContextConfig): Promise<DirectoryAnalysis> {
-  const files = await fs.readdir(dirPath);
-  const ig = ignore().add(config.ignorePatterns);
+/**
+ * Forgets the given directories whose source files are all gone, e.g. after
+ * a commit deleted or moved them: their generated outputs are deleted and the
+ * dependency graph, search index, output manifest and analysis store drop
+ * them. Returns the project-relative directories that were removed.
+ */
+export async function pruneDeletedDirectories(projectRoot: string, dirPaths: string[], config: CodeContextConfig): Promise<string[]> {
+  const generatedNames = getGeneratedFilenames(config);
+  const removed: string[] = [];
   
-  const filteredFiles = files
-    .filter(file => !ig.ignores(file))
-    .filter(file => !file.startsWith('.'));
+  for (const dirPath of dirPaths) {
+    // Only the docs themselves may be left behind
+    const entries = await fs.pathExists(dirPath) ? await fs.readdir(dirPath) : [];
+    if (entries.some(entry => !generatedNames.includes(entry))) continue;
+    
+    await removeDirectoryOutputs(projectRoot, dirPath, config);
+    removed.push(toProjectPath(projectRoot, dirPath));
+  }
+  if (removed.length === 0) {
+    return removed;
+  }
+  
+  const graph = await loadDependencyGraph(projectRoot);
+  if (graph) {
+    for (const dir of removed) {
+      await updateGraphForDirectory(graph, projectRoot, fromProjectPath(projectRoot, dir), new Map(), config);
+    }
+    await saveDependencyGraph(projectRoot, graph);
+  }
+  
+  const gone = new Set(removed);
+  const analyzed = (await getDirectories(projectRoot, getIgnoreRules(projectRoot, config.ignorePatterns)))
+    .map(dir => toProjectPath(projectRoot, dir))
+    .filter(dir => !gone.has(dir));
+  await getSearchIndex(projectRoot).retainDirectories(analyzed);
+  await retainOutputDirectories(projectRoot, analyzed, config);
+  await getAnalysisStore(projectRoot).retain(analyzed);
+  await getApiSnapshotStore(projectRoot).retain(analyzed);
+  
+  return removed;
+}
+
+export async function analyzeDirectory(
+  dirPath: string,
+  projectConfig: CodeContextConfig,
+  options: AnalyzeDirectoryOptions = {}
+): Promise<DirectoryAnalysis> {
+  const projectRoot = options.projectRoot || await findProjectRoot(dirPath);
+  // Per-directory overrides, e.g. deep mode for src/core
+  const config = getDirectoryConfig(projectConfig, projectRoot, dirPath);
+  const resolver = await getModuleResolver(projectRoot, config.ignorePatterns);
+  const cache = getAnalysisCache(projectRoot);
+  const rules = getIgnoreRules(projectRoot, config.ignorePatterns);
+  const generatedNames = getGeneratedFilenames(config);
+  // Our own output is not source
+  const filteredFiles = (await listDirectoryEntries(dirPath, rules)).filter(entry => !generatedNames.includes(entry));
+  // Hashed before analysis so edits made while it runs show up as stale
+  const sourceHash = await computeSourceHash(dirPath, rules, generatedNames);
+  // Which passes run and which sections the docs get
+  const focus = getAnalysisFocus(config);
+  const checkAreas = (['security', 'performance'] as const).filter(area => focus.has(area));
   
   const fileAnalyses: FileAnalysis[] = [];
   const allDependencies: Dependency[] = [];
   const parsedFiles = new Map<string, ParsedFile>();
+  const contentHashes = new Map<string, string>();
+  const analysisNotes: string[] = [];
+  const findings: Finding[] = [];
+  let skippedForBudget = false;
+  const describeJobs: { file: string; filePath: string; fileInfo: FileAnalysis; content: string; contentHash: string; parsed: ParsedFile }[] = [];
   
   // Initialize AI analyzer if needed
-  const aiAnalyzer = config.mode !== 'quick' ? new AIAnalyzer() : null;
+  const aiAnalyzer = config.mode !== 'quick' ? getAIAnalyzer(config, projectRoot) : null;
   
   // Analyze each file
   for (const file of filteredFiles) {
@@ -40,37 +151,37 @@ export async function analyzeDirectory(dirPath: string, config: CodeContextConfi
     if (stat.isFile()) {
       const fileInfo = await getFileInfo(filePath);
       
-      // Parse source files for deeper analysis
-      const parsed = await parseSourceFile(filePath);
-      if (parsed) {
+      // Parse source files for deeper analysis, skipping files unchanged since the last run
+      const cached = await cache.parseFile(filePath);
+      const parsed = cached?.parsed;
+      if (cached && parsed) {
         parsedFiles.set(filePath, parsed);
+        contentHashes.set(filePath, cached.contentHash);
+        
+        fileInfo.description = parsed.mainPurpose || fileInfo.description;
+        findings.push(...runCodeChecks(projectRoot, filePath, cached.content, checkAreas));
         
         // Use AI for description in smart/deep mode
-        if (aiAnalyzer && aiAnalyzer.isAvailable() && config.mode !== 'quick') {
-          try {
-            const content = await fs.readFile(filePath, 'utf-8');
-            fileInfo.description = await aiAnalyzer.analyzeCodeQuality(filePath, content, parsed);
-          } catch {
-            fileInfo.description = parsed.mainPurpose || fileInfo.description;
-          }
-        } else {
-          fileInfo.description = parsed.mainPurpose || fileInfo.description;
+        if (aiAnalyzer && config.mode !== 'quick') {
+          describeJobs.push({ file, filePath, fileInfo, content: cached.content, contentHash: cached.contentHash, parsed });
         }
         
         if (parsed.functions.length > 0) {
           fileInfo.primaryFunctions = parsed.functions
             .filter(f => f.isExported)
-            .map(f => `${f.name}(${f.params.join(', ')})`)
+            .map(f => `${f.name}(${formatParams(f.params)})`)
             .slice(0, 3);
         }
         
         // Extract dependencies
         parsed.imports.forEach(imp => {
+          const target = resolver.resolveImport(imp, filePath).find(r => r.kind === 'file');
           allDependencies.push({
             name: imp.specifiers.join(', ') || imp.source,
             type: 'import',
             from: imp.source,
-            to: filePath
+            to: filePath,
+            resolved: target && target.kind === 'file' ? toProjectPath(projectRoot, target.path) : undefined
           });
         });
         
@@ -88,8 +199,63 @@ export async function analyzeDirectory(dirPath: string, config: CodeContextConfi
     }
   }
   
+  // AI descriptions are the slow part, so they run in parallel once every file is parsed
+  if (aiAnalyzer && describeJobs.length > 0) {
+    const mode = config.mode as 'smart' | 'deep';
+    const notes = await runWithConcurrency(describeJobs, getConcurrency(config), async job => {
+      const key = createCacheKey(
+        job.contentHash,
+        toProjectPath(projectRoot, job.filePath),
+        mode,
+        aiAnalyzer.getModelId('file', mode),
+        PROMPT_VERSIONS.file
+      );
+      let description = await cache.get<string>('descriptions', key);
+      
+      if (!description) {
+        // The budget may run out part way through a directory; cached descriptions still apply
+        if (!aiAnalyzer.isAvailable()) {
+          skippedForBudget = skippedForBudget || aiAnalyzer.isBudgetExhausted();
+          return null;
+        }
+        try {
+          description = await aiAnalyzer.analyzeCodeQuality(job.filePath, job.content, job.parsed, mode);
+          await cache.set('descriptions', key, description);
+        } catch (error) {
+          if (error instanceof BudgetExceededError) {
+            skippedForBudget = true;
+            return null;
+          }
+          return `AI description for \`${job.file}\` failed: ${(error as Error).message}. Using static analysis.`;
+        }
+      }
+      job.fileInfo.description = description;
+      return null;
+    });
+    analysisNotes.push(...notes.filter((note): note is string => note !== null));
+  }
+  
+  let graph = options.graph;
+  if (!graph) {
+    graph = await loadDependencyGraph(projectRoot) || createEmptyGraph();
+    await updateGraphForDirectory(graph, projectRoot, dirPath, parsedFiles, config);
+    await saveDependencyGraph(projectRoot, graph);
+  }
+  const { dependsOn, usedBy } = getDirectoryRelations(graph, toProjectPath(projectRoot, dirPath));
+  // Improvements name untested functions, so they need the mapping too
+  let testStatus: FileTestStatus[] = [];
+  if (focus.has('tests') || focus.has('improvements')) {
+    let coverage: CoverageReport | null = null;
+    try {
+      coverage = await loadCoverageReport(projectRoot, config);
+    } catch (error) {
+      analysisNotes.push(`Coverage report not used: ${(error as Error).message}.`);
+    }
+    testStatus = mapTestFiles(projectRoot, parsedFiles, graph, coverage);
+  }
+  
   // Get recent changes from git
-  const recentChanges = [];
+  const recentChanges: Change[] = [];
   try {
     // Find the git root (go up until we find .git directory)
     let gitRoot = dirPath;
@@ -100,44 +266,66 @@ export async function analyzeDirectory(dirPath: string, config: CodeContextConfi
       gitRoot = path.dirname(gitRoot);
     }
     
-    if (await fs.pathExists(path.join(gitRoot, '.git'))) {
-      const commits = await getRecentCommits(gitRoot, 5);
-      for (const commit of commits) {
-        recentChanges.push({
-          commit: commit.hash.substring(0, 7),
-          date: new Date(commit.date),
-          description: commit.message,
-          impact: 'Code changes',
-          files: []
-        });
-      }
+    if (focus.has('recent-changes') && config.integrations.git && await fs.pathExists(path.join(gitRoot, '.git'))) {
+      recentChanges.push(...await getDirectoryChanges(gitRoot, dirPath, generatedNames, 5));
     }
   } catch (error) {
     // Git might not be available
   }
   
   let purpose = await getDirectoryPurpose(dirPath, fileAnalyses);
-  let architecture = generateArchitectureInsights(fileAnalyses, allDependencies);
-  let improvements = generateImprovements(fileAnalyses, allDependencies);
+  let architecture = focus.has('architecture') ? generateArchitectureInsights(fileAnalyses, allDependencies) : '';
+  let improvements = focus.has('improvements') ? generateImprovements(fileAnalyses, allDependencies, testStatus) : [];
   
   // Use AI for deeper insights if available and not in quick mode
-  if (aiAnalyzer && aiAnalyzer.isAvailable() && config.mode !== 'quick') {
+  if (aiAnalyzer && config.mode !== 'quick') {
     try {
-      const aiInsights = await aiAnalyzer.analyzeDirectory(
-        dirPath,
-        fileAnalyses,
-        parsedFiles,
-        config.mode as 'smart' | 'deep'
+      const mode = config.mode as 'smart' | 'deep';
+      // The prompt is built from each file's description and parsed shape, so key on both
+      const key = createCacheKey(
+        toProjectPath(projectRoot, dirPath),
+        mode,
+        aiAnalyzer.getModelId('directory', mode),
+        PROMPT_VERSIONS.directory,
+        Array.from(focus).sort().join(','),
+        ...fileAnalyses.map(file => `${toProjectPath(projectRoot, file.path)}\0${contentHashes.get(file.path) || ''}\0${file.description}`)
       );
       
-      purpose = aiInsights.purpose || purpose;
-      architecture = aiInsights.architecture || architecture;
-      improvements = aiInsights.improvements.length > 0 ? aiInsights.improvements : improvements;
+      let aiInsights = await cache.get<DirectoryInsights>('directories', key);
+      if (!aiInsights && aiAnalyzer.isAvailable()) {
+        aiInsights = await aiAnalyzer.analyzeDirectory(dirPath, fileAnalyses, parsedFiles, mode, Array.from(focus));
+        await cache.set('directories', key, aiInsights);
+      } else if (!aiInsights && aiAnalyzer.isBudgetExhausted()) {
+        skippedForBudget = true;
+      }
+      
+      if (aiInsights) {
+        purpose = aiInsights.purpose || purpose;
+        if (focus.has('architecture')) {
+          architecture = aiInsights.architecture || architecture;
+        }
+        if (focus.has('improvements') && aiInsights.improvements.length > 0) {
+          improvements = aiInsights.improvements;
+        }
+      }
     } catch (error) {
-      console.error('AI analysis failed, using basic analysis:', error);
+      if (error instanceof BudgetExceededError) {
+        skippedForBudget = true;
+      } else {
+        console.error(`AI analysis failed for ${dirPath}, using basic analysis: ${(error as Error).message}`);
+        analysisNotes.push(`AI directory insights failed: ${(error as Error).message}. Purpose, architecture, and improvements come from static analysis.`);
+      }
     }
   }
   
+  if (skippedForBudget) {
+    analysisNotes.push('The AI budget for this run was used up, so some descriptions and insights come from static analysis.');
+  }
+  
+  // Recorded whatever the focus, so `codecontext api-diff` and reviews can rely on it
+  const apiSymbols = extractApiSymbols(projectRoot, parsedFiles);
+  await getApiSnapshotStore(projectRoot).set(toProjectPath(projectRoot, dirPath), apiSymbols);
+  
   const analysis: DirectoryAnalysis = {
     path: dirPath,
     purpose,
@@ -145,16 +333,42 @@ export async function analyzeDirectory(dirPath: string, config: CodeContextConfi
     keyFiles: fileAnalyses.sort((a, b) => b.importance - a.importance).slice(0, 10),
     recentChanges,
     improvements,
-    dependencies: allDependencies
+    dependencies: focus.has('dependencies') ? allDependencies : [],
+    dependsOn: focus.has('dependencies') ? dependsOn : undefined,
+    usedBy: focus.has('dependencies') ? usedBy : undefined,
+    apiSurface: focus.has('api-surface') ? apiSymbols : undefined,
+    tests: focus.has('tests') ? testStatus : undefined,
+    findings: checkAreas.length > 0 ? findings : undefined,
+    analysisNotes: analysisNotes.length > 0 ? analysisNotes : undefined,
+    sourceHash
   };
   
-  const documentation = await generateDocumentation(analysis, config);
-  const claudeMdPath = path.join(dirPath, 'claude.md');
-  await fs.writeFile(claudeMdPath, documentation);
+  const documentation = await writeDirectoryOutputs(projectRoot, analysis, config);
+  if (options.writeProjectOutputs !== false) {
+    await writeProjectOutputs(projectRoot, config);
+  }
+  await getAnalysisStore(projectRoot).set(analysis);
+  
+  await getSearchIndex(projectRoot).updateDirectory(
+    toProjectPath(projectRoot, dirPath),
+    buildSearchDocuments(projectRoot, dirPath, fileAnalyses, parsedFiles, documentation),
+    getEmbedder(config, aiAnalyzer)
+  );
   
   return analysis;
 }
 
+function getConcurrency(config: CodeContextConfig): number {
+  return config.ai?.limits?.concurrency || DEFAULT_CONCURRENCY;
+}
+
+function getEmbedder(config: CodeContextConfig, aiAnalyzer: AIAnalyzer | null): Embedder | undefined {
+  if (!config.search?.embeddings || !aiAnalyzer?.canEmbed()) {
+    return undefined;
+  }
+  return { model: aiAnalyzer.getEmbeddingModelId(), embed: texts => aiAnalyzer.embed(texts) };
+}
+
 function generateArchitectureInsights(files: FileAnalysis[], dependencies: Dependency[]): string {
   const insights: string[] = [];
   
@@ -183,7 +397,7 @@ function generateArchitectureInsights(files: FileAnalysis[], dependencies: Depen
   }
   
   // Check for patterns
-  const hasTests = files.some(f => f.path.includes('.test.') || f.path.includes('.spec.'));
+  const hasTests = files.some(f => isTestFile(f.path));
   if (hasTests) {
     insights.push('Includes test files');
   }
@@ -196,14 +410,19 @@ function generateArchitectureInsights(files: FileAnalysis[], dependencies: Depen
   return insights.join('. ') || 'Standard module structure';
 }
 
-function generateImprovements(files: FileAnalysis[], _dependencies: Dependency[]): string[] {
+function generateImprovements(files: FileAnalysis[], _dependencies: Dependency[], testStatus: FileTestStatus[]): string[] {
   const improvements: string[] = [];
   
-  // Check for missing tests
-  const hasTests = files.some(f => f.path.includes('.test.') || f.path.includes('.spec.'));
-  const hasCode = files.some(f => ['.ts', '.tsx', '.js', '.jsx'].includes(path.extname(f.path)));
+  // Name the exported functions no test reaches, wherever the tests live
+  for (const status of testStatus.filter(status => status.untestedFunctions).slice(0, 3)) {
+    const names = status.untestedFunctions!.map(name => `\`${name}()\``);
+    const listed = names.length > 4 ? `${names.slice(0, 4).join(', ')} and ${names.length - 4} more` : names.join(', ');
+    improvements.push(`Add tests for ${listed} in \`${path.posix.basename(status.file)}\`${status.tests.length === 0 ? '' : ' (its tests don\'t reach them)'}`);
+  }
   
-  if (hasCode && !hasTests) {
+  // Nothing to name, but nothing here is tested either
+  const hasCode = files.some(f => ['.ts', '.tsx', '.js', '.jsx'].includes(path.extname(f.path)) && !isTestFile(f.path));
+  if (hasCode && improvements.length === 0 && testStatus.every(status => status.tests.length === 0)) {
     improvements.push('Consider adding unit tests');
   }
   
@@ -224,10 +443,10 @@ function generateImprovements(files: FileAnalysis[], _dependencies: Dependency[]
   return improvements;
 }
 
-async function getDirectories(projectPath: string, ig: any): Promise<string[]> {
+export async function getDirectories(projectPath: string, rules: IgnoreRules): Promise<string[]> {
   const directories = new Set<string>();
   
-  async function traverse(dir: string, rootPath: string) {
+  async function traverse(dir: string) {
     directories.add(dir);
     
     try {
@@ -237,15 +456,10 @@ async function getDirectories(projectPath: string, ig: any): Promise<string[]> {
         if (item.startsWith('.')) continue;
         
         const fullPath = path.join(dir, item);
-        
-        // Check if the path relative to project root is ignored
-        const relativePath = path.relative(rootPath, fullPath);
-        if (ig.ignores(relativePath)) continue;
-        
         const stat = await fs.stat(fullPath);
         
-        if (stat.isDirectory()) {
-          await traverse(fullPath, rootPath);
+        if (stat.isDirectory() && !rules.ignores(fullPath, true)) {
+          await traverse(fullPath);
         }
       }
     } catch (error) {
@@ -253,6 +467,6 @@ async function getDirectories(projectPath: string, ig: any): Promise<string[]> {
     }
   }
   
-  await traverse(projectPath, projectPath);
+  await traverse(projectPath);
   return Array.from(directories);
 }
\ No newline at end of file
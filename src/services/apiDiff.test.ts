@@ -0,0 +1,138 @@
+import { describe, expect, it } from '@jest/globals';
+import { ApiParameter, ApiSymbol } from '../types';
+import { diffApi } from './apiDiff';
+
+function param(name: string, type?: string, extra: Partial<ApiParameter> = {}): ApiParameter {
+  return { name, type, optional: false, rest: false, ...extra };
+}
+
+function fn(name: string, params: ApiParameter[], returns?: string, file = 'src/api.ts'): ApiSymbol {
+  const signature = `function ${name}(${params.map(p => `${p.rest ? '...' : ''}${p.name}${p.optional ? '?' : ''}: ${p.type}`).join(', ')}): ${returns}`;
+  return { file, name, kind: 'function', signature, params, returns };
+}
+
+function classify(before: ApiSymbol[], after: ApiSymbol[]) {
+  return diffApi(before, after).map(({ change, breaking, name, reasons }) => ({ change, breaking, name, reasons }));
+}
+
+describe('diffApi', () => {
+  it('reports nothing for an unchanged API', () => {
+    const api = [fn('parse', [param('input', 'string')], 'Ast')];
+    expect(diffApi(api, api)).toEqual([]);
+  });
+  
+  it('treats removals as breaking and additions as not', () => {
+    expect(classify([fn('parse', [])], [fn('format', [])])).toEqual([
+      { change: 'removed', breaking: true, name: 'parse', reasons: ['removed'] },
+      { change: 'added', breaking: false, name: 'format', reasons: ['added'] }
+    ]);
+  });
+  
+  it('keys symbols on file as well as name', () => {
+    const changes = diffApi([fn('parse', [], 'Ast', 'src/a.ts')], [fn('parse', [], 'Ast', 'src/b.ts')]);
+    expect(changes.map(({ change, file }) => [change, file])).toEqual([['removed', 'src/a.ts'], ['added', 'src/b.ts']]);
+  });
+  
+  describe('parameters', () => {
+    const base = fn('parse', [param('input', 'string')], 'Ast');
+    
+    it('allows new optional and rest parameters but not required ones', () => {
+      expect(classify([base], [fn('parse', [param('input', 'string'), param('options', 'Options', { optional: true })], 'Ast')])[0])
+        .toMatchObject({ breaking: false, reasons: ['added optional parameter `options`'] });
+      expect(classify([base], [fn('parse', [param('input', 'string'), param('rest', 'string[]', { rest: true })], 'Ast')])[0])
+        .toMatchObject({ breaking: false, reasons: ['added optional parameter `rest`'] });
+      expect(classify([base], [fn('parse', [param('input', 'string'), param('strict', 'boolean')], 'Ast')])[0])
+        .toMatchObject({ breaking: true, reasons: ['added required parameter `strict`'] });
+    });
+    
+    it('breaks on removed parameters and changed types', () => {
+      expect(classify([base], [fn('parse', [], 'Ast')])[0]).toMatchObject({ breaking: true, reasons: ['removed parameter `input`'] });
+      expect(classify([base], [fn('parse', [param('input', 'Buffer')], 'Ast')])[0])
+        .toMatchObject({ breaking: true, reasons: ['parameter `input` type changed from `string` to `Buffer`'] });
+      expect(classify([base], [fn('parse', [param('input', 'string')], 'Ast | null')])[0])
+        .toMatchObject({ breaking: true, reasons: ['return type changed from `Ast` to `Ast | null`'] });
+    });
+    
+    it('breaks when a parameter becomes required, not when it becomes optional', () => {
+      const optional = fn('parse', [param('input', 'string', { optional: true })], 'Ast');
+      expect(classify([base], [optional])[0]).toMatchObject({ breaking: false, reasons: ['parameter `input` is now optional'] });
+      expect(classify([optional], [base])[0]).toMatchObject({ breaking: true, reasons: ['parameter `input` is now required'] });
+    });
+    
+    it('allows renames, except where callers pass arguments by name', () => {
+      expect(classify([base], [fn('parse', [param('source', 'string')], 'Ast')])[0])
+        .toMatchObject({ breaking: false, reasons: ['parameter `input` renamed to `source`'] });
+      
+      const before = fn('parse', [param('text', 'str')], 'Ast', 'app/parser.py');
+      const after = fn('parse', [param('source', 'str')], 'Ast', 'app/parser.py');
+      expect(classify([before], [after])[0]).toMatchObject({ breaking: true, reasons: ['parameter `text` renamed to `source`'] });
+    });
+    
+    it('blames type parameters when nothing else differs', () => {
+      const generic = { ...base, signature: 'function parse<T>(input: string): Ast' };
+      expect(classify([base], [generic])[0]).toMatchObject({ breaking: true, reasons: ['type parameters changed'] });
+    });
+  });
+  
+  describe('classes and interfaces', () => {
+    const shape: ApiSymbol = {
+      file: 'src/shape.ts',
+      name: 'Shape',
+      kind: 'interface',
+      signature: 'interface Shape',
+      members: [
+        { name: 'id', kind: 'property', signature: 'id: number', optional: false },
+        { name: 'label', kind: 'property', signature: 'label?: string', optional: true }
+      ]
+    };
+    
+    function withMembers(symbol: ApiSymbol, members: ApiSymbol['members']): ApiSymbol {
+      return { ...symbol, members };
+    }
+    
+    it('breaks implementers when an interface gains a required member', () => {
+      const added = withMembers(shape, [...shape.members!, { name: 'area', kind: 'method', signature: 'area(): number', optional: false }]);
+      expect(classify([shape], [added])).toEqual([
+        { change: 'added', breaking: true, name: 'Shape.area', reasons: ['added a required member'] }
+      ]);
+      
+      const optional = withMembers(shape, [...shape.members!, { name: 'color', kind: 'property', signature: 'color?: string', optional: true }]);
+      expect(classify([shape], [optional])[0]).toMatchObject({ breaking: false, reasons: ['added'] });
+    });
+    
+    it('breaks on interface properties that change optionality either way', () => {
+      const required = withMembers(shape, [shape.members![0], { name: 'label', kind: 'property', signature: 'label: string', optional: false }]);
+      expect(classify([shape], [required])[0]).toMatchObject({ name: 'Shape.label', breaking: true, reasons: ['now required'] });
+      expect(classify([required], [shape])[0]).toMatchObject({ breaking: true, reasons: ['now optional, so readers must handle undefined'] });
+    });
+    
+    it('lets classes gain members but not lose them', () => {
+      const parser: ApiSymbol = {
+        file: 'src/parser.ts',
+        name: 'Parser',
+        kind: 'class',
+        signature: 'class Parser',
+        members: [{ name: 'parse', kind: 'method', signature: 'parse(input: string): Ast', optional: false, params: [param('input', 'string')], returns: 'Ast' }]
+      };
+      const extended = withMembers(parser, [...parser.members!, { name: 'reset', kind: 'method', signature: 'reset(): void', optional: false, params: [], returns: 'void' }]);
+      
+      expect(classify([parser], [extended])).toEqual([{ change: 'added', breaking: false, name: 'Parser.reset', reasons: ['added'] }]);
+      expect(classify([extended], [parser])).toEqual([{ change: 'removed', breaking: true, name: 'Parser.reset', reasons: ['removed'] }]);
+    });
+    
+    it('breaks when the declaration or kind changes', () => {
+      expect(classify([shape], [{ ...shape, signature: 'interface Shape extends Named' }])[0])
+        .toMatchObject({ name: 'Shape', breaking: true, reasons: ['declaration changed'] });
+      expect(classify([shape], [{ ...shape, kind: 'type', signature: 'type Shape = {}' }])[0])
+        .toMatchObject({ breaking: true, reasons: ['changed from interface to type'] });
+    });
+  });
+  
+  it('lists breaking changes first', () => {
+    const changes = diffApi(
+      [fn('a', []), fn('z', [])],
+      [fn('a', [param('x', 'string', { optional: true })]), fn('b', [])]
+    );
+    expect(changes.map(({ name, breaking }) => [name, breaking])).toEqual([['z', true], ['a', false], ['b', false]]);
+  });
+});
\ No newline at end of file
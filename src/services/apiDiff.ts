@@ -0,0 +1,201 @@
+import { ApiMember, ApiParameter, ApiSymbol } from '../types';
+
+export interface ApiChange {
+  change: 'added' | 'removed' | 'changed';
+  breaking: boolean;
+  // Project-relative file that declares the symbol
+  file: string;
+  // Symbol name, or `Class.member` for members
+  name: string;
+  before?: string;
+  after?: string;
+  // Why the change is or is not breaking
+  reasons: string[];
+}
+
+interface Difference {
+  breaking: boolean;
+  reason: string;
+}
+
+/**
+ * Compares two API snapshots symbol by symbol (keyed on file and name) and
+ * classifies each difference from the point of view of code that uses the
+ * API: anything that can stop existing callers or implementers from compiling
+ * is breaking.
+ */
+export function diffApi(before: ApiSymbol[], after: ApiSymbol[]): ApiChange[] {
+  const key = (symbol: ApiSymbol) => `${symbol.file}\0${symbol.name}`;
+  const previous = new Map(before.map(symbol => [key(symbol), symbol]));
+  const current = new Map(after.map(symbol => [key(symbol), symbol]));
+  const changes: ApiChange[] = [];
+  
+  for (const [id, old] of previous) {
+    const next = current.get(id);
+    if (!next) {
+      changes.push({ change: 'removed', breaking: true, file: old.file, name: old.name, before: old.signature, reasons: ['removed'] });
+    } else {
+      changes.push(...diffSymbol(old, next));
+    }
+  }
+  for (const [id, symbol] of current) {
+    if (!previous.has(id)) {
+      changes.push({ change: 'added', breaking: false, file: symbol.file, name: symbol.name, after: symbol.signature, reasons: ['added'] });
+    }
+  }
+  
+  return changes.sort((a, b) => Number(b.breaking) - Number(a.breaking) || a.file.localeCompare(b.file) || a.name.localeCompare(b.name));
+}
+
+function diffSymbol(old: ApiSymbol, next: ApiSymbol): ApiChange[] {
+  const changed = (name: string, before: string, after: string, differences: Difference[]): ApiChange => ({
+    change: 'changed',
+    breaking: differences.some(difference => difference.breaking),
+    file: next.file,
+    name,
+    before,
+    after,
+    reasons: differences.map(difference => difference.reason)
+  });
+  
+  if (old.kind !== next.kind) {
+    return [changed(next.name, old.signature, next.signature, [{ breaking: true, reason: `changed from ${old.kind} to ${next.kind}` }])];
+  }
+  
+  if (old.kind === 'function') {
+    const differences = diffCallable(old, next, passesArgumentsByName(next.file));
+    return differences.length > 0 ? [changed(next.name, old.signature, next.signature, differences)] : [];
+  }
+  
+  const changes: ApiChange[] = [];
+  if (old.signature !== next.signature) {
+    // e.g. a different base class or type parameters
+    changes.push(changed(next.name, old.signature, next.signature, [{ breaking: true, reason: 'declaration changed' }]));
+  }
+  if (old.kind === 'class' || old.kind === 'interface') {
+    changes.push(...diffMembers(old, next));
+  }
+  return changes;
+}
+
+function diffMembers(old: ApiSymbol, next: ApiSymbol): ApiChange[] {
+  const isInterface = next.kind === 'interface';
+  const memberKey = (member: ApiMember) => `${member.kind}\0${member.name}`;
+  const previous = new Map((old.members || []).map(member => [memberKey(member), member]));
+  const current = new Map((next.members || []).map(member => [memberKey(member), member]));
+  const changes: ApiChange[] = [];
+  const base = { file: next.file };
+  
+  for (const [id, member] of previous) {
+    const updated = current.get(id);
+    const name = `${next.name}.${member.name}`;
+    if (!updated) {
+      changes.push({ ...base, change: 'removed', breaking: true, name, before: member.signature, reasons: ['removed'] });
+      continue;
+    }
+    
+    const differences = member.kind === 'property'
+      ? diffProperty(member, updated, isInterface)
+      : diffCallable(member, updated, passesArgumentsByName(next.file));
+    if (differences.length > 0) {
+      changes.push({
+        ...base,
+        change: 'changed',
+        breaking: differences.some(difference => difference.breaking),
+        name,
+        before: member.signature,
+        after: updated.signature,
+        reasons: differences.map(difference => difference.reason)
+      });
+    }
+  }
+  
+  for (const [id, member] of current) {
+    if (previous.has(id)) continue;
+    // Objects typed as the interface, and classes implementing it, must now provide it
+    const breaking = isInterface && !member.optional;
+    changes.push({
+      ...base,
+      change: 'added',
+      breaking,
+      name: `${next.name}.${member.name}`,
+      after: member.signature,
+      reasons: [breaking ? 'added a required member' : 'added']
+    });
+  }
+  
+  return changes;
+}
+
+function diffProperty(old: ApiMember, next: ApiMember, isInterface: boolean): Difference[] {
+  if (old.signature === next.signature) {
+    return [];
+  }
+  if (isInterface && old.optional && !next.optional && old.signature.replace('?', '') === next.signature) {
+    return [{ breaking: true, reason: 'now required' }];
+  }
+  if (isInterface && !old.optional && next.optional && old.signature === next.signature.replace('?', '')) {
+    return [{ breaking: true, reason: 'now optional, so readers must handle undefined' }];
+  }
+  return [{ breaking: true, reason: 'type changed' }];
+}
+
+/**
+ * Differences in the parameters and return type of a function or method.
+ * Arguments are matched by position, so renaming a parameter is reported but
+ * not breaking (Python callers passing it by keyword are the exception).
+ */
+function diffCallable(
+  old: { signature: string; params?: ApiParameter[]; returns?: string },
+  next: { signature: string; params?: ApiParameter[]; returns?: string },
+  byName: boolean
+): Difference[] {
+  if (old.signature === next.signature) {
+    return [];
+  }
+  
+  const differences: Difference[] = [];
+  const before = old.params || [];
+  const after = next.params || [];
+  
+  for (let i = 0; i < Math.min(before.length, after.length); i++) {
+    const a = before[i];
+    const b = after[i];
+    if (a.rest !== b.rest) {
+      differences.push({ breaking: true, reason: `parameter \`${b.name}\` ${b.rest ? 'became' : 'is no longer'} a rest parameter` });
+    } else if ((a.type || '') !== (b.type || '')) {
+      differences.push({ breaking: true, reason: `parameter \`${b.name}\` type changed from \`${a.type || 'untyped'}\` to \`${b.type || 'untyped'}\`` });
+    }
+    if (a.optional && !b.optional) {
+      differences.push({ breaking: true, reason: `parameter \`${b.name}\` is now required` });
+    } else if (!a.optional && b.optional) {
+      differences.push({ breaking: false, reason: `parameter \`${b.name}\` is now optional` });
+    }
+    if (a.name !== b.name) {
+      differences.push({ breaking: byName, reason: `parameter \`${a.name}\` renamed to \`${b.name}\`` });
+    }
+  }
+  
+  for (const added of after.slice(before.length)) {
+    const optional = added.optional || added.rest;
+    differences.push({ breaking: !optional, reason: `added ${optional ? 'optional' : 'required'} parameter \`${added.name}\`` });
+  }
+  for (const removed of before.slice(after.length)) {
+    differences.push({ breaking: true, reason: `removed parameter \`${removed.name}\`` });
+  }
+  
+  if ((old.returns || '') !== (next.returns || '')) {
+    differences.push({ breaking: true, reason: `return type changed from \`${old.returns || 'unspecified'}\` to \`${next.returns || 'unspecified'}\`` });
+  }
+  
+  // Whatever is left is in the type parameters
+  if (differences.length === 0) {
+    differences.push({ breaking: true, reason: 'type parameters changed' });
+  }
+  return differences;
+}
+
+// Python callers may pass any parameter by keyword
+function passesArgumentsByName(file: string): boolean {
+  return /\.pyi?$/.test(file);
+}
\ No newline at end of file
@@ -0,0 +1,158 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { ApiSymbol, CodeContextConfig } from '../types';
+import { fromProjectPath, getCodeContextDir, listDirectoryEntries } from '../utils/fileUtils';
+import { getIgnoreRules } from '../utils/ignoreRules';
+import { getAnalysisCache } from './analysisCache';
+import { extractApiSymbols } from './apiSurface';
+import { getParserForFile, ParsedFile, parseSourceFile } from './codeParser';
+import { getFileAtRevision, listFilesAtRevision } from './git';
+import { getGeneratedFilenames } from './outputRenderer';
+
+const SNAPSHOT_VERSION = 1;
+const SNAPSHOT_FILE = 'api.json';
+
+interface ApiSnapshotData {
+  version: number;
+  // Exported symbols per project-relative directory
+  directories: Record<string, ApiSymbol[]>;
+}
+
+const stores = new Map<string, ApiSnapshotStore>();
+
+export function getApiSnapshotStore(projectRoot: string): ApiSnapshotStore {
+  let store = stores.get(projectRoot);
+  if (!store) {
+    store = new ApiSnapshotStore(projectRoot);
+    stores.set(projectRoot, store);
+  }
+  return store;
+}
+
+/**
+ * Forgets the loaded snapshot, so the next getApiSnapshotStore call re-reads
+ * api.json, including changes another process made to it.
+ */
+export function clearApiSnapshotStore(projectRoot: string): void {
+  stores.delete(projectRoot);
+}
+
+/**
+ * The project's public API as of the last analysis, kept in
+ * `.codecontext/api.json`. Directories and symbols are sorted and nothing is
+ * timestamped, so the file only changes when the API does and can be
+ * committed and reviewed.
+ */
+export class ApiSnapshotStore {
+  private data: Promise<ApiSnapshotData> | null = null;
+  // Writes are chained so parallel directory updates never interleave
+  private saving: Promise<void> = Promise.resolve();
+  
+  constructor(private projectRoot: string) {}
+  
+  async set(dir: string, symbols: ApiSymbol[]): Promise<void> {
+    const data = await this.load();
+    if (symbols.length > 0) {
+      data.directories[dir] = symbols;
+    } else {
+      delete data.directories[dir];
+    }
+    await this.save();
+  }
+  
+  /**
+   * Drops directories that are no longer analyzed.
+   */
+  async retain(dirs: string[]): Promise<void> {
+    const data = await this.load();
+    const keep = new Set(dirs);
+    for (const dir of Object.keys(data.directories)) {
+      if (!keep.has(dir)) delete data.directories[dir];
+    }
+    await this.save();
+  }
+  
+  async getAll(): Promise<ApiSymbol[]> {
+    const data = await this.load();
+    return Object.keys(data.directories).sort().flatMap(dir => data.directories[dir]);
+  }
+  
+  private load(): Promise<ApiSnapshotData> {
+    if (!this.data) {
+      this.data = fs.readJson(this.snapshotPath())
+        .then((data: ApiSnapshotData) => data.version === SNAPSHOT_VERSION ? data : null)
+        .catch(() => null)
+        .then(data => data || { version: SNAPSHOT_VERSION, directories: {} });
+    }
+    return this.data;
+  }
+  
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      const data = await this.load();
+      const directories: Record<string, ApiSymbol[]> = {};
+      for (const dir of Object.keys(data.directories).sort()) {
+        directories[dir] = data.directories[dir];
+      }
+      await fs.outputJson(this.snapshotPath(), { version: data.version, directories }, { spaces: 2 });
+    });
+    return this.saving;
+  }
+  
+  private snapshotPath(): string {
+    return path.join(getCodeContextDir(this.projectRoot), SNAPSHOT_FILE);
+  }
+}
+
+/**
+ * The public API of the working tree, optionally limited to `scope` (a
+ * project-relative directory), read fresh rather than from the snapshot.
+ */
+export async function readWorkingTreeApi(projectRoot: string, config: CodeContextConfig, scope?: string): Promise<ApiSymbol[]> {
+  const rules = getIgnoreRules(projectRoot, config.ignorePatterns);
+  const generatedNames = getGeneratedFilenames(config);
+  const cache = getAnalysisCache(projectRoot);
+  const parsedFiles = new Map<string, ParsedFile>();
+  
+  async function walk(dir: string) {
+    for (const entry of await listDirectoryEntries(dir, rules)) {
+      const entryPath = path.join(dir, entry);
+      const stat = await fs.stat(entryPath);
+      if (stat.isDirectory()) {
+        await walk(entryPath);
+      } else if (stat.isFile() && !generatedNames.includes(entry)) {
+        const cached = await cache.parseFile(entryPath);
+        if (cached?.parsed) parsedFiles.set(entryPath, cached.parsed);
+      }
+    }
+  }
+  
+  const root = scope ? fromProjectPath(projectRoot, scope) : projectRoot;
+  if (await fs.pathExists(root)) {
+    await walk(root);
+  }
+  return extractApiSymbols(projectRoot, parsedFiles);
+}
+
+/**
+ * The public API as committed at `ref`, read from git objects without
+ * touching the working tree. Files the current ignore rules skip are left out
+ * on both sides of a comparison.
+ */
+export async function readApiAtRevision(projectRoot: string, ref: string, config: CodeContextConfig, scope?: string): Promise<ApiSymbol[]> {
+  const rules = getIgnoreRules(projectRoot, config.ignorePatterns);
+  const generatedNames = getGeneratedFilenames(config);
+  const prefix = scope && scope !== '.' ? `${scope.replace(/\/+$/, '')}/` : '';
+  const parsedFiles = new Map<string, ParsedFile>();
+  
+  for (const file of await listFilesAtRevision(projectRoot, ref)) {
+    if (!file.startsWith(prefix) || !getParserForFile(file)) continue;
+    if (file.split('/').some(part => part.startsWith('.')) || generatedNames.includes(path.posix.basename(file)) || rules.ignores(file)) continue;
+    
+    const content = await getFileAtRevision(projectRoot, ref, `./${file}`);
+    const filePath = fromProjectPath(projectRoot, file);
+    const parsed = content === null ? null : await parseSourceFile(filePath, content);
+    if (parsed) parsedFiles.set(filePath, parsed);
+  }
+  return extractApiSymbols(projectRoot, parsedFiles);
+}
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { ApiMember, ApiParameter, ApiSymbol } from '../types';
+import { toProjectPath } from '../utils/fileUtils';
+import { ClassInfo, ExportInfo, InterfaceInfo, ParameterInfo, ParsedFile } from './codeParser';
+import { formatSignature } from './parsers/common';
+import { isTestFile } from './testMapping';
+
+const DECLARATION_KEYWORDS: Record<Exclude<ExportInfo['type'], 'reexport'>, string> = {
+  function: 'function',
+  class: 'class',
+  interface: 'interface',
+  type: 'type',
+  enum: 'enum',
+  namespace: 'namespace',
+  variable: 'const'
+};
+
+/**
+ * The exported symbols of `parsedFiles`, sorted by file and name. Re-exports
+ * are left to the file that declares them, so each symbol appears once, and
+ * test files are not part of the API.
+ */
+export function extractApiSymbols(projectRoot: string, parsedFiles: Map<string, ParsedFile>): ApiSymbol[] {
+  const symbols: ApiSymbol[] = [];
+  
+  for (const [filePath, parsed] of parsedFiles) {
+    if (isTestFile(filePath)) continue;
+    const file = toProjectPath(projectRoot, filePath);
+    for (const exp of parsed.exports) {
+      if (exp.type !== 'reexport') {
+        symbols.push(describeExport(file, exp, parsed));
+      }
+    }
+  }
+  
+  return symbols.sort((a, b) => a.file.localeCompare(b.file) || a.name.localeCompare(b.name));
+}
+
+function describeExport(file: string, exp: ExportInfo, parsed: ParsedFile): ApiSymbol {
+  const type = exp.type as keyof typeof DECLARATION_KEYWORDS;
+  const fn = type === 'function' ? parsed.functions.find(f => f.name === exp.name) : undefined;
+  if (fn) {
+    return {
+      file,
+      name: exp.name,
+      kind: 'function',
+      signature: `function ${formatSignature(fn.name, fn.params, fn.returnType, fn.typeParameters)}`,
+      params: fn.params.map(toApiParameter),
+      returns: fn.returnType
+    };
+  }
+  
+  const cls = type === 'class' ? parsed.classes.find(c => c.name === exp.name) : undefined;
+  if (cls) {
+    return { file, name: exp.name, kind: 'class', signature: describeClass(cls), members: getClassMembers(cls) };
+  }
+  
+  const iface = type === 'interface' ? parsed.interfaces.find(i => i.name === exp.name) : undefined;
+  if (iface) {
+    const extendsList = iface.extends?.length ? ` extends ${iface.extends.join(', ')}` : '';
+    const generics = iface.typeParameters?.length ? `<${iface.typeParameters.join(', ')}>` : '';
+    return { file, name: exp.name, kind: 'interface', signature: `interface ${iface.name}${generics}${extendsList}`, members: getInterfaceMembers(iface) };
+  }
+  
+  return {
+    file,
+    name: exp.name,
+    kind: type === 'variable' ? 'variable' : type,
+    signature: `${exp.isDefault ? 'export default ' : ''}${DECLARATION_KEYWORDS[type]} ${exp.name}`
+  };
+}
+
+function describeClass(cls: ClassInfo): string {
+  const generics = cls.typeParameters?.length ? `<${cls.typeParameters.join(', ')}>` : '';
+  const heritage = `${cls.extends ? ` extends ${cls.extends}` : ''}${cls.implements?.length ? ` implements ${cls.implements.join(', ')}` : ''}`;
+  return `${cls.isAbstract ? 'abstract ' : ''}class ${cls.name}${generics}${heritage}`;
+}
+
+// Only what callers outside the class can use
+function getClassMembers(cls: ClassInfo): ApiMember[] {
+  if (!cls.members) {
+    return cls.methods.map(name => ({ name, kind: 'method', signature: `${name}()`, optional: false }));
+  }
+  
+  return cls.members
+    .filter(member => member.visibility === 'public')
+    .map((member): ApiMember => {
+      const prefix = member.isStatic ? 'static ' : '';
+      if (member.kind === 'property' || member.kind === 'getter' || member.kind === 'setter') {
+        const readonly = member.isReadonly || member.kind === 'getter' ? 'readonly ' : '';
+        const type = member.type || member.returnType;
+        return { name: member.name, kind: 'property', signature: `${prefix}${readonly}${member.name}${type ? `: ${type}` : ''}`, optional: false };
+      }
+      const name = member.kind === 'constructor' ? 'constructor' : member.name;
+      return {
+        name,
+        kind: member.kind,
+        signature: `${prefix}${formatSignature(name, member.params || [], member.returnType)}`,
+        optional: false,
+        params: (member.params || []).map(toApiParameter),
+        returns: member.returnType
+      };
+    })
+    // A getter and setter pair is one property
+    .filter((member, index, members) => members.findIndex(other => other.name === member.name && other.kind === member.kind) === index);
+}
+
+function getInterfaceMembers(iface: InterfaceInfo): ApiMember[] {
+  if (!iface.members) {
+    return iface.properties.map(name => ({ name, kind: 'property', signature: name, optional: false }));
+  }
+  
+  return iface.members.map(member => ({
+    name: member.name,
+    kind: member.isMethod ? 'method' : 'property',
+    signature: `${member.readonly ? 'readonly ' : ''}${member.name}${member.optional ? '?' : ''}${member.type ? `: ${member.type}` : ''}`,
+    optional: member.optional
+  }));
+}
+
+function toApiParameter(param: ParameterInfo): ApiParameter {
+  return { name: param.name, type: param.type, optional: param.optional, rest: param.rest };
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import path from 'path';
+import { Change } from '../types';
+import { toProjectPath } from '../utils/fileUtils';
+import { getParserForFile, parseSourceFile, ParsedFile } from './codeParser';
+import { CommitInfo, getFileAtRevision, getRecentCommits } from './git';
+
+// Files per commit whose before/after versions are parsed for symbol changes
+const SYMBOL_DIFF_FILE_LIMIT = 20;
+// Symbol names spelled out in an impact summary before collapsing to a count
+const IMPACT_SYMBOL_LIMIT = 5;
+
+/**
+ * The latest commits that touched files directly inside `dirPath`, newest
+ * first. Each change lists only that directory's files, with its line counts
+ * and the top-level symbols it added or removed there. Generated docs are
+ * excluded so a refresh commit does not show up as a source change.
+ */
+export async function getDirectoryChanges(
+  gitRoot: string,
+  dirPath: string,
+  generatedNames: string[],
+  limit: number = 5
+): Promise<Change[]> {
+  const dir = toProjectPath(gitRoot, dirPath);
+  const prefix = dir === '.' ? '' : `${escapeGlob(dir)}/`;
+  const paths = [
+    // glob magic keeps '*' from crossing into subdirectories
+    `:(glob)${prefix}*`,
+    ...generatedNames.map(name => `:(exclude,glob)${prefix}${escapeGlob(name)}`)
+  ];
+  
+  const commits = await getRecentCommits(gitRoot, limit, { paths });
+  return Promise.all(commits.map(commit => toChange(gitRoot, commit)));
+}
+
+async function toChange(gitRoot: string, commit: CommitInfo): Promise<Change> {
+  const insertions = commit.files.reduce((sum, file) => sum + file.insertions, 0);
+  const deletions = commit.files.reduce((sum, file) => sum + file.deletions, 0);
+  const { added, removed } = await diffSymbols(gitRoot, commit);
+  
+  return {
+    commit: commit.hash.substring(0, 7),
+    date: new Date(commit.date),
+    description: commit.message,
+    impact: formatImpact(commit.files.length, insertions, deletions, added, removed),
+    files: commit.files.map(file => path.posix.basename(file.path)),
+    insertions,
+    deletions,
+    symbolsAdded: added,
+    symbolsRemoved: removed
+  };
+}
+
+/**
+ * Symbols present after the commit but not before it, and the reverse, across
+ * the changed files a parser understands. A file added by the commit (or in a
+ * root commit) has no "before"; a deleted file has no "after".
+ */
+async function diffSymbols(gitRoot: string, commit: CommitInfo): Promise<{ added: string[]; removed: string[] }> {
+  const added = new Set<string>();
+  const removed = new Set<string>();
+  const files = commit.files
+    .filter(file => !file.binary && getParserForFile(file.path))
+    .slice(0, SYMBOL_DIFF_FILE_LIMIT);
+  
+  for (const file of files) {
+    const [before, after] = await Promise.all([
+      readSymbols(gitRoot, `${commit.hash}^`, file.previousPath ?? file.path),
+      readSymbols(gitRoot, commit.hash, file.path)
+    ]);
+    after.forEach(name => { if (!before.has(name)) added.add(name); });
+    before.forEach(name => { if (!after.has(name)) removed.add(name); });
+  }
+  
+  // A symbol moved between files in the same commit is neither
+  for (const name of added) {
+    if (removed.delete(name)) added.delete(name);
+  }
+  
+  return { added: Array.from(added).sort(), removed: Array.from(removed).sort() };
+}
+
+async function readSymbols(gitRoot: string, ref: string, file: string): Promise<Set<string>> {
+  const content = await getFileAtRevision(gitRoot, ref, file);
+  if (content === null) return new Set();
+  
+  const parsed = await parseSourceFile(file, content);
+  return parsed ? collectSymbols(parsed) : new Set();
+}
+
+function collectSymbols(parsed: ParsedFile): Set<string> {
+  return new Set([
+    ...parsed.functions.map(func => func.name),
+    ...parsed.classes.map(cls => cls.name),
+    ...parsed.interfaces.map(iface => iface.name),
+    ...parsed.exports.filter(exp => exp.type !== 'reexport').map(exp => exp.name)
+  ].filter(name => name && name !== 'default'));
+}
+
+function formatImpact(fileCount: number, insertions: number, deletions: number, added: string[], removed: string[]): string {
+  const parts = [`${fileCount} ${fileCount === 1 ? 'file' : 'files'}, +${insertions}/-${deletions} lines`];
+  if (added.length > 0) parts.push(`added ${listSymbols(added)}`);
+  if (removed.length > 0) parts.push(`removed ${listSymbols(removed)}`);
+  return parts.join('; ');
+}
+
+function listSymbols(names: string[]): string {
+  const shown = names.slice(0, IMPACT_SYMBOL_LIMIT).join(', ');
+  const rest = names.length - IMPACT_SYMBOL_LIMIT;
+  return rest > 0 ? `${shown} and ${rest} more` : shown;
+}
+
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import path from 'path';
+import { Finding } from '../types';
+import { toProjectPath } from '../utils/fileUtils';
+
+interface CodeCheck {
+  area: Finding['area'];
+  pattern: RegExp;
+  message: string;
+  // Extensions the check applies to; all when omitted
+  extensions?: string[];
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+// Line-based heuristics: cheap and noisy by design, so each one names what to look at
+const CODE_CHECKS: CodeCheck[] = [
+  { area: 'security', pattern: /\beval\s*\(|\bnew Function\s*\(/, message: 'Evaluates code from a string' },
+  {
+    area: 'security',
+    pattern: /\bexec(Sync)?\s*\(\s*(`[^`]*\$\{|[^,)]*\+)/,
+    message: 'Shell command built from a template or concatenation; prefer execFile with an argument list',
+    extensions: JS_EXTENSIONS
+  },
+  { area: 'security', pattern: /\.innerHTML\s*=|dangerouslySetInnerHTML/, message: 'Inserts HTML without escaping' },
+  {
+    area: 'security',
+    pattern: /\b(query|execute|raw)\s*\(\s*`[^`]*\b(SELECT|INSERT|UPDATE|DELETE)\b[^`]*\$\{/i,
+    message: 'SQL built by string interpolation; use query parameters'
+  },
+  {
+    area: 'security',
+    pattern: /\b(api[_-]?key|secret|password|passwd|token)\w*["']?\s*[:=]\s*["'][^"'\s]{8,}["']/i,
+    message: 'Possible hard-coded credential'
+  },
+  { area: 'security', pattern: /rejectUnauthorized\s*:\s*false|verify\s*=\s*False/, message: 'TLS certificate verification disabled' },
+  { area: 'security', pattern: /shell\s*=\s*True|\bpickle\.loads?\(|\byaml\.load\((?![^)]*Loader)/, message: 'Unsafe call with untrusted input', extensions: ['.py'] },
+  {
+    area: 'performance',
+    pattern: /\b(readFileSync|writeFileSync|readdirSync|statSync|existsSync|execSync)\s*\(/,
+    message: 'Synchronous call blocks the event loop',
+    extensions: JS_EXTENSIONS
+  },
+  { area: 'performance', pattern: /JSON\.parse\(\s*JSON\.stringify\(/, message: 'Deep copy through a JSON round trip; structuredClone is faster', extensions: JS_EXTENSIONS },
+  { area: 'performance', pattern: /\.forEach\(\s*async\b/, message: 'async callback in forEach is neither awaited nor limited', extensions: JS_EXTENSIONS },
+  { area: 'performance', pattern: /\bawait\b.*\bsleep\(|\btime\.sleep\(/, message: 'Sleeps instead of waiting on an event' }
+];
+
+// Comment lines in the languages the parsers support
+const COMMENT_LINE = /^\s*(\/\/|#|\*|\/\*)/;
+
+/**
+ * Lines in `content` that the static checks for `areas` flag.
+ */
+export function runCodeChecks(projectRoot: string, filePath: string, content: string, areas: Finding['area'][]): Finding[] {
+  const ext = path.extname(filePath).toLowerCase();
+  const checks = CODE_CHECKS.filter(check => areas.includes(check.area) && (!check.extensions || check.extensions.includes(ext)));
+  if (checks.length === 0) {
+    return [];
+  }
+  
+  const file = toProjectPath(projectRoot, filePath);
+  const findings: Finding[] = [];
+  content.split('\n').forEach((text, index) => {
+    if (COMMENT_LINE.test(text)) return;
+    for (const check of checks) {
+      if (check.pattern.test(text)) {
+        findings.push({ area: check.area, file, line: index + 1, message: check.message });
+      }
+    }
+  });
+  return findings;
+}
\ No newline at end of file
@@ -1,5 +1,9 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { typescriptParser } from './parsers/typescript';
+import { pythonParser } from './parsers/python';
+import { goParser } from './parsers/go';
+import { rustParser } from './parsers/rust';
 
 export interface ParsedFile {
   imports: ImportInfo[];
@@ -10,241 +14,152 @@ export interface ParsedFile {
   mainPurpose: string;
 }
 
+// Positions are 1-based so they can be pasted straight into editors and stack traces
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
 export interface ImportInfo {
   source: string;
   specifiers: string[];
-  type: 'named' | 'default' | 'namespace';
+  type: 'named' | 'default' | 'namespace' | 'side-effect' | 'require' | 'dynamic';
+  isTypeOnly?: boolean;
+  span?: SourceSpan;
 }
 
 export interface ExportInfo {
   name: string;
-  type: 'function' | 'class' | 'interface' | 'variable' | 'type';
+  type: 'function' | 'class' | 'interface' | 'variable' | 'type' | 'enum' | 'namespace' | 'reexport';
   isDefault: boolean;
+  source?: string;
+  span?: SourceSpan;
+}
+
+export interface ParameterInfo {
+  name: string;
+  type?: string;
+  optional: boolean;
+  rest: boolean;
+  defaultValue?: string;
 }
 
 export interface FunctionInfo {
   name: string;
-  params: string[];
+  params: ParameterInfo[];
+  returnType?: string;
+  typeParameters?: string[];
   isAsync: boolean;
   isExported: boolean;
   description?: string;
+  span?: SourceSpan;
+}
+
+export type Visibility = 'public' | 'protected' | 'private';
+
+export interface ClassMemberInfo {
+  name: string;
+  kind: 'constructor' | 'method' | 'property' | 'getter' | 'setter';
+  visibility: Visibility;
+  isStatic: boolean;
+  isAsync: boolean;
+  isAbstract: boolean;
+  isReadonly: boolean;
+  params?: ParameterInfo[];
+  returnType?: string;
+  type?: string;
+  decorators: string[];
+  span?: SourceSpan;
 }
 
 export interface ClassInfo {
   name: string;
   methods: string[];
+  members?: ClassMemberInfo[];
+  extends?: string;
+  implements?: string[];
+  typeParameters?: string[];
+  decorators?: string[];
+  isAbstract?: boolean;
   isExported: boolean;
+  span?: SourceSpan;
+}
+
+export interface InterfaceMemberInfo {
+  name: string;
+  type?: string;
+  optional: boolean;
+  readonly: boolean;
+  isMethod: boolean;
 }
 
 export interface InterfaceInfo {
   name: string;
   properties: string[];
+  members?: InterfaceMemberInfo[];
+  extends?: string[];
+  typeParameters?: string[];
   isExported: boolean;
+  span?: SourceSpan;
 }
 
-export async function parseSourceFile(filePath: string): Promise<ParsedFile | null> {
-  const ext = path.extname(filePath);
-  
-  // Only parse TypeScript and JavaScript files
-  if (!['.ts', '.tsx', '.js', '.jsx'].includes(ext)) {
-    return null;
-  }
-  
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    
-    const result: ParsedFile = {
-      imports: [],
-      exports: [],
-      functions: [],
-      classes: [],
-      interfaces: [],
-      mainPurpose: ''
-    };
-    
-    // Simple regex-based parsing (not perfect but good enough for basic analysis)
-    parseImports(content, result);
-    parseExports(content, result);
-    parseFunctions(content, result);
-    parseClasses(content, result);
-    parseInterfaces(content, result);
-    
-    // Determine main purpose based on content
-    result.mainPurpose = determinePurpose(result, path.basename(filePath));
-    
-    return result;
-  } catch (error) {
-    console.error(`Error parsing ${filePath}:`, error);
-    return null;
-  }
+/**
+ * A language frontend that turns source text into the shared ParsedFile shape.
+ * `mainPurpose` may be left empty; parseSourceFile fills it in afterwards.
+ */
+export interface LanguageParser {
+  name: string;
+  extensions: string[];
+  parse(content: string, filePath: string): ParsedFile;
 }
 
-function parseImports(content: string, result: ParsedFile): void {
-  // Match import statements
-  const importRegex = /import\s+(?:type\s+)?(?:(\*\s+as\s+\w+)|(\w+)|({[^}]+}))\s+from\s+['"]([^'"]+)['"]/g;
-  const defaultImportRegex = /import\s+(\w+)\s+from\s+['"]([^'"]+)['"]/g;
-  
-  let match;
-  while ((match = importRegex.exec(content)) !== null) {
-    const [, namespace, defaultImport, namedImports, source] = match;
-    
-    if (namespace) {
-      result.imports.push({
-        source,
-        specifiers: [namespace.replace('* as ', '')],
-        type: 'namespace'
-      });
-    } else if (defaultImport) {
-      result.imports.push({
-        source,
-        specifiers: [defaultImport],
-        type: 'default'
-      });
-    } else if (namedImports) {
-      const names = namedImports
-        .replace(/[{}]/g, '')
-        .split(',')
-        .map(s => s.trim())
-        .filter(Boolean);
-      
-      result.imports.push({
-        source,
-        specifiers: names,
-        type: 'named'
-      });
-    }
+const parsers = new Map<string, LanguageParser>();
+
+export function registerParser(parser: LanguageParser): void {
+  for (const ext of parser.extensions) {
+    parsers.set(ext.toLowerCase(), parser);
   }
-  
-  // Also check for default imports
-  content.replace(defaultImportRegex, (_, name, source) => {
-    if (!result.imports.some(imp => imp.source === source && imp.type === 'default')) {
-      result.imports.push({
-        source,
-        specifiers: [name],
-        type: 'default'
-      });
-    }
-    return '';
-  });
 }
 
-function parseExports(content: string, result: ParsedFile): void {
-  // Match export statements
-  const exportRegex = /export\s+(?:default\s+)?(?:const|let|var|function|class|interface|type)\s+(\w+)/g;
-  const exportDefaultRegex = /export\s+default\s+(\w+)/g;
-  
-  let match;
-  while ((match = exportRegex.exec(content)) !== null) {
-    const [fullMatch, name] = match;
-    const isDefault = fullMatch.includes('default');
-    
-    let type: 'function' | 'class' | 'interface' | 'variable' | 'type' = 'variable';
-    if (fullMatch.includes('function')) type = 'function';
-    else if (fullMatch.includes('class')) type = 'class';
-    else if (fullMatch.includes('interface')) type = 'interface';
-    else if (fullMatch.includes('type')) type = 'type';
-    
-    result.exports.push({
-      name,
-      type,
-      isDefault
-    });
-  }
-  
-  // Check for default exports
-  while ((match = exportDefaultRegex.exec(content)) !== null) {
-    const [, name] = match;
-    if (!result.exports.some(exp => exp.name === name && exp.isDefault)) {
-      result.exports.push({
-        name,
-        type: 'variable',
-        isDefault: true
-      });
-    }
-  }
+export function getParserForFile(filePath: string): LanguageParser | undefined {
+  return parsers.get(path.extname(filePath).toLowerCase());
 }
 
-function parseFunctions(content: string, result: ParsedFile): void {
-  // Match function declarations
-  const functionRegex = /(?:export\s+)?(?:async\s+)?function\s+(\w+)\s*\(([^)]*)\)/g;
-  const arrowFunctionRegex = /(?:export\s+)?const\s+(\w+)\s*=\s*(?:async\s+)?\([^)]*\)\s*=>/g;
-  
-  let match;
-  while ((match = functionRegex.exec(content)) !== null) {
-    const [fullMatch, name, params] = match;
-    
-    result.functions.push({
-      name,
-      params: params.split(',').map(p => p.trim().split(/\s+/)[0]).filter(Boolean),
-      isAsync: fullMatch.includes('async'),
-      isExported: fullMatch.includes('export')
-    });
-  }
-  
-  // Also check arrow functions
-  while ((match = arrowFunctionRegex.exec(content)) !== null) {
-    const [fullMatch, name] = match;
-    
-    result.functions.push({
-      name,
-      params: [], // Simplified - not parsing arrow function params
-      isAsync: fullMatch.includes('async'),
-      isExported: fullMatch.includes('export')
-    });
-  }
+export function getSupportedExtensions(): string[] {
+  return Array.from(parsers.keys());
 }
 
-function parseClasses(content: string, result: ParsedFile): void {
-  // Match class declarations
-  const classRegex = /(?:export\s+)?class\s+(\w+)(?:\s+extends\s+\w+)?\s*{([^}]+)}/g;
+registerParser(typescriptParser);
+registerParser(pythonParser);
+registerParser(goParser);
+registerParser(rustParser);
+
+export async function parseSourceFile(filePath: string, content?: string): Promise<ParsedFile | null> {
+  const parser = getParserForFile(filePath);
   
-  let match;
-  while ((match = classRegex.exec(content)) !== null) {
-    const [fullMatch, name, body] = match;
-    
-    // Extract method names from class body
-    const methodRegex = /(?:async\s+)?(\w+)\s*\([^)]*\)\s*{/g;
-    const methods: string[] = [];
-    let methodMatch;
-    
-    while ((methodMatch = methodRegex.exec(body)) !== null) {
-      const [, methodName] = methodMatch;
-      if (methodName !== 'constructor') {
-        methods.push(methodName);
-      }
-    }
-    
-    result.classes.push({
-      name,
-      methods,
-      isExported: fullMatch.includes('export')
-    });
+  // Only parse languages with a registered frontend
+  if (!parser) {
+    return null;
   }
-}
-
-function parseInterfaces(content: string, result: ParsedFile): void {
-  // Match interface declarations (TypeScript only)
-  const interfaceRegex = /(?:export\s+)?interface\s+(\w+)\s*(?:extends\s+[^{]+)?\s*{([^}]+)}/g;
   
-  let match;
-  while ((match = interfaceRegex.exec(content)) !== null) {
-    const [fullMatch, name, body] = match;
-    
-    // Extract property names from interface body
-    const propRegex = /(\w+)\s*[?:]?\s*:/g;
-    const properties: string[] = [];
-    let propMatch;
+  try {
+    const source = content ?? await fs.readFile(filePath, 'utf-8');
+    const result = parser.parse(source, filePath);
     
-    while ((propMatch = propRegex.exec(body)) !== null) {
-      const [, propName] = propMatch;
-      properties.push(propName);
+    // Determine main purpose based on content
+    if (!result.mainPurpose) {
+      result.mainPurpose = determinePurpose(result, path.basename(filePath));
     }
     
-    result.interfaces.push({
-      name,
-      properties,
-      isExported: fullMatch.includes('export')
-    });
+    return result;
+  } catch (error) {
+    console.error(`Error parsing ${filePath}:`, error);
+    return null;
   }
 }
 
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CodeContextConfig } from '../types';
+import { ConfigError, DEFAULT_CONFIG, getDirectoryConfig, getSetting, loadConfig, parseSettingValue, setSetting, validateConfig } from './configLoader';
+
+describe('validateConfig', () => {
+  it('accepts the defaults', () => {
+    expect(validateConfig(DEFAULT_CONFIG)).toEqual([]);
+  });
+  
+  it('suggests the setting a typo was meant to be', () => {
+    expect(validateConfig({ mdoe: 'quick' })).toEqual(['mdoe: unknown setting; did you mean "mode"?']);
+    expect(validateConfig({ integrations: { gti: true } })).toEqual(['integrations.gti: unknown setting; did you mean "git"?']);
+  });
+  
+  it('names the allowed values of an enum', () => {
+    expect(validateConfig({ mode: 'deap' })).toEqual(['mode: must be one of "quick", "smart", "deep" (got "deap"); did you mean "deep"?']);
+  });
+  
+  it('reports wrong types, bounds and missing required settings', () => {
+    expect(validateConfig({
+      ignorePatterns: 'dist/**',
+      ai: { limits: { concurrency: 0 } },
+      docs: {}
+    })).toEqual([
+      'ignorePatterns: expected an array of strings, got string "dist/**"',
+      'ai: missing required setting "provider"',
+      'ai.limits.concurrency: must be at least 1 (got 0)',
+      'docs: missing required setting "location"'
+    ]);
+  });
+  
+  it('checks each item of a mixed outputFormat list', () => {
+    expect(validateConfig({ outputFormat: ['markdown', { format: 'json', filename: 'ctx.json' }] })).toEqual([]);
+    expect(validateConfig({ outputFormat: ['markdwn'] })[0]).toMatch(/^outputFormat\[0\]: must be one of .*did you mean "markdown"\?$/);
+  });
+  
+  it('requires an output that status, context and serve can read', () => {
+    expect(validateConfig({ outputFormat: 'agents' })).toEqual([]);
+    expect(validateConfig({ outputFormat: ['cursor', { format: 'markdown', filename: 'CLAUDE.md' }] })).toEqual([]);
+    for (const outputFormat of ['json', ['cursor', 'llms-txt'], []]) {
+      expect(validateConfig({ outputFormat })).toEqual([expect.stringMatching(/^outputFormat: must include "markdown" or "agents"/)]);
+    }
+  });
+});
+
+describe('loadConfig', () => {
+  let projectRoot: string;
+  let configHome: string;
+  const saved = { XDG_CONFIG_HOME: process.env.XDG_CONFIG_HOME, CODECONTEXT_MODE: process.env.CODECONTEXT_MODE };
+  
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'codecontext-config-'));
+    configHome = await fs.mkdtemp(path.join(os.tmpdir(), 'codecontext-xdg-'));
+    process.env.XDG_CONFIG_HOME = configHome;
+    delete process.env.CODECONTEXT_MODE;
+  });
+  
+  afterEach(async () => {
+    for (const [name, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+    await fs.remove(projectRoot);
+    await fs.remove(configHome);
+  });
+  
+  async function writeGlobal(values: object) {
+    await fs.outputJson(path.join(configHome, 'codecontext', 'config.json'), values);
+  }
+  
+  it('layers defaults < global < project < env < flags', async () => {
+    await writeGlobal({ mode: 'deep', ai: { provider: 'openai', limits: { concurrency: 2 } } });
+    await fs.writeJson(path.join(projectRoot, '.codecontext.json'), { ai: { provider: 'mock' } });
+    
+    const config = await loadConfig(projectRoot);
+    expect(config.mode).toBe('deep');
+    // Objects merge key by key
+    expect(config.ai).toEqual({ provider: 'mock', limits: { concurrency: 2 } });
+    expect(config.ignorePatterns).toEqual(DEFAULT_CONFIG.ignorePatterns);
+    
+    process.env.CODECONTEXT_MODE = 'smart';
+    expect((await loadConfig(projectRoot)).mode).toBe('smart');
+    expect((await loadConfig(projectRoot, { mode: 'quick' })).mode).toBe('quick');
+  });
+  
+  it('replaces arrays rather than merging them', async () => {
+    await writeGlobal({ ignorePatterns: ['a/**'] });
+    await fs.writeJson(path.join(projectRoot, '.codecontext.json'), { ignorePatterns: ['b/**'] });
+    
+    expect((await loadConfig(projectRoot)).ignorePatterns).toEqual(['b/**']);
+  });
+  
+  it('reports the problems of every layer together', async () => {
+    await writeGlobal({ mode: 'fast' });
+    await fs.writeJson(path.join(projectRoot, '.codecontext.json'), { outputFromat: 'json' });
+    
+    const error = await loadConfig(projectRoot).catch(caught => caught);
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).issues).toHaveLength(2);
+    expect((error as ConfigError).issues[0]).toContain(path.join(configHome, 'codecontext', 'config.json'));
+    expect((error as ConfigError).issues[1]).toContain('outputFromat: unknown setting; did you mean "outputFormat"?');
+  });
+  
+  it('validates environment variables and flags too', async () => {
+    process.env.CODECONTEXT_MODE = 'turbo';
+    await expect(loadConfig(projectRoot)).rejects.toThrow('CODECONTEXT_MODE: mode: must be one of');
+  });
+});
+
+describe('getDirectoryConfig', () => {
+  const config: CodeContextConfig = {
+    ...DEFAULT_CONFIG,
+    overrides: [
+      { path: 'src/core/', mode: 'deep' },
+      { path: 'src', mode: 'quick', analysisFocus: ['security'] },
+      { path: './scripts', mode: 'quick' }
+    ]
+  };
+  
+  it('applies every matching override, most specific last', () => {
+    const effective = getDirectoryConfig(config, '/project', '/project/src/core/db');
+    expect(effective.mode).toBe('deep');
+    expect(effective.analysisFocus).toEqual(['security']);
+  });
+  
+  it('matches whole path segments only', () => {
+    expect(getDirectoryConfig(config, '/project', '/project/scripts').mode).toBe('quick');
+    expect(getDirectoryConfig(config, '/project', '/project/scripts-old').mode).toBe('smart');
+    expect(getDirectoryConfig(config, '/project', '/project/source').mode).toBe('smart');
+  });
+});
+
+describe('settings', () => {
+  it('reads and writes dotted keys', () => {
+    const config: Record<string, unknown> = { ai: 'anthropic' };
+    setSetting(config, 'ai.limits.concurrency', 4);
+    expect(config).toEqual({ ai: { limits: { concurrency: 4 } } });
+    expect(getSetting(config, 'ai.limits.concurrency')).toBe(4);
+    expect(getSetting(config, 'ai.budget.tokens')).toBeUndefined();
+  });
+  
+  it('parses JSON values and keeps anything else as a string', () => {
+    expect(parseSettingValue('3')).toBe(3);
+    expect(parseSettingValue('["a"]')).toEqual(['a']);
+    expect(parseSettingValue('deep')).toBe('deep');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,355 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CodeContextConfig, DirectoryOverride } from '../types';
+import { toProjectPath } from '../utils/fileUtils';
+import schemaJson from '../schema/codecontext.schema.json';
+
+export const CONFIG_FILE = '.codecontext.json';
+
+export const DEFAULT_CONFIG: CodeContextConfig = {
+  version: '1.0.0',
+  mode: 'smart',
+  ignorePatterns: [
+    'node_modules/**',
+    'dist/**',
+    'build/**',
+    '*.log',
+    '.git/**',
+    'coverage/**'
+  ],
+  analysisFocus: ['architecture', 'dependencies', 'recent-changes', 'improvements'],
+  outputFormat: 'markdown',
+  integrations: {
+    git: true,
+    claude: true
+  }
+};
+
+// Environment variables and the setting each one overrides
+const ENV_SETTINGS: Record<string, string> = {
+  CODECONTEXT_MODE: 'mode',
+  CODECONTEXT_AI_PROVIDER: 'ai.provider'
+};
+
+/**
+ * Settings given on the command line, the highest-priority layer.
+ */
+export interface ConfigFlags {
+  mode?: string;
+}
+
+export type ConfigSource = 'defaults' | 'global' | 'project' | 'env' | 'flags';
+
+export interface ConfigLayer {
+  source: ConfigSource;
+  // File path or variable names, for error messages
+  label: string;
+  values: Record<string, unknown>;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+interface SchemaNode {
+  $ref?: string;
+  type?: string;
+  enum?: unknown[];
+  anyOf?: SchemaNode[];
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: boolean | SchemaNode;
+  required?: string[];
+  items?: SchemaNode;
+  minimum?: number;
+  minLength?: number;
+}
+
+const schema = schemaJson as SchemaNode & { definitions: Record<string, SchemaNode> };
+
+export function getProjectConfigPath(projectRoot: string): string {
+  return path.join(projectRoot, CONFIG_FILE);
+}
+
+/**
+ * User-wide settings shared by every project, following XDG_CONFIG_HOME.
+ */
+export function getGlobalConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(configHome, 'codecontext', 'config.json');
+}
+
+/**
+ * The effective configuration: defaults < user-global config < project config
+ * < CODECONTEXT_* environment variables < CLI flags. Objects merge key by key;
+ * arrays and plain values replace. Every layer is checked against the schema
+ * and all problems are reported together as a ConfigError.
+ */
+export async function loadConfig(projectRoot: string, flags: ConfigFlags = {}): Promise<CodeContextConfig> {
+  const layers = await loadConfigLayers(projectRoot, flags);
+  return layers.reduce((config, layer) => mergeSettings(config, layer.values), {}) as unknown as CodeContextConfig;
+}
+
+export async function loadConfigLayers(projectRoot: string, flags: ConfigFlags = {}): Promise<ConfigLayer[]> {
+  const layers: ConfigLayer[] = [{ source: 'defaults', label: 'defaults', values: { ...DEFAULT_CONFIG } }];
+  const issues: string[] = [];
+  
+  for (const [source, filePath] of [['global', getGlobalConfigPath()], ['project', getProjectConfigPath(projectRoot)]] as const) {
+    if (!await fs.pathExists(filePath)) continue;
+    try {
+      layers.push({ source, label: filePath, values: await fs.readJson(filePath) });
+    } catch (error) {
+      issues.push(`${filePath}: not valid JSON (${error instanceof Error ? error.message : error})`);
+    }
+  }
+  
+  const env: Record<string, unknown> = {};
+  const envNames = Object.keys(ENV_SETTINGS).filter(name => process.env[name]);
+  for (const name of envNames) {
+    setSetting(env, ENV_SETTINGS[name], process.env[name]);
+  }
+  if (envNames.length > 0) {
+    layers.push({ source: 'env', label: envNames.join(', '), values: env });
+  }
+  
+  const flagValues: Record<string, unknown> = {};
+  if (flags.mode !== undefined) flagValues.mode = flags.mode;
+  if (Object.keys(flagValues).length > 0) {
+    layers.push({ source: 'flags', label: 'command-line flags', values: flagValues });
+  }
+  
+  for (const layer of layers.slice(1)) {
+    issues.push(...validateConfig(layer.values).map(issue => `${layer.label}: ${issue}`));
+  }
+  if (issues.length > 0) {
+    throw new ConfigError('Invalid configuration:', issues);
+  }
+  
+  return layers;
+}
+
+/**
+ * Problems with `value` as a (possibly partial) config, one readable line each,
+ * e.g. `mode: must be one of "quick", "smart", "deep" (got "deap")`.
+ */
+export function validateConfig(value: unknown): string[] {
+  const issues: string[] = [];
+  validateNode(schema, value, '', issues);
+  if (issues.length === 0 && isPlainObject(value) && value.outputFormat !== undefined) {
+    issues.push(...validatePrimaryDoc(value.outputFormat as CodeContextConfig['outputFormat']));
+  }
+  return issues;
+}
+
+/**
+ * The config with the overrides for `dirPath` applied, most specific last.
+ */
+export function getDirectoryConfig(config: CodeContextConfig, projectRoot: string, dirPath: string): CodeContextConfig {
+  const dir = toProjectPath(projectRoot, dirPath);
+  const normalize = (overridePath: string) => overridePath.replace(/^\.\//, '').replace(/\/+$/, '') || '.';
+  const depth = (override: DirectoryOverride) => normalize(override.path).split('/').length;
+  
+  return (config.overrides || [])
+    .filter(override => {
+      const target = normalize(override.path);
+      return target === '.' || dir === target || dir.startsWith(`${target}/`);
+    })
+    .sort((a, b) => depth(a) - depth(b))
+    .reduce<CodeContextConfig>((effective, override) => ({
+      ...effective,
+      ...(override.mode && { mode: override.mode }),
+      ...(override.analysisFocus && { analysisFocus: override.analysisFocus })
+    }), config);
+}
+
+/**
+ * Reads a dotted setting such as `ai.limits.concurrency`.
+ */
+export function getSetting(config: object, key: string): unknown {
+  return key.split('.').reduce<unknown>(
+    (value, part) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined,
+    config
+  );
+}
+
+/**
+ * Writes a dotted setting, creating intermediate objects as needed.
+ */
+export function setSetting(config: Record<string, unknown>, key: string, value: unknown): void {
+  const parts = key.split('.');
+  let target = config;
+  for (const part of parts.slice(0, -1)) {
+    if (target[part] === null || typeof target[part] !== 'object' || Array.isArray(target[part])) {
+      target[part] = {};
+    }
+    target = target[part] as Record<string, unknown>;
+  }
+  target[parts[parts.length - 1]] = value;
+}
+
+/**
+ * A value typed on the command line: JSON when it parses (numbers, booleans,
+ * arrays, objects), otherwise the plain string.
+ */
+export function parseSettingValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+// context, status, search and the MCP server read the first markdown or agents output
+function validatePrimaryDoc(outputFormat: CodeContextConfig['outputFormat']): string[] {
+  const formats = (Array.isArray(outputFormat) ? outputFormat : [outputFormat])
+    .map(entry => typeof entry === 'string' ? entry : entry.format);
+  if (formats.some(format => format === 'markdown' || format === 'agents')) {
+    return [];
+  }
+  return ['outputFormat: must include "markdown" or "agents"; context, status, search and serve read that doc'];
+}
+
+function mergeSettings(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? mergeSettings(merged[key] as Record<string, unknown>, value)
+      : value;
+  }
+  return merged;
+}
+
+function validateNode(node: SchemaNode, value: unknown, at: string, issues: string[]): void {
+  if (node.$ref) {
+    validateNode(schema.definitions[node.$ref.replace('#/definitions/', '')], value, at, issues);
+    return;
+  }
+  const label = at || 'config';
+  
+  if (node.anyOf) {
+    const results = node.anyOf.map(branch => {
+      const branchIssues: string[] = [];
+      validateNode(branch, value, at, branchIssues);
+      return { branch, branchIssues };
+    });
+    if (results.some(result => result.branchIssues.length === 0)) return;
+    // Report against the alternative of the same kind, e.g. the enum for a misspelled string
+    const sameKind = results.find(result => matchesKind(result.branch, value));
+    issues.push(...(sameKind ? sameKind.branchIssues : [`${label}: expected ${node.anyOf.map(describeNode).join(' or ')}, got ${describeValue(value)}`]));
+    return;
+  }
+  
+  if (node.enum) {
+    if (!node.enum.includes(value)) {
+      const suggestion = typeof value === 'string' ? closest(value, node.enum.filter((option): option is string => typeof option === 'string')) : null;
+      issues.push(`${label}: must be one of ${node.enum.map(option => JSON.stringify(option)).join(', ')} (got ${JSON.stringify(value)})${suggestion ? `; did you mean "${suggestion}"?` : ''}`);
+    }
+    return;
+  }
+  
+  if (node.type && !matchesKind(node, value)) {
+    issues.push(`${label}: expected ${describeNode(node)}, got ${describeValue(value)}`);
+    return;
+  }
+  
+  if (typeof value === 'number' && node.minimum !== undefined && value < node.minimum) {
+    issues.push(`${label}: must be at least ${node.minimum} (got ${value})`);
+  }
+  if (typeof value === 'string' && node.minLength !== undefined && value.length < node.minLength) {
+    issues.push(`${label}: must not be empty`);
+  }
+  
+  if (Array.isArray(value) && node.items) {
+    value.forEach((item, index) => validateNode(node.items as SchemaNode, item, `${at}[${index}]`, issues));
+  }
+  
+  if (isPlainObject(value) && node.type === 'object') {
+    const properties = node.properties || {};
+    for (const key of node.required || []) {
+      if (value[key] === undefined) {
+        issues.push(`${label}: missing required setting "${key}"`);
+      }
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childAt = at ? `${at}.${key}` : key;
+      if (properties[key]) {
+        validateNode(properties[key], child, childAt, issues);
+      } else if (node.additionalProperties === false) {
+        const suggestion = closest(key, Object.keys(properties));
+        issues.push(`${childAt}: unknown setting${suggestion ? `; did you mean "${suggestion}"?` : ''}`);
+      } else if (typeof node.additionalProperties === 'object') {
+        validateNode(node.additionalProperties, child, childAt, issues);
+      }
+    }
+  }
+}
+
+function matchesKind(node: SchemaNode, value: unknown): boolean {
+  if (node.$ref) {
+    return matchesKind(schema.definitions[node.$ref.replace('#/definitions/', '')], value);
+  }
+  if (node.enum) {
+    return node.enum.some(option => typeof option === typeof value);
+  }
+  switch (node.type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'string': return typeof value === 'string';
+    case 'boolean': return typeof value === 'boolean';
+    default: return true;
+  }
+}
+
+function describeNode(node: SchemaNode): string {
+  if (node.$ref) return describeNode(schema.definitions[node.$ref.replace('#/definitions/', '')]);
+  if (node.enum) return `one of ${node.enum.map(option => JSON.stringify(option)).join(', ')}`;
+  if (node.type === 'array' && node.items) return `an array of ${describeNode(node.items).replace(/^an? /, '')}s`;
+  return node.type === 'integer' || node.type === 'object' || node.type === 'array' ? `an ${node.type}` : `a ${node.type}`;
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  return `${typeof value} ${JSON.stringify(value)}`;
+}
+
+// Close enough to be a typo: at most a third of the letters differ
+function closest(word: string, candidates: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(word.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(1, Math.floor(best.length / 3)) ? best : null;
+}
+
+// Optimal string alignment distance, so a swapped pair like "mdoe" counts as one edit
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { describe, expect, it } from '@jest/globals';
+import { allocateContext, assembleContext, ContextSection } from './contextBudget';
+import { countTokens } from './tokenizer';
+
+function section(name: string, words: number, summaryWords?: number): ContextSection {
+  return {
+    heading: `## ${name}`,
+    content: Array.from({ length: words }, (_, i) => ['alpha', 'beta', 'gamma'][i % 3]).join(' '),
+    summary: summaryWords !== undefined ? Array.from({ length: summaryWords }, () => 'gist').join(' ') : undefined
+  };
+}
+
+describe('allocateContext', () => {
+  it('includes everything in full when it fits', () => {
+    const sections = [section('a', 20, 2), section('b', 20, 2)];
+    const allocation = allocateContext(sections, 1000);
+    
+    expect(allocation.included.map(entry => entry.form)).toEqual(['full', 'full']);
+    expect(allocation.omitted).toEqual([]);
+  });
+  
+  it('stays within maxTokens', () => {
+    const sections = Array.from({ length: 30 }, (_, i) => section(`s${i}`, 40, 4));
+    for (const maxTokens of [200, 500, 1000]) {
+      expect(allocateContext(sections, maxTokens).tokens).toBeLessThanOrEqual(maxTokens);
+    }
+  });
+  
+  it('counts reserved tokens against the budget', () => {
+    const sections = [section('a', 100, 5)];
+    expect(allocateContext(sections, 200).included[0].form).toBe('full');
+    expect(allocateContext(sections, 200, 120).included[0].form).not.toBe('full');
+  });
+  
+  it('shows the most relevant section in full before the rest', () => {
+    const sections = [section('current', 100, 5), section('parent', 100, 5), section('sibling', 100, 5)];
+    const allocation = allocateContext(sections, 180);
+    
+    expect(allocation.included[0]).toMatchObject({ form: 'full', section: sections[0] });
+    expect(allocation.included.slice(1).every(entry => entry.form === 'summary')).toBe(true);
+  });
+  
+  it('drops the least relevant sections to make room', () => {
+    const sections = [section('current', 150, 5), ...Array.from({ length: 10 }, (_, i) => section(`other${i}`, 50, 20))];
+    const allocation = allocateContext(sections, 250);
+    
+    expect(allocation.included[0].form).toBe('full');
+    expect(allocation.omitted.length).toBeGreaterThan(0);
+    expect(allocation.omitted).toEqual(sections.slice(sections.length - allocation.omitted.length));
+  });
+  
+  it('truncates the most relevant section when not even its summary fits', () => {
+    const sections = [section('current', 500), section('other', 10)];
+    const allocation = allocateContext(sections, 100);
+    
+    expect(allocation.included).toHaveLength(1);
+    expect(allocation.included[0].form).toBe('truncated');
+    expect(countTokens(allocation.included[0].text)).toBeLessThan(countTokens(sections[0].content));
+    expect(allocation.tokens).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('assembleContext', () => {
+  const header = '# Context for src/app\n\nProject structure and the most relevant documentation.\n';
+  
+  it('keeps the whole output, omission note included, within maxTokens', () => {
+    // Long headings make the note naming omitted sections expensive
+    const sections = Array.from({ length: 80 }, (_, i) => section(`packages/service-${i}/src/handlers/internal`, 60, 10));
+    
+    for (const maxTokens of [200, 500, 1000, 2000]) {
+      const context = assembleContext(header, sections, maxTokens);
+      expect(context).toContain('*Omitted to stay within');
+      expect(countTokens(context)).toBeLessThanOrEqual(maxTokens);
+    }
+  });
+  
+  it('names the first omitted sections and counts the rest', () => {
+    const sections = Array.from({ length: 40 }, (_, i) => section(`s${i}`, 60, 10));
+    const note = assembleContext(header, sections, 300).split('*Omitted to stay within 300 tokens: ')[1];
+    
+    const names = note.replace(/\*\n$/, '').split('; ');
+    expect(names).toHaveLength(11);
+    expect(names[10]).toMatch(/^and \d+ more$/);
+  });
+  
+  it('includes everything without a note when it fits', () => {
+    const context = assembleContext(header, [section('a', 10), section('b', 10)], 1000);
+    
+    expect(context).toContain('## a\n');
+    expect(context).toContain('## b\n');
+    expect(context).not.toContain('Omitted');
+  });
+  
+  it('cuts the output when not even the header fits', () => {
+    expect(countTokens(assembleContext(header.repeat(20), [section('a', 10)], 50))).toBeLessThanOrEqual(50);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { countTokens, truncateToTokens } from './tokenizer';
+
+export const DEFAULT_CONTEXT_TOKENS = 8000;
+// Omitted sections named in the closing note; the rest are only counted
+const OMITTED_NAMES_SHOWN = 10;
+
+export interface ContextSection {
+  heading: string;
+  content: string;
+  // Shorter stand-in used when the full content does not fit
+  summary?: string;
+}
+
+export type SectionForm = 'full' | 'summary' | 'truncated';
+
+export interface AllocatedSection {
+  section: ContextSection;
+  form: SectionForm;
+  text: string;
+  tokens: number;
+}
+
+export interface ContextAllocation {
+  included: AllocatedSection[];
+  omitted: ContextSection[];
+  tokens: number;
+}
+
+/**
+ * Fits `sections`, ordered most relevant first, into `maxTokens`:
+ * 1. every section gets its summary, in order, while they fit
+ * 2. sections are upgraded to full content in order, dropping the least
+ *    relevant sections when that is what it takes to make room
+ * 3. if the most relevant section still cannot be shown in full, it is
+ *    truncated to whatever room is left, or to the whole budget when not even
+ *    its summary fits
+ * Heading tokens count against the budget; `reserved` covers any fixed text
+ * the caller adds around the sections.
+ */
+export function allocateContext(sections: ContextSection[], maxTokens: number, reserved = 0): ContextAllocation {
+  const budget = maxTokens - reserved;
+  const costs = sections.map(section => {
+    const heading = countTokens(section.heading) + 2;
+    const full = heading + countTokens(section.content);
+    const summary = section.summary !== undefined ? heading + countTokens(section.summary) : full;
+    return { heading, full, summary: Math.min(summary, full) };
+  });
+  
+  const chosen: (SectionForm | null)[] = sections.map(() => null);
+  // Tokens each chosen section takes, heading included
+  const allotted: number[] = sections.map(() => 0);
+  let used = 0;
+  
+  const choose = (index: number, form: SectionForm | null, tokens: number) => {
+    used += tokens - allotted[index];
+    chosen[index] = form;
+    allotted[index] = tokens;
+  };
+  
+  for (let i = 0; i < sections.length; i++) {
+    if (used + costs[i].summary <= budget) {
+      choose(i, costs[i].summary < costs[i].full ? 'summary' : 'full', costs[i].summary);
+    } else if (i === 0 && budget > costs[0].heading) {
+      // Nothing else is worth including while the most relevant section is cut
+      choose(0, 'truncated', budget);
+    }
+  }
+  
+  for (let i = 0; i < sections.length; i++) {
+    if (chosen[i] !== 'summary') continue;
+    
+    const extra = costs[i].full - allotted[i];
+    const freeable = allotted.slice(i + 1).reduce((sum, tokens) => sum + tokens, 0);
+    if (used + extra - freeable <= budget) {
+      for (let j = sections.length - 1; j > i && used + extra > budget; j--) {
+        choose(j, null, 0);
+      }
+      choose(i, 'full', costs[i].full);
+    } else if (i === 0 && budget - used > 0) {
+      choose(0, 'truncated', allotted[0] + budget - used);
+    }
+  }
+  
+  const included: AllocatedSection[] = [];
+  const omitted: ContextSection[] = [];
+  
+  sections.forEach((section, index) => {
+    const form = chosen[index];
+    if (form === 'full') {
+      included.push({ section, form, text: section.content, tokens: costs[index].full });
+    } else if (form === 'summary') {
+      included.push({ section, form, text: section.summary!, tokens: costs[index].summary });
+    } else if (form === 'truncated') {
+      const text = truncateToTokens(section.content, allotted[index] - costs[index].heading);
+      included.push({ section, form, text, tokens: costs[index].heading + countTokens(text) });
+    } else {
+      omitted.push(section);
+    }
+  });
+  
+  return { included, omitted, tokens: included.reduce((sum, entry) => sum + entry.tokens, reserved) };
+}
+
+/**
+ * Renders `header` and as many of `sections` as fit into `maxTokens`, closing
+ * with a note naming what was left out. The allocator costs each section on
+ * its own; the note and the text joining the sections are only known once
+ * rendered, so the reservation grows by any overshoot until the whole output fits.
+ */
+export function assembleContext(header: string, sections: ContextSection[], maxTokens: number): string {
+  let reserved = countTokens(header);
+  
+  for (;;) {
+    const context = renderContext(header, allocateContext(sections, maxTokens, reserved), maxTokens);
+    const overshoot = countTokens(context) - maxTokens;
+    if (overshoot <= 0) {
+      return context;
+    }
+    if (reserved >= maxTokens) {
+      // Not even the header and the note fit
+      return truncateToTokens(context, maxTokens);
+    }
+    reserved += overshoot;
+  }
+}
+
+function renderContext(header: string, allocation: ContextAllocation, maxTokens: number): string {
+  let context = header;
+  
+  for (const { section, form, text } of allocation.included) {
+    context += `
+${section.heading}${form === 'summary' ? ' (summary)' : ''}
+${text}${form === 'truncated' ? '\n...' : ''}
+`;
+  }
+  
+  if (allocation.omitted.length > 0) {
+    const names = allocation.omitted.map(section => section.heading.replace(/^#+\s*/, ''));
+    const shown = names.length > OMITTED_NAMES_SHOWN
+      ? [...names.slice(0, OMITTED_NAMES_SHOWN), `and ${names.length - OMITTED_NAMES_SHOWN} more`]
+      : names;
+    context += `\n*Omitted to stay within ${maxTokens} tokens: ${shown.join('; ')}*\n`;
+  }
+  
+  return context;
+}
\ No newline at end of file
@@ -1,116 +1,399 @@
 import fs from 'fs-extra';
 import path from 'path';
-import { glob } from 'glob';
 import { CodeContextConfig } from '../types';
+import { findProjectRoot, fromProjectPath, listDirectoryEntries, toProjectPath } from '../utils/fileUtils';
+import { getIgnoreRules, IgnoreRules } from '../utils/ignoreRules';
+import { getAnalysisCache } from './analysisCache';
+import { ParsedFile } from './codeParser';
+import { assembleContext, ContextSection, DEFAULT_CONTEXT_TOKENS } from './contextBudget';
+import { ContextTarget, getRelatedDirectories, resolveContextTarget, TargetFile } from './contextTarget';
+import { getDirectory, getDirectoryRelations, loadDependencyGraph } from './dependencyGraph';
+import { getCommitsForFiles } from './git';
+import { findDocs, getDocPath, getPrimaryDocOutput } from './outputRenderer';
+import { formatSignature } from './parsers/common';
+import { truncateToTokens } from './tokenizer';
+
+const SUMMARY_FALLBACK_TOKENS = 120;
+const TASK_COMMIT_LIMIT = 8;
+
+export interface ContextOptions {
+  // Token budget for the whole context; defaults to DEFAULT_CONTEXT_TOKENS
+  maxTokens?: number;
+  // Defaults to the nearest directory holding .codecontext.json
+  projectRoot?: string;
+}
+
+type Relation = 'current' | 'imported' | 'parent' | 'sibling' | 'other';
+
+interface RankedDirectory {
+  path: string;
+  relation: Relation;
+}
+
+const RELATION_HEADINGS: Record<Exclude<Relation, 'current'>, string> = {
+  imported: 'Imported Directory',
+  parent: 'Parent Directory',
+  sibling: 'Sibling Directory',
+  other: 'Directory'
+};
 
 export async function generateContext(
   targetPath: string,
-  _config: CodeContextConfig,
-  type: 'directory' | 'project' | 'standard'
+  config: CodeContextConfig,
+  type: 'directory' | 'project' | 'standard',
+  options: ContextOptions = {}
 ): Promise<string> {
+  const maxTokens = options.maxTokens || DEFAULT_CONTEXT_TOKENS;
+  const projectRoot = options.projectRoot || await findProjectRoot(targetPath);
   let context = '';
   
   switch (type) {
     case 'directory':
-      context = await generateDirectoryContext(targetPath);
+      context = await generateDirectoryContext(targetPath, projectRoot, config, maxTokens);
       break;
     case 'project':
-      context = await generateProjectContext(targetPath);
+      context = await generateProjectContext(projectRoot, config, maxTokens);
       break;
     case 'standard':
     default:
-      context = await generateStandardContext(targetPath);
+      context = await generateStandardContext(targetPath, projectRoot, config, maxTokens);
   }
   
   return context;
 }
 
-async function generateDirectoryContext(dirPath: string): Promise<string> {
-  const claudeMdPath = path.join(dirPath, 'claude.md');
+/**
+ * Context for one piece of work: `target` is a file path, a symbol name, or a
+ * free-text task description (see resolveContextTarget). Returns null when
+ * nothing in the project matches it.
+ */
+export async function generateTaskContext(
+  target: string,
+  config: CodeContextConfig,
+  options: ContextOptions = {}
+): Promise<string | null> {
+  const maxTokens = options.maxTokens || DEFAULT_CONTEXT_TOKENS;
+  const projectRoot = options.projectRoot || await findProjectRoot(process.cwd());
+  const resolved = await resolveContextTarget(target, projectRoot, config);
+  if (!resolved) {
+    return null;
+  }
+  
+  const header = `# Task Context: ${target}\n`;
+  const sections: ContextSection[] = [describeTarget(resolved)];
   
-  if (await fs.pathExists(claudeMdPath)) {
-    const content = await fs.readFile(claudeMdPath, 'utf-8');
-    return `# Context for ${path.basename(dirPath)}
+  for (const file of resolved.files) {
+    if (file.parsed) {
+      const content = formatSymbols(file.parsed) || 'No functions, classes or interfaces found.';
+      const summary = formatSymbols(file.parsed, file.symbols.length > 0 ? file.symbols : exportedNames(file.parsed));
+      sections.push({ heading: `## Signatures: ${file.path}`, content, summary: summary || undefined });
+    }
+  }
+  
+  // Undocumented directories are skipped; the signatures already cover them
+  const addDocSection = async (dir: string, heading: string) => {
+    const dirPath = fromProjectPath(projectRoot, dir);
+    if (await fs.pathExists(getDocPath(projectRoot, dirPath, config))) {
+      sections.push(await loadDocSection(projectRoot, dirPath, heading, config));
+    }
+  };
+  
+  const { own, imported, importers } = getRelatedDirectories(resolved);
+  for (const dir of own) {
+    await addDocSection(dir, `## Directory: ${dir}`);
+  }
+  
+  const importedSymbols = await formatImportedSymbols(resolved, projectRoot);
+  if (importedSymbols) {
+    sections.push({ heading: '## Imported Symbols', content: importedSymbols });
+  }
+  
+  const importedBy = formatImporters(resolved);
+  if (importedBy) {
+    sections.push({ heading: '## Imported By', content: importedBy });
+  }
+  
+  const commits = await getCommitsForFiles(projectRoot, resolved.files.map(file => file.path), TASK_COMMIT_LIMIT);
+  if (commits.length > 0) {
+    sections.push({
+      heading: '## Recent Commits',
+      content: commits.map(commit => `- ${commit.hash.substring(0, 7)} ${commit.date.substring(0, 10)} ${commit.message} (${commit.author_name})`).join('\n')
+    });
+  }
+  
+  for (const dir of imported) {
+    await addDocSection(dir, `## Imported Directory: ${dir}`);
+  }
+  for (const dir of importers) {
+    await addDocSection(dir, `## Importing Directory: ${dir}`);
+  }
+  
+  return assembleContext(header, sections, maxTokens);
+}
 
-${content}
+async function generateDirectoryContext(dirPath: string, projectRoot: string, config: CodeContextConfig, maxTokens: number): Promise<string> {
+  const header = `# Context for ${path.basename(dirPath)}\n`;
+  
+  const rules = getIgnoreRules(projectRoot, config.ignorePatterns);
+  
+  return assembleContext(header, [
+    await loadDocSection(projectRoot, dirPath, '## Documentation', config),
+    { heading: '## File Structure', content: await getFileStructure(dirPath, 2, rules), summary: await getFileStructure(dirPath, 1, rules) }
+  ], maxTokens);
+}
 
-## File Structure
-${await getFileStructure(dirPath, 2)}
-`;
+async function generateProjectContext(projectPath: string, config: CodeContextConfig, maxTokens: number): Promise<string> {
+  const header = '# Project-Wide Context\n';
+  const ranked = await rankDirectories(projectPath, '.', true, config);
+  const sections: ContextSection[] = [
+    { heading: '## Project Structure', content: await getFileStructure(projectPath, 1, getIgnoreRules(projectPath, config.ignorePatterns)) }
+  ];
+  
+  for (const dir of ranked) {
+    sections.push(await loadDocSection(projectPath, fromProjectPath(projectPath, dir.path), `## ${dir.path === '.' ? 'Project Root' : dir.path}`, config));
   }
   
-  return `# Context for ${path.basename(dirPath)}
-
-No claude.md documentation found. Run 'codecontext refresh' to generate documentation.
+  return assembleContext(header, sections, maxTokens);
+}
 
-## File Structure
-${await getFileStructure(dirPath, 2)}
-`;
+async function generateStandardContext(targetPath: string, projectRoot: string, config: CodeContextConfig, maxTokens: number): Promise<string> {
+  const header = '# Working Context\n';
+  const current = toProjectPath(projectRoot, targetPath);
+  const sections: ContextSection[] = [
+    await loadDocSection(projectRoot, targetPath, `## Current Directory: ${path.basename(targetPath)}`, config)
+  ];
+  
+  for (const dir of await rankDirectories(projectRoot, current, false, config)) {
+    if (dir.relation === 'current') continue;
+    sections.push(await loadDocSection(projectRoot, fromProjectPath(projectRoot, dir.path), `## ${RELATION_HEADINGS[dir.relation]}: ${dir.path === '.' ? 'project root' : dir.path}`, config));
+  }
+  
+  return assembleContext(header, sections, maxTokens);
 }
 
-async function generateProjectContext(projectPath: string): Promise<string> {
-  const claudeFiles = await glob('**/claude.md', {
-    cwd: projectPath,
-    ignore: ['node_modules/**', 'dist/**', 'build/**']
-  });
+/**
+ * Documented directories ordered by relevance to `current`: the directory
+ * itself, the directories it imports from (most imports first), its parents
+ * (nearest first), then its siblings. With `includeOthers`, every remaining
+ * documented directory follows, shallowest first.
+ */
+async function rankDirectories(
+  projectRoot: string,
+  current: string,
+  includeOthers: boolean,
+  config: CodeContextConfig
+): Promise<RankedDirectory[]> {
+  const docs = await findDocs(projectRoot, config, ['dist/**', 'build/**']);
+  const documented = new Set(docs.map(doc => doc.directory));
+  const ranked: RankedDirectory[] = [];
+  const seen = new Set<string>();
+  
+  const add = (dir: string, relation: Relation) => {
+    if (documented.has(dir) && !seen.has(dir)) {
+      seen.add(dir);
+      ranked.push({ path: dir, relation });
+    }
+  };
+  
+  add(current, 'current');
+  
+  const graph = await loadDependencyGraph(projectRoot);
+  if (graph) {
+    for (const relation of getDirectoryRelations(graph, current).dependsOn) {
+      add(relation.path, 'imported');
+    }
+  }
   
-  let context = `# Project-Wide Context
+  for (let dir = current; dir !== '.'; ) {
+    dir = getDirectory(dir);
+    add(dir, 'parent');
+  }
+  
+  if (current !== '.') {
+    const parent = getDirectory(current);
+    Array.from(documented)
+      .filter(dir => dir !== '.' && getDirectory(dir) === parent)
+      .sort()
+      .forEach(dir => add(dir, 'sibling'));
+  }
+  
+  if (includeOthers) {
+    const depth = (dir: string) => dir === '.' ? 0 : dir.split('/').length;
+    Array.from(documented)
+      .sort((a, b) => depth(a) - depth(b) || a.localeCompare(b))
+      .forEach(dir => add(dir, 'other'));
+  }
+  
+  return ranked;
+}
 
-## Project Structure
-${await getFileStructure(projectPath, 1)}
+async function loadDocSection(projectRoot: string, dirPath: string, heading: string, config: CodeContextConfig): Promise<ContextSection> {
+  const docPath = getDocPath(projectRoot, dirPath, config);
+  
+  if (!await fs.pathExists(docPath)) {
+    const docName = path.basename(getPrimaryDocOutput(config).filename);
+    return { heading, content: `No ${docName} documentation found. Run 'codecontext refresh' to generate documentation.` };
+  }
+  
+  const content = stripGeneratedNoise(await fs.readFile(docPath, 'utf-8'));
+  // Nest the doc's own headings under the section heading
+  return { heading, content: content.replace(/^(#{1,5}) /gm, '#$1 '), summary: summarizeDoc(content) };
+}
 
-## Directory Summaries
-`;
+/**
+ * Drops the parts of a generated doc that carry no context: the title
+ * (the section heading names the directory), timestamp, source hash, empty
+ * manual slots, and the maintenance footer.
+ */
+function stripGeneratedNoise(doc: string): string {
+  let content = doc
+    .replace(/^# (?:.*Directory Documentation|AGENTS\.md: .*)\s*\n/, '')
+    .replace(/^\*Generated by CodeContext on .*\*\s*$/m, '')
+    .replace(/<!-- codecontext:source-hash [0-9a-f]+ -->/, '')
+    .replace(/<!--\s*codecontext:manual(?:\s+[\w.-]+)?\s*-->\s*<!--\s*\/codecontext:manual\s*-->/g, '');
   
-  for (const file of claudeFiles.slice(0, 10)) {
-    const content = await fs.readFile(path.join(projectPath, file), 'utf-8');
-    const dirName = path.dirname(file);
-    context += `
-### ${dirName}
-${content.split('\n').slice(0, 10).join('\n')}
-...
+  const footer = content.lastIndexOf('\n---\n');
+  if (footer >= 0 && content.slice(footer).includes('automatically maintained by CodeContext')) {
+    content = content.slice(0, footer);
+  }
+  
+  return content.replace(/\n{3,}/g, '\n\n').trim();
+}
 
-`;
+/**
+ * A few lines standing in for a whole doc: its purpose, key file names, and
+ * the directories it depends on. Hand-written docs without those sections are
+ * cut short instead.
+ */
+function summarizeDoc(content: string): string {
+  const sections = new Map<string, string>();
+  for (const match of content.matchAll(/^## (.+)\n([\s\S]*?)(?=^## |(?![\s\S]))/gm)) {
+    sections.set(match[1].trim(), match[2].trim());
   }
   
-  return context;
+  const purpose = sections.get('Purpose');
+  if (purpose === undefined) {
+    return truncateToTokens(content, SUMMARY_FALLBACK_TOKENS);
+  }
+  
+  const lines = [purpose.split('\n\n')[0]];
+  const keyFiles = Array.from((sections.get('Key Files') || '').matchAll(/^### (.+)$/gm), match => match[1].trim());
+  if (keyFiles.length > 0) {
+    lines.push(`- **Key files**: ${keyFiles.join(', ')}`);
+  }
+  const dependsOn = Array.from((sections.get('Depends On') || '').matchAll(/^- `([^`]+)`/gm), match => match[1]);
+  if (dependsOn.length > 0) {
+    lines.push(`- **Depends on**: ${dependsOn.join(', ')}`);
+  }
+  
+  return lines.join('\n');
 }
 
-async function generateStandardContext(targetPath: string): Promise<string> {
-  const parentDir = path.dirname(targetPath);
-  const currentDir = path.basename(targetPath);
+function describeTarget(target: ContextTarget): ContextSection {
+  const describeFile = (file: TargetFile) => {
+    const symbols = file.symbols.length > 0 ? ` (${file.symbols.map(symbol => `\`${symbol}\``).join(', ')})` : '';
+    return `- \`${file.path}\`${symbols}`;
+  };
+  
+  const intro = {
+    file: 'File',
+    symbol: `Definitions of \`${target.input}\``,
+    query: 'Files best matching the task description'
+  }[target.kind];
   
-  let context = `# Working Context
+  return { heading: '## Target', content: `${intro}:\n${target.files.map(describeFile).join('\n')}` };
+}
 
-## Current Directory: ${currentDir}
-`;
+/**
+ * Signatures of the file's functions, classes and interfaces, limited to
+ * `names` when given. Class members are listed under their class.
+ */
+function formatSymbols(parsed: ParsedFile, names?: string[]): string {
+  const wanted = (name: string) => !names || names.some(candidate => candidate === name || candidate.startsWith(`${name}.`));
+  const lines: string[] = [];
   
-  const currentClaudeMd = path.join(targetPath, 'claude.md');
-  if (await fs.pathExists(currentClaudeMd)) {
-    context += await fs.readFile(currentClaudeMd, 'utf-8');
+  for (const fn of parsed.functions.filter(candidate => wanted(candidate.name))) {
+    const signature = formatSignature(fn.name, fn.params, fn.returnType, fn.typeParameters);
+    lines.push(`- \`${fn.isAsync ? 'async ' : ''}function ${signature}\`${formatLine(fn.span)}${fn.description ? ` - ${firstSentence(fn.description)}` : ''}`);
   }
   
-  context += `
-## Parent Directory Context
-`;
+  for (const cls of parsed.classes.filter(candidate => wanted(candidate.name))) {
+    const heritage = `${cls.extends ? ` extends ${cls.extends}` : ''}${cls.implements?.length ? ` implements ${cls.implements.join(', ')}` : ''}`;
+    lines.push(`- \`class ${cls.name}${heritage}\`${formatLine(cls.span)}`);
+    
+    const memberNames = names?.filter(name => name.startsWith(`${cls.name}.`)).map(name => name.slice(cls.name.length + 1));
+    const members = (cls.members || [])
+      .filter(member => member.visibility !== 'private')
+      .filter(member => !memberNames || memberNames.length === 0 || memberNames.includes(member.name));
+    for (const member of members) {
+      const text = member.params
+        ? formatSignature(member.kind === 'constructor' ? 'constructor' : member.name, member.params, member.returnType)
+        : `${member.name}${member.type ? `: ${member.type}` : ''}`;
+      lines.push(`  - \`${member.isStatic ? 'static ' : ''}${member.isAsync ? 'async ' : ''}${text}\``);
+    }
+  }
   
-  const parentClaudeMd = path.join(parentDir, 'claude.md');
-  if (await fs.pathExists(parentClaudeMd)) {
-    const parentContent = await fs.readFile(parentClaudeMd, 'utf-8');
-    context += parentContent.split('\n').slice(0, 20).join('\n') + '\n...';
+  for (const iface of parsed.interfaces.filter(candidate => wanted(candidate.name))) {
+    lines.push(`- \`interface ${iface.name}${iface.extends?.length ? ` extends ${iface.extends.join(', ')}` : ''}\`${formatLine(iface.span)}`);
+    for (const member of iface.members || []) {
+      lines.push(`  - \`${member.readonly ? 'readonly ' : ''}${member.name}${member.optional ? '?' : ''}${member.type ? `: ${member.type}` : ''}\``);
+    }
   }
   
-  return context;
+  return lines.join('\n');
+}
+
+function formatLine(span?: { start: { line: number } }): string {
+  return span ? ` (line ${span.start.line})` : '';
+}
+
+function firstSentence(text: string): string {
+  const paragraph = text.split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim();
+  const end = paragraph.search(/\.(\s|$)/);
+  return end >= 0 ? paragraph.slice(0, end + 1) : paragraph;
+}
+
+function exportedNames(parsed: ParsedFile): string[] {
+  return parsed.exports.filter(exp => exp.type !== 'reexport').map(exp => exp.name);
+}
+
+/**
+ * For each project file the targets import from, the signatures of the
+ * symbols actually imported.
+ */
+async function formatImportedSymbols(target: ContextTarget, projectRoot: string): Promise<string> {
+  const targetPaths = new Set(target.files.map(file => file.path));
+  const cache = getAnalysisCache(projectRoot);
+  const blocks: string[] = [];
+  
+  for (const edge of target.graph.fileEdges.filter(candidate => targetPaths.has(candidate.from) && !targetPaths.has(candidate.to))) {
+    const parsed = (await cache.parseFile(fromProjectPath(projectRoot, edge.to)))?.parsed;
+    if (!parsed) continue;
+    
+    // Default and namespace imports name the module, not a symbol in it
+    const specifiers = edge.kind === 'named' ? edge.specifiers.map(specifier => specifier.split(' as ')[0]) : exportedNames(parsed);
+    const symbols = formatSymbols(parsed, specifiers);
+    blocks.push(`### ${edge.to}\n${symbols || specifiers.map(specifier => `- \`${specifier}\``).join('\n')}`);
+  }
+  
+  return blocks.join('\n\n');
+}
+
+function formatImporters(target: ContextTarget): string {
+  const targetPaths = new Set(target.files.map(file => file.path));
+  return target.graph.fileEdges
+    .filter(edge => targetPaths.has(edge.to) && !targetPaths.has(edge.from))
+    .map(edge => `- \`${edge.from}\`${edge.specifiers.length > 0 ? ` uses ${edge.specifiers.join(', ')}` : ''}`)
+    .join('\n');
 }
 
-async function getFileStructure(dirPath: string, maxDepth: number): Promise<string> {
+async function getFileStructure(dirPath: string, maxDepth: number, rules: IgnoreRules): Promise<string> {
   const tree: string[] = [];
   
   async function traverse(currentPath: string, depth: number, prefix: string = '') {
     if (depth > maxDepth) return;
     
-    const items = await fs.readdir(currentPath);
-    const filtered = items.filter(item => !item.startsWith('.') && item !== 'node_modules');
+    const filtered = await listDirectoryEntries(currentPath, rules);
     
     for (let i = 0; i < filtered.length; i++) {
       const item = filtered[i];
@@ -0,0 +1,168 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CodeContextConfig, DependencyGraph } from '../types';
+import { fromProjectPath, toProjectPath } from '../utils/fileUtils';
+import { getIgnoreRules } from '../utils/ignoreRules';
+import { getAnalysisCache } from './analysisCache';
+import { getDirectories } from './analyzer';
+import { ParsedFile } from './codeParser';
+import { buildDependencyGraph, getDirectory, loadDependencyGraph, saveDependencyGraph } from './dependencyGraph';
+
+export type ContextTargetKind = 'file' | 'symbol' | 'query';
+
+export interface TargetFile {
+  // Project-relative POSIX path
+  path: string;
+  parsed: ParsedFile | null;
+  // Symbols in this file the target named or matched; empty means the whole file
+  symbols: string[];
+}
+
+export interface ContextTarget {
+  kind: ContextTargetKind;
+  input: string;
+  // Most relevant first
+  files: TargetFile[];
+  graph: DependencyGraph;
+}
+
+const MAX_QUERY_FILES = 3;
+const QUERY_STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'when', 'where', 'how', 'why', 'what', 'fix', 'bug', 'add', 'make', 'does', 'not']);
+
+/**
+ * Works out what `input` refers to, trying in turn: a file path (relative to
+ * `cwd` or the project root), the name of a function, class, interface or
+ * export (`Class.method` also works), and finally a free-text description
+ * matched against file paths, symbol names, and doc comments. Returns null
+ * when nothing in the project matches.
+ */
+export async function resolveContextTarget(
+  input: string,
+  projectRoot: string,
+  config: CodeContextConfig,
+  cwd: string = process.cwd()
+): Promise<ContextTarget | null> {
+  const graph = await loadOrBuildGraph(projectRoot, config);
+  const cache = getAnalysisCache(projectRoot);
+  
+  for (const candidate of [path.resolve(cwd, input), path.resolve(projectRoot, input)]) {
+    if (!path.relative(projectRoot, candidate).startsWith('..') && await fs.pathExists(candidate) && (await fs.stat(candidate)).isFile()) {
+      const parsed = (await cache.parseFile(candidate))?.parsed || null;
+      return { kind: 'file', input, files: [{ path: toProjectPath(projectRoot, candidate), parsed, symbols: [] }], graph };
+    }
+  }
+  
+  const parsedFiles: { path: string; parsed: ParsedFile }[] = [];
+  for (const file of graph.files) {
+    const parsed = (await cache.parseFile(fromProjectPath(projectRoot, file)))?.parsed;
+    if (parsed) {
+      parsedFiles.push({ path: file, parsed });
+    }
+  }
+  
+  const [owner, member] = input.includes('.') && !/\s/.test(input) ? input.split('.', 2) : [input, undefined];
+  const definitions = parsedFiles
+    .map(file => ({ ...file, symbols: findDefinitions(file.parsed, owner, member) }))
+    .filter(file => file.symbols.length > 0)
+    // Files that export the symbol are where it is defined for real
+    .sort((a, b) => Number(isExported(b.parsed, owner)) - Number(isExported(a.parsed, owner)) || a.path.localeCompare(b.path));
+  if (definitions.length > 0) {
+    return { kind: 'symbol', input, files: definitions, graph };
+  }
+  
+  const terms = input.toLowerCase().split(/[^a-z0-9]+/).filter(term => term.length >= 3 && !QUERY_STOP_WORDS.has(term));
+  const matches = parsedFiles
+    .map(file => ({ ...file, ...scoreFile(file.path, file.parsed, terms) }))
+    .filter(file => file.score > 0)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, MAX_QUERY_FILES);
+  if (matches.length > 0) {
+    return { kind: 'query', input, files: matches.map(({ path, parsed, symbols }) => ({ path, parsed, symbols })), graph };
+  }
+  
+  return null;
+}
+
+/**
+ * Directories of the target files, then of the files they import, then of
+ * the files importing them; each directory listed once.
+ */
+export function getRelatedDirectories(target: ContextTarget): { own: string[]; imported: string[]; importers: string[] } {
+  const targetPaths = new Set(target.files.map(file => file.path));
+  const own = unique(target.files.map(file => getDirectory(file.path)));
+  const imported = unique(target.graph.fileEdges.filter(edge => targetPaths.has(edge.from)).map(edge => getDirectory(edge.to)))
+    .filter(dir => !own.includes(dir));
+  const importers = unique(target.graph.fileEdges.filter(edge => targetPaths.has(edge.to)).map(edge => getDirectory(edge.from)))
+    .filter(dir => !own.includes(dir) && !imported.includes(dir));
+  
+  return { own, imported, importers };
+}
+
+async function loadOrBuildGraph(projectRoot: string, config: CodeContextConfig): Promise<DependencyGraph> {
+  let graph = await loadDependencyGraph(projectRoot);
+  if (!graph) {
+    const directories = await getDirectories(projectRoot, getIgnoreRules(projectRoot, config.ignorePatterns));
+    graph = await buildDependencyGraph(projectRoot, directories, config);
+    await saveDependencyGraph(projectRoot, graph);
+  }
+  return graph;
+}
+
+function findDefinitions(parsed: ParsedFile, owner: string, member?: string): string[] {
+  if (member) {
+    const cls = parsed.classes.find(candidate => candidate.name === owner);
+    const hasMember = cls && (cls.members?.some(candidate => candidate.name === member) || cls.methods.includes(member));
+    return hasMember ? [`${owner}.${member}`] : [];
+  }
+  
+  const names = [
+    ...parsed.functions.map(fn => fn.name),
+    ...parsed.classes.map(cls => cls.name),
+    ...parsed.interfaces.map(iface => iface.name),
+    ...parsed.exports.filter(exp => exp.type !== 'reexport').map(exp => exp.name)
+  ];
+  return names.includes(owner) ? [owner] : [];
+}
+
+function isExported(parsed: ParsedFile, name: string): boolean {
+  return parsed.exports.some(exp => exp.name === name && exp.type !== 'reexport');
+}
+
+function scoreFile(filePath: string, parsed: ParsedFile, terms: string[]): { score: number; symbols: string[] } {
+  const symbols = new Set<string>();
+  const pathWords = splitWords(filePath);
+  let score = 0;
+  
+  const named = [
+    ...parsed.functions.map(fn => ({ name: fn.name, text: fn.description || '' })),
+    ...parsed.classes.map(cls => ({ name: cls.name, text: '' })),
+    ...parsed.interfaces.map(iface => ({ name: iface.name, text: '' }))
+  ];
+  
+  // Each term scores once per kind of hit, so a file full of similarly named symbols doesn't drown out the rest
+  for (const term of terms) {
+    if (pathWords.some(word => word.startsWith(term))) score += 3;
+    if (parsed.mainPurpose.toLowerCase().includes(term)) score += 1;
+    
+    const byName = named.filter(symbol => splitWords(symbol.name).some(word => word.startsWith(term)));
+    const byText = named.filter(symbol => !byName.includes(symbol) && symbol.text.toLowerCase().includes(term));
+    if (byName.length > 0) score += 2;
+    if (byText.length > 0) score += 1;
+    [...byName, ...byText].forEach(symbol => symbols.add(symbol.name));
+  }
+  
+  return { score, symbols: Array.from(symbols) };
+}
+
+// "src/aiScheduler.ts" -> ["src", "ai", "scheduler", "ts"]
+function splitWords(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CodeContextConfig } from '../types';
+import { DEFAULT_CONFIG } from './configLoader';
+import { getLineCoverage, loadCoverageReport } from './coverageReport';
+
+describe('loadCoverageReport', () => {
+  let projectRoot: string;
+  
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'codecontext-coverage-'));
+  });
+  
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+  
+  function configFor(coverageReport?: string): CodeContextConfig {
+    return { ...DEFAULT_CONFIG, tests: coverageReport ? { coverageReport } : undefined };
+  }
+  
+  it('returns null when there is no report', async () => {
+    expect(await loadCoverageReport(projectRoot, configFor())).toBeNull();
+  });
+  
+  it('reads an lcov report with absolute and relative paths', async () => {
+    await fs.outputFile(path.join(projectRoot, 'coverage', 'lcov.info'), [
+      `SF:${path.join(projectRoot, 'src', 'math.ts')}`,
+      'FN:1,add',
+      'FN:5,subtract',
+      'FNDA:4,add',
+      'LF:10',
+      'LH:7',
+      'end_of_record',
+      'SF:src/util.ts',
+      'DA:1,1',
+      'DA:2,0',
+      'end_of_record'
+    ].join('\n'));
+    
+    const report = await loadCoverageReport(projectRoot, configFor());
+    expect(report?.source).toBe('coverage/lcov.info');
+    expect(report?.files.get('src/math.ts')).toEqual({ linesFound: 10, linesHit: 7, functions: new Map([['add', 4], ['subtract', 0]]) });
+    // Without LF/LH the per-line data is counted
+    expect(report?.files.get('src/util.ts')).toMatchObject({ linesFound: 2, linesHit: 1 });
+  });
+  
+  it('reads an istanbul report, counting a line once however many statements start on it', async () => {
+    await fs.outputJson(path.join(projectRoot, 'coverage', 'coverage-final.json'), {
+      [path.join(projectRoot, 'src', 'math.ts')]: {
+        statementMap: { 0: { start: { line: 1 } }, 1: { start: { line: 1 } }, 2: { start: { line: 2 } } },
+        s: { 0: 0, 1: 2, 2: 0 },
+        fnMap: { 0: { name: 'add' } },
+        f: { 0: 2 }
+      }
+    });
+    
+    const report = await loadCoverageReport(projectRoot, configFor());
+    expect(report?.files.get('src/math.ts')).toEqual({ linesFound: 2, linesHit: 1, functions: new Map([['add', 2]]) });
+  });
+  
+  it('fails when the configured report is missing', async () => {
+    await expect(loadCoverageReport(projectRoot, configFor('reports/lcov.info'))).rejects.toThrow('Coverage report reports/lcov.info not found');
+  });
+});
+
+describe('getLineCoverage', () => {
+  it('rounds to a percentage, with no value for files without lines', () => {
+    expect(getLineCoverage({ linesFound: 3, linesHit: 2, functions: new Map() })).toBe(67);
+    expect(getLineCoverage({ linesFound: 0, linesHit: 0, functions: new Map() })).toBeUndefined();
+  });
+});
\ No newline at end of file
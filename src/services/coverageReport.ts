@@ -0,0 +1,141 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CodeContextConfig } from '../types';
+import { toProjectPath } from '../utils/fileUtils';
+
+// Looked for in order when `tests.coverageReport` is not set
+const DEFAULT_REPORTS = ['coverage/lcov.info', 'coverage/coverage-final.json'];
+
+export interface FileCoverage {
+  linesFound: number;
+  linesHit: number;
+  // Call count per function name as the coverage tool reports it
+  functions: Map<string, number>;
+}
+
+export interface CoverageReport {
+  // Project-relative path of the report
+  source: string;
+  // Keyed by project-relative source file
+  files: Map<string, FileCoverage>;
+}
+
+const reports = new Map<string, { key: string; report: Promise<CoverageReport | null> }>();
+
+/**
+ * The project's lcov or istanbul (coverage-final.json) report, or null when
+ * there is none. Parsed once per run unless the file changes.
+ */
+export async function loadCoverageReport(projectRoot: string, config: CodeContextConfig): Promise<CoverageReport | null> {
+  const candidates = config.tests?.coverageReport ? [config.tests.coverageReport] : DEFAULT_REPORTS;
+  
+  for (const candidate of candidates) {
+    const reportPath = path.resolve(projectRoot, candidate);
+    const stat = await fs.stat(reportPath).catch(() => null);
+    if (!stat?.isFile()) continue;
+    
+    const key = `${reportPath}\0${stat.mtimeMs}`;
+    const cached = reports.get(projectRoot);
+    if (cached && cached.key === key) {
+      return cached.report;
+    }
+    
+    const report = fs.readFile(reportPath, 'utf-8').then(content => ({
+      source: toProjectPath(projectRoot, reportPath),
+      files: reportPath.endsWith('.json') ? parseIstanbul(projectRoot, content) : parseLcov(projectRoot, content)
+    }));
+    reports.set(projectRoot, { key, report });
+    return report;
+  }
+  
+  if (config.tests?.coverageReport) {
+    throw new Error(`Coverage report ${config.tests.coverageReport} not found`);
+  }
+  return null;
+}
+
+export function getLineCoverage(coverage: FileCoverage): number | undefined {
+  return coverage.linesFound > 0 ? Math.round((coverage.linesHit / coverage.linesFound) * 100) : undefined;
+}
+
+// lcov paths are absolute or relative to where the tests ran, usually the project root
+function parseLcov(projectRoot: string, content: string): Map<string, FileCoverage> {
+  const files = new Map<string, FileCoverage>();
+  let current: FileCoverage | null = null;
+  let lines = new Map<number, number>();
+  
+  for (const line of content.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    const tag = separator === -1 ? line.trim() : line.slice(0, separator);
+    const value = line.slice(separator + 1);
+    
+    if (tag === 'SF') {
+      current = { linesFound: 0, linesHit: 0, functions: new Map() };
+      lines = new Map();
+      files.set(toProjectPath(projectRoot, path.resolve(projectRoot, value.trim())), current);
+    } else if (!current) {
+      continue;
+    } else if (tag === 'FNDA') {
+      const [hits, name] = splitOnce(value);
+      current.functions.set(name, (current.functions.get(name) || 0) + Number(hits));
+    } else if (tag === 'FN') {
+      const [, name] = splitOnce(value);
+      if (!current.functions.has(name)) current.functions.set(name, 0);
+    } else if (tag === 'DA') {
+      const [lineNumber, hits] = value.split(',');
+      lines.set(Number(lineNumber), Number(hits));
+    } else if (tag === 'LF') {
+      current.linesFound = Number(value);
+    } else if (tag === 'LH') {
+      current.linesHit = Number(value);
+    } else if (tag === 'end_of_record') {
+      // LF/LH are optional; fall back to the per-line data
+      if (current.linesFound === 0 && lines.size > 0) {
+        current.linesFound = lines.size;
+        current.linesHit = Array.from(lines.values()).filter(hits => hits > 0).length;
+      }
+      current = null;
+    }
+  }
+  
+  return files;
+}
+
+interface IstanbulFile {
+  path?: string;
+  statementMap: Record<string, { start: { line: number } }>;
+  s: Record<string, number>;
+  fnMap: Record<string, { name: string }>;
+  f: Record<string, number>;
+}
+
+// Istanbul counts statements; a line is covered when any statement starting on it ran
+function parseIstanbul(projectRoot: string, content: string): Map<string, FileCoverage> {
+  const files = new Map<string, FileCoverage>();
+  
+  for (const [key, data] of Object.entries(JSON.parse(content) as Record<string, IstanbulFile>)) {
+    const lines = new Map<number, number>();
+    for (const [id, statement] of Object.entries(data.statementMap || {})) {
+      const line = statement.start.line;
+      lines.set(line, Math.max(lines.get(line) || 0, data.s?.[id] || 0));
+    }
+    
+    const functions = new Map<string, number>();
+    for (const [id, fn] of Object.entries(data.fnMap || {})) {
+      functions.set(fn.name, (functions.get(fn.name) || 0) + (data.f?.[id] || 0));
+    }
+    
+    files.set(toProjectPath(projectRoot, path.resolve(projectRoot, data.path || key)), {
+      linesFound: lines.size,
+      linesHit: Array.from(lines.values()).filter(hits => hits > 0).length,
+      functions
+    });
+  }
+  
+  return files;
+}
+
+function splitOnce(value: string): [string, string] {
+  const comma = value.indexOf(',');
+  return comma === -1 ? [value, ''] : [value.slice(0, comma), value.slice(comma + 1)];
+}
\ No newline at end of file
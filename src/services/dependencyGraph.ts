@@ -0,0 +1,195 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CodeContextConfig, DependencyGraph, DirectoryEdge, DirectoryRelation, FileEdge } from '../types';
+import { getCodeContextDir, listDirectoryEntries, toProjectPath } from '../utils/fileUtils';
+import { getIgnoreRules } from '../utils/ignoreRules';
+import { getParserForFile, ParsedFile } from './codeParser';
+import { getModuleResolver } from './moduleResolver';
+import { getAnalysisCache } from './analysisCache';
+
+const GRAPH_VERSION = 1;
+const GRAPH_FILE = 'graph.json';
+
+export function createEmptyGraph(): DependencyGraph {
+  return {
+    version: GRAPH_VERSION,
+    generatedAt: new Date().toISOString(),
+    files: [],
+    fileEdges: [],
+    directoryEdges: [],
+    externals: {},
+    unresolved: {}
+  };
+}
+
+/**
+ * Parses every supported source file in `directories` and resolves its imports
+ * into file→file and directory→directory edges.
+ */
+export async function buildDependencyGraph(
+  projectRoot: string,
+  directories: string[],
+  config: CodeContextConfig
+): Promise<DependencyGraph> {
+  const graph = createEmptyGraph();
+  const rules = getIgnoreRules(projectRoot, config.ignorePatterns);
+  const cache = getAnalysisCache(projectRoot);
+  
+  for (const dir of directories) {
+    const parsedFiles = new Map<string, ParsedFile>();
+    
+    for (const file of await listDirectoryEntries(dir, rules)) {
+      const filePath = path.join(dir, file);
+      if (!getParserForFile(filePath)) continue;
+      if (!(await fs.stat(filePath)).isFile()) continue;
+      
+      const result = await cache.parseFile(filePath);
+      if (result?.parsed) {
+        parsedFiles.set(filePath, result.parsed);
+      }
+    }
+    
+    await addFilesToGraph(graph, projectRoot, parsedFiles, config);
+  }
+  
+  graph.directoryEdges = computeDirectoryEdges(graph.fileEdges);
+  return graph;
+}
+
+/**
+ * Replaces everything the graph knows about the files of one directory with
+ * freshly parsed data, so a single-directory refresh keeps the graph current.
+ */
+export async function updateGraphForDirectory(
+  graph: DependencyGraph,
+  projectRoot: string,
+  dirPath: string,
+  parsedFiles: Map<string, ParsedFile>,
+  config: CodeContextConfig
+): Promise<void> {
+  const dir = toProjectPath(projectRoot, dirPath);
+  const inDirectory = (file: string) => getDirectory(file) === dir;
+  
+  graph.files = graph.files.filter(file => !inDirectory(file));
+  graph.fileEdges = graph.fileEdges.filter(edge => !inDirectory(edge.from));
+  for (const file of Object.keys(graph.externals).filter(inDirectory)) {
+    delete graph.externals[file];
+  }
+  for (const file of Object.keys(graph.unresolved).filter(inDirectory)) {
+    delete graph.unresolved[file];
+  }
+  
+  await addFilesToGraph(graph, projectRoot, parsedFiles, config);
+  graph.directoryEdges = computeDirectoryEdges(graph.fileEdges);
+  graph.generatedAt = new Date().toISOString();
+}
+
+async function addFilesToGraph(
+  graph: DependencyGraph,
+  projectRoot: string,
+  parsedFiles: Map<string, ParsedFile>,
+  config: CodeContextConfig
+): Promise<void> {
+  const resolver = await getModuleResolver(projectRoot, config.ignorePatterns);
+  
+  for (const [filePath, parsed] of parsedFiles) {
+    const from = toProjectPath(projectRoot, filePath);
+    const externals = new Set<string>();
+    const unresolved = new Set<string>();
+    const edges = new Map<string, FileEdge>();
+    
+    graph.files.push(from);
+    
+    for (const imp of parsed.imports) {
+      for (const target of resolver.resolveImport(imp, filePath)) {
+        if (target.kind === 'file') {
+          const to = toProjectPath(projectRoot, target.path);
+          if (to === from || to.startsWith('..')) continue;
+          
+          // Several import statements for the same module collapse into one edge
+          const existing = edges.get(to);
+          if (existing) {
+            existing.specifiers = Array.from(new Set([...existing.specifiers, ...imp.specifiers]));
+          } else {
+            edges.set(to, { from, to, specifiers: [...imp.specifiers], kind: imp.type });
+          }
+        } else if (target.kind === 'external') {
+          externals.add(target.name);
+        } else if (target.kind === 'unresolved') {
+          unresolved.add(target.specifier);
+        }
+      }
+    }
+    
+    graph.fileEdges.push(...edges.values());
+    if (externals.size > 0) graph.externals[from] = Array.from(externals).sort();
+    if (unresolved.size > 0) graph.unresolved[from] = Array.from(unresolved).sort();
+  }
+}
+
+export function computeDirectoryEdges(fileEdges: FileEdge[]): DirectoryEdge[] {
+  const weights = new Map<string, DirectoryEdge>();
+  
+  for (const edge of fileEdges) {
+    const from = getDirectory(edge.from);
+    const to = getDirectory(edge.to);
+    if (from === to) continue;
+    
+    const key = `${from}\0${to}`;
+    const existing = weights.get(key);
+    if (existing) {
+      existing.weight++;
+    } else {
+      weights.set(key, { from, to, weight: 1 });
+    }
+  }
+  
+  return Array.from(weights.values()).sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+}
+
+/**
+ * Directories this directory imports from, and directories that import it.
+ */
+export function getDirectoryRelations(
+  graph: DependencyGraph,
+  dir: string
+): { dependsOn: DirectoryRelation[]; usedBy: DirectoryRelation[] } {
+  const byWeight = (a: DirectoryRelation, b: DirectoryRelation) => b.imports - a.imports || a.path.localeCompare(b.path);
+  
+  return {
+    dependsOn: graph.directoryEdges
+      .filter(edge => edge.from === dir)
+      .map(edge => ({ path: edge.to, imports: edge.weight }))
+      .sort(byWeight),
+    usedBy: graph.directoryEdges
+      .filter(edge => edge.to === dir)
+      .map(edge => ({ path: edge.from, imports: edge.weight }))
+      .sort(byWeight)
+  };
+}
+
+export function getDirectory(projectFile: string): string {
+  const dir = path.posix.dirname(projectFile);
+  return dir === '' ? '.' : dir;
+}
+
+export async function loadDependencyGraph(projectRoot: string): Promise<DependencyGraph | null> {
+  const graphPath = path.join(getCodeContextDir(projectRoot), GRAPH_FILE);
+  
+  if (!await fs.pathExists(graphPath)) {
+    return null;
+  }
+  
+  try {
+    const graph: DependencyGraph = await fs.readJson(graphPath);
+    return graph.version === GRAPH_VERSION ? graph : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveDependencyGraph(projectRoot: string, graph: DependencyGraph): Promise<void> {
+  const dir = getCodeContextDir(projectRoot);
+  await fs.ensureDir(dir);
+  await fs.writeJson(path.join(dir, GRAPH_FILE), graph, { spaces: 2 });
+}
\ No newline at end of file
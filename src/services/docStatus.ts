@@ -0,0 +1,62 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { CodeContextConfig } from '../types';
+import { computeSourceHash, toProjectPath } from '../utils/fileUtils';
+import { getIgnoreRules } from '../utils/ignoreRules';
+import { getDirectories } from './analyzer';
+import { readSourceHash } from './documentationGenerator';
+import { findDocs, getDocPath, getGeneratedFilenames, getPrimaryDocOutput } from './outputRenderer';
+
+export type DocState = 'fresh' | 'stale' | 'missing' | 'orphaned';
+
+export interface DocStatusEntry {
+  // Project-relative POSIX path of the directory; '.' for the root
+  directory: string;
+  state: DocState;
+  reason?: string;
+}
+
+/**
+ * Compares every directory's primary doc (claude.md unless configured
+ * otherwise) with the current source state without regenerating anything:
+ * - fresh: the doc's recorded source hash matches the directory's files
+ * - stale: the files changed since the doc was generated, or no hash was recorded
+ * - missing: an analyzed directory has no doc
+ * - orphaned: a doc sits in a directory that is no longer analyzed
+ */
+export async function getDocumentationStatus(projectRoot: string, config: CodeContextConfig): Promise<DocStatusEntry[]> {
+  const rules = getIgnoreRules(projectRoot, config.ignorePatterns);
+  const directories = await getDirectories(projectRoot, rules);
+  const analyzed = new Set(directories.map(dir => toProjectPath(projectRoot, dir)));
+  const generatedNames = getGeneratedFilenames(config);
+  const docName = path.basename(getPrimaryDocOutput(config).filename);
+  const entries: DocStatusEntry[] = [];
+  
+  for (const dir of directories) {
+    const directory = toProjectPath(projectRoot, dir);
+    const docPath = getDocPath(projectRoot, dir, config);
+    
+    if (!await fs.pathExists(docPath)) {
+      entries.push({ directory, state: 'missing', reason: `no ${docName}` });
+      continue;
+    }
+    
+    const recorded = readSourceHash(await fs.readFile(docPath, 'utf-8'));
+    if (!recorded) {
+      entries.push({ directory, state: 'stale', reason: 'no source hash recorded; regenerate to start tracking' });
+    } else if (recorded !== await computeSourceHash(dir, rules, generatedNames)) {
+      entries.push({ directory, state: 'stale', reason: 'source changed since the doc was generated' });
+    } else {
+      entries.push({ directory, state: 'fresh' });
+    }
+  }
+  
+  // Docs left behind in directories that are now ignored or hidden
+  for (const { directory } of await findDocs(projectRoot, config)) {
+    if (!analyzed.has(directory)) {
+      entries.push({ directory, state: 'orphaned', reason: 'directory is ignored or no longer analyzed' });
+    }
+  }
+  
+  return entries.sort((a, b) => a.directory.localeCompare(b.directory));
+}
\ No newline at end of file
@@ -1,5 +1,21 @@
-import { CodeContextConfig, DirectoryAnalysis } from '../types';
+import { ApiSymbol, CodeContextConfig, DirectoryAnalysis, Finding } from '../types';
 import path from 'path';
+import { manualRegionSlot } from './manualRegions';
+
+const SOURCE_HASH_PATTERN = /<!-- codecontext:source-hash ([0-9a-f]+) -->/;
+
+export function formatSourceHashMarker(sourceHash: string): string {
+  return `<!-- codecontext:source-hash ${sourceHash} -->`;
+}
+
+/**
+ * The source hash a generated doc was built from, or null for docs written
+ * before hashes were recorded.
+ */
+export function readSourceHash(documentation: string): string | null {
+  const match = documentation.match(SOURCE_HASH_PATTERN);
+  return match ? match[1] : null;
+}
 
 export async function generateDocumentation(
   analysis: DirectoryAnalysis, 
@@ -11,13 +27,15 @@ export async function generateDocumentation(
   let content = `# ${dirName} Directory Documentation
 
 *Generated by CodeContext on ${timestamp}*
+${analysis.sourceHash ? `${formatSourceHashMarker(analysis.sourceHash)}\n` : ''}
+${manualRegionSlot('notes')}
 
 ## Purpose
 ${analysis.purpose || 'This directory contains project files.'}
-
+${analysis.architecture ? `
 ## Architecture
 ${analysis.architecture}
-
+` : ''}
 ## Key Files
 `;
 
@@ -34,6 +52,11 @@ ${analysis.architecture}
     content += '\nNo key files identified in this directory.\n';
   }
 
+  if (analysis.apiSurface && analysis.apiSurface.length > 0) {
+    content += '\n## API Surface\n';
+    content += formatApiSurface(analysis.apiSurface);
+  }
+
   if (analysis.recentChanges.length > 0) {
     content += '\n## Recent Changes\n';
     analysis.recentChanges.forEach(change => {
@@ -53,6 +76,25 @@ ${analysis.architecture}
     });
   }
 
+  if (analysis.tests && analysis.tests.length > 0) {
+    const tested = analysis.tests.filter(status => status.tests.length > 0).length;
+    content += `\n## Tests\n${tested} of ${analysis.tests.length} source ${analysis.tests.length === 1 ? 'file has' : 'files have'} tests.\n\n`;
+    analysis.tests.forEach(status => {
+      // Tests elsewhere in the tree (__tests__, tests/) are shown by their project path
+      const dir = path.posix.dirname(status.file);
+      const tests = status.tests.map(test => `\`${path.posix.dirname(test) === dir ? path.posix.basename(test) : test}\``).join(', ');
+      const details = [
+        tests || 'no tests',
+        ...(status.coverage !== undefined ? [`${status.coverage}% of lines covered`] : []),
+        ...(status.untestedFunctions ? [`untested: ${status.untestedFunctions.map(name => `\`${name}()\``).join(', ')}`] : [])
+      ];
+      content += `- \`${path.posix.basename(status.file)}\`: ${details.join('; ')}\n`;
+    });
+  }
+
+  content += formatFindings('Security', analysis.findings, 'security');
+  content += formatFindings('Performance', analysis.findings, 'performance');
+
   if (analysis.dependencies.length > 0) {
     content += '\n## Dependencies\n';
     const imports = analysis.dependencies.filter(d => d.type === 'import');
@@ -62,7 +104,7 @@ ${analysis.architecture}
     if (imports.length > 0) {
       content += '\n### Imports\n';
       imports.forEach(dep => {
-        content += `- ${dep.name} from ${dep.from}\n`;
+        content += `- ${dep.name} from ${dep.from}${dep.resolved ? ` (\`${dep.resolved}\`)` : ''}\n`;
       });
     }
 
@@ -81,10 +123,58 @@ ${analysis.architecture}
     }
   }
 
+  if (analysis.dependsOn && analysis.dependsOn.length > 0) {
+    content += '\n## Depends On\n';
+    analysis.dependsOn.forEach(relation => {
+      content += `- \`${relation.path}\` (${relation.imports} ${relation.imports === 1 ? 'import' : 'imports'})\n`;
+    });
+  }
+
+  if (analysis.usedBy && analysis.usedBy.length > 0) {
+    content += '\n## Used By\n';
+    analysis.usedBy.forEach(relation => {
+      content += `- \`${relation.path}\` (${relation.imports} ${relation.imports === 1 ? 'import' : 'imports'})\n`;
+    });
+  }
+
+  if (analysis.analysisNotes && analysis.analysisNotes.length > 0) {
+    content += '\n## Analysis Notes\n';
+    analysis.analysisNotes.forEach(note => {
+      content += `- ${note}\n`;
+    });
+  }
+
   content += `
 ---
-*This documentation is automatically maintained by CodeContext. To update, run \`codecontext refresh\`.*
+*This documentation is automatically maintained by CodeContext. To update, run \`codecontext refresh\`. Text inside \`codecontext:manual\` comment blocks is kept across updates.*
 `;
 
   return content;
+}
+
+function formatApiSurface(symbols: ApiSymbol[]): string {
+  let content = '';
+  let file = '';
+  for (const symbol of symbols) {
+    if (symbol.file !== file) {
+      file = symbol.file;
+      content += `\n### ${path.posix.basename(file)}\n`;
+    }
+    content += `- \`${symbol.signature}\`\n`;
+    for (const member of symbol.members || []) {
+      content += `  - \`${member.signature}\`\n`;
+    }
+  }
+  return content;
+}
+
+function formatFindings(heading: string, findings: Finding[] | undefined, area: Finding['area']): string {
+  if (!findings) {
+    return '';
+  }
+  const matching = findings.filter(finding => finding.area === area);
+  if (matching.length === 0) {
+    return '';
+  }
+  return `\n## ${heading}\n${matching.map(finding => `- \`${finding.file}:${finding.line}\`: ${finding.message}\n`).join('')}`;
 }
\ No newline at end of file
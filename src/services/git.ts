@@ -1,63 +1,235 @@
 import simpleGit, { SimpleGit } from 'simple-git';
-import fs from 'fs-extra';
-import path from 'path';
 
-export async function installGitHooks(projectPath: string): Promise<void> {
-  const gitDir = path.join(projectPath, '.git');
-  if (!await fs.pathExists(gitDir)) {
-    throw new Error('Not a git repository');
+export type FileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface ChangedFile {
+  // Relative to the project path
+  path: string;
+  status: FileChangeStatus;
+  // Where a renamed file used to be
+  previousPath?: string;
+}
+
+export interface ChangedFilesOptions {
+  // Compare this revision with the working tree, untracked files included; defaults to HEAD
+  since?: string;
+  // Compare two revisions, e.g. main..feature; the working tree is left out
+  range?: string;
+}
+
+// Git's well-known empty tree, the baseline of a repository with no commits yet
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/**
+ * Files changed under `projectPath` between two revisions, or since a revision
+ * including uncommitted and untracked work. Deletions and renames are kept so
+ * callers can tidy up after files that are gone. Unknown revisions throw.
+ */
+export async function getChangedFiles(projectPath: string, options: ChangedFilesOptions = {}): Promise<ChangedFile[]> {
+  const git: SimpleGit = simpleGit(projectPath);
+  if (!await git.checkIsRepo()) {
+    return [];
   }
   
-  const hooksDir = path.join(gitDir, 'hooks');
-  await fs.ensureDir(hooksDir);
+  const base = options.range || options.since || (await getHeadCommit(projectPath)) || EMPTY_TREE;
+  const diff = await git.raw(['diff', '--name-status', '-z', '-M', '--relative', base]);
+  const changes = parseNameStatus(diff);
+  
+  if (!options.range) {
+    const untracked = await git.raw(['ls-files', '--others', '--exclude-standard', '-z']);
+    for (const file of untracked.split('\0').filter(Boolean)) {
+      changes.push({ path: file, status: 'added' });
+    }
+  }
   
-  const postCommitHook = `#!/bin/sh
-# CodeContext post-commit hook
-# Automatically update documentation after commits
+  return changes;
+}
+
+/**
+ * Full hash of HEAD, or null outside a repository or before the first commit.
+ */
+export async function getHeadCommit(projectPath: string): Promise<string | null> {
+  try {
+    return (await simpleGit(projectPath).revparse(['--verify', '-q', 'HEAD'])).trim() || null;
+  } catch {
+    return null;
+  }
+}
 
-codecontext refresh
-`;
+/**
+ * Whether `ref` names a commit in the repository, e.g. a recorded hash that a
+ * rebase or shallow clone may have dropped.
+ */
+export async function commitExists(projectPath: string, ref: string): Promise<boolean> {
+  try {
+    await simpleGit(projectPath).raw(['cat-file', '-e', `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// -z output is "<status>\0<path>\0", with a second path after renames and copies
+function parseNameStatus(output: string): ChangedFile[] {
+  const fields = output.split('\0');
+  const changes: ChangedFile[] = [];
+  
+  for (let i = 0; i < fields.length && fields[i]; ) {
+    const code = fields[i++][0];
+    if (code === 'R') {
+      changes.push({ path: fields[i + 1], status: 'renamed', previousPath: fields[i] });
+      i += 2;
+    } else if (code === 'C') {
+      changes.push({ path: fields[i + 1], status: 'added' });
+      i += 2;
+    } else {
+      const status: FileChangeStatus = code === 'A' ? 'added' : code === 'D' ? 'deleted' : 'modified';
+      changes.push({ path: fields[i++], status });
+    }
+  }
   
-  const postCommitPath = path.join(hooksDir, 'post-commit');
-  await fs.writeFile(postCommitPath, postCommitHook);
-  await fs.chmod(postCommitPath, '755');
+  return changes;
 }
 
-export async function getChangedFiles(projectPath: string): Promise<string[]> {
+export interface CommitFileStat {
+  // Relative to the repository root; the new path for renames
+  path: string;
+  previousPath?: string;
+  insertions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface CommitInfo {
+  hash: string;
+  date: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  // Only files matching the pathspecs when the log was filtered
+  files: CommitFileStat[];
+}
+
+export interface CommitLogOptions {
+  // Git pathspecs relative to `projectPath`; only commits touching them are returned
+  paths?: string[];
+}
+
+/**
+ * Most recent commits, newest first, each with its per-file line counts.
+ */
+export async function getRecentCommits(projectPath: string, limit: number = 10, options: CommitLogOptions = {}): Promise<CommitInfo[]> {
   const git: SimpleGit = simpleGit(projectPath);
   
   try {
-    const status = await git.status();
-    const changedFiles: string[] = [];
-    
-    changedFiles.push(...status.modified);
-    changedFiles.push(...status.created);
-    changedFiles.push(...status.renamed.map(r => r.to));
-    
-    return changedFiles;
+    const output = await git.raw([
+      'log',
+      `--max-count=${limit}`,
+      // Record and unit separators keep subjects with any punctuation intact
+      '--format=%x1e%H%x1f%ai%x1f%s%x1f%an%x1f%ae',
+      '--numstat',
+      ...(options.paths && options.paths.length > 0 ? ['--', ...options.paths] : [])
+    ]);
+    return parseCommitLog(output);
   } catch (error) {
-    console.error('Error getting git status:', error);
+    console.error('Error getting git log:', error);
     return [];
   }
 }
 
-export async function getRecentCommits(projectPath: string, limit: number = 10): Promise<any[]> {
+/**
+ * A file's content at `ref`, or null when it did not exist there.
+ */
+export async function getFileAtRevision(projectPath: string, ref: string, file: string): Promise<string | null> {
+  try {
+    return await simpleGit(projectPath).show([`${ref}:${file}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Files tracked at `ref` below `projectPath`, relative to it. Throws for an unknown ref.
+ */
+export async function listFilesAtRevision(projectPath: string, ref: string): Promise<string[]> {
+  const output = await simpleGit(projectPath).raw(['ls-tree', '-r', '-z', '--name-only', ref]);
+  return output.split('\0').filter(Boolean);
+}
+
+function parseCommitLog(output: string): CommitInfo[] {
+  const commits: CommitInfo[] = [];
+  
+  for (const record of output.split('\x1e')) {
+    const [header, ...stats] = record.split('\n');
+    const [hash, date, message, author_name, author_email] = header.split('\x1f');
+    if (!hash) continue;
+    
+    const files: CommitFileStat[] = [];
+    for (const line of stats) {
+      const match = line.match(/^(\d+|-)\t(\d+|-)\t(.+)$/);
+      if (!match) continue;
+      files.push({
+        ...parseRenamedPath(match[3]),
+        insertions: match[1] === '-' ? 0 : parseInt(match[1], 10),
+        deletions: match[2] === '-' ? 0 : parseInt(match[2], 10),
+        binary: match[1] === '-'
+      });
+    }
+    
+    commits.push({ hash, date, message, author_name, author_email, files });
+  }
+  
+  return commits;
+}
+
+// numstat writes renames as "old => new" or "dir/{old => new}/rest"
+function parseRenamedPath(raw: string): { path: string; previousPath?: string } {
+  const braced = raw.match(/^(.*)\{(.*) => (.*)\}(.*)$/);
+  if (braced) {
+    const [, prefix, from, to, suffix] = braced;
+    const join = (middle: string) => `${prefix}${middle}${suffix}`.replace(/\/\//g, '/');
+    return { path: join(to), previousPath: join(from) };
+  }
+  
+  const plain = raw.split(' => ');
+  return plain.length === 2 ? { path: plain[1], previousPath: plain[0] } : { path: raw };
+}
+
+export interface FileCommit {
+  hash: string;
+  date: string;
+  message: string;
+  author_name: string;
+}
+
+/**
+ * Most recent commits touching any of `files`, given relative to `projectPath`.
+ */
+export async function getCommitsForFiles(projectPath: string, files: string[], limit: number = 5): Promise<FileCommit[]> {
+  if (files.length === 0) {
+    return [];
+  }
+  
   const git: SimpleGit = simpleGit(projectPath);
+  const pathspecs: Record<string, null> = { '--': null };
+  for (const file of files) {
+    pathspecs[file] = null;
+  }
   
   try {
-    const log = await git.log({
+    const log = await git.log<FileCommit>({
       maxCount: limit,
       format: {
         hash: '%H',
         date: '%ai',
         message: '%s',
-        author_name: '%an',
-        author_email: '%ae'
-      }
+        author_name: '%an'
+      },
+      ...pathspecs
     });
     return [...log.all];
-  } catch (error) {
-    console.error('Error getting git log:', error);
+  } catch {
+    // Not a git repository, or the files were never committed
     return [];
   }
 }
\ No newline at end of file
@@ -0,0 +1,294 @@
+import simpleGit from 'simple-git';
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * 'refresh' regenerates docs after every commit (post-commit); 'check' only
+ * blocks commits whose docs are out of date (pre-commit), leaving the
+ * rewriting to whoever runs `codecontext refresh`.
+ */
+export type HookMode = 'refresh' | 'check';
+
+export type HookManager = 'husky' | 'lefthook' | 'pre-commit';
+
+export interface HookInstallResult {
+  mode: HookMode;
+  hook: string;
+  manager: DetectedHookManager | null;
+  // The file the block was written to, when CodeContext could write it itself
+  path?: string;
+  // Configuration to add by hand, for managers whose config is not a shell script
+  snippet?: string;
+}
+
+export interface HookUninstallResult {
+  hooksDir: string;
+  // core.hooksPath points at a file such as /dev/null, so there was nothing to remove
+  disabled: boolean;
+  // Hook files that changed
+  changed: string[];
+}
+
+export interface HookStatus {
+  hook: string;
+  mode: HookMode;
+  path: string;
+  installed: boolean;
+  // A whole-file hook written by older versions, replaced on the next install
+  legacy: boolean;
+}
+
+export interface DetectedHookManager {
+  name: HookManager;
+  // The manager's config file or directory
+  config: string;
+}
+
+export interface GitHooksReport {
+  hooksDir: string;
+  // core.hooksPath points at a file such as /dev/null, so git runs no hooks
+  disabled: boolean;
+  manager: DetectedHookManager | null;
+  hooks: HookStatus[];
+}
+
+const HOOKS: Record<HookMode, { hook: string; args: string }> = {
+  refresh: { hook: 'post-commit', args: 'refresh' },
+  check: { hook: 'pre-commit', args: 'status --check' }
+};
+
+const BLOCK_START = '# >>> codecontext >>>';
+const BLOCK_END = '# <<< codecontext <<<';
+const LEGACY_MARKER = '# CodeContext post-commit hook';
+const SHEBANG = '#!/bin/sh';
+
+const LEFTHOOK_CONFIGS = ['lefthook.yml', '.lefthook.yml', 'lefthook.yaml', '.lefthook.yaml'];
+const PRE_COMMIT_CONFIG = '.pre-commit-config.yaml';
+
+/**
+ * Where git runs hooks from. Asking git rather than assuming `.git/hooks`
+ * honours core.hooksPath and works in worktrees and submodules, where `.git`
+ * is a file pointing elsewhere.
+ */
+export async function getHooksDir(projectPath: string): Promise<string> {
+  const hooksDir = await resolveHooksDir(projectPath);
+  if (await isDisabled(hooksDir)) {
+    throw new Error(`Git hooks are disabled: core.hooksPath points to ${hooksDir}`);
+  }
+  return hooksDir;
+}
+
+/**
+ * The hook manager that owns the repository's hooks, if any. Hooks written
+ * straight into the hooks directory would be overwritten by these tools.
+ */
+export async function detectHookManager(projectPath: string): Promise<DetectedHookManager | null> {
+  const root = await getRepositoryRoot(projectPath);
+  const candidates: DetectedHookManager[] = [
+    { name: 'husky', config: path.join(root, '.husky') },
+    ...LEFTHOOK_CONFIGS.map(config => ({ name: 'lefthook' as const, config: path.join(root, config) })),
+    { name: 'pre-commit', config: path.join(root, PRE_COMMIT_CONFIG) }
+  ];
+  
+  for (const candidate of candidates) {
+    if (await fs.pathExists(candidate.config)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Installs the hook for `mode` next to whatever the repository already runs,
+ * inside a marked block so it can be updated or removed without touching
+ * anything else. The other mode's block is removed. Husky hooks are edited in
+ * `.husky/`; lefthook and pre-commit keep YAML configs, so for those the
+ * snippet to add is returned instead of written.
+ */
+export async function installGitHooks(projectPath: string, mode: HookMode = 'refresh'): Promise<HookInstallResult> {
+  const { hook } = HOOKS[mode];
+  const manager = await detectHookManager(projectPath);
+  const otherMode: HookMode = mode === 'refresh' ? 'check' : 'refresh';
+  
+  if (manager && manager.name !== 'husky') {
+    return { mode, hook, manager, snippet: renderManagerSnippet(manager.name, mode) };
+  }
+  
+  const hooksDir = await getManagedHooksDir(projectPath, manager);
+  await removeBlock(path.join(hooksDir, HOOKS[otherMode].hook));
+  
+  const hookPath = path.join(hooksDir, hook);
+  const existing = await fs.pathExists(hookPath) ? await fs.readFile(hookPath, 'utf-8') : '';
+  await fs.outputFile(hookPath, insertBlock(existing, renderBlock(mode)));
+  await fs.chmod(hookPath, '755');
+  
+  return { mode, hook, manager, path: hookPath };
+}
+
+/**
+ * Removes CodeContext's blocks from every hook it may have written, deleting
+ * hook files that are left with nothing else in them. With hooks disabled by
+ * core.hooksPath there is nothing git would run, so nothing is touched.
+ */
+export async function uninstallGitHooks(projectPath: string): Promise<HookUninstallResult> {
+  const manager = await detectHookManager(projectPath);
+  const hooksDir = manager?.name === 'husky' ? manager.config : await resolveHooksDir(projectPath);
+  if (await isDisabled(hooksDir)) {
+    return { hooksDir, disabled: true, changed: [] };
+  }
+  
+  const changed: string[] = [];
+  for (const { hook } of Object.values(HOOKS)) {
+    const hookPath = path.join(hooksDir, hook);
+    if (await removeBlock(hookPath)) {
+      changed.push(hookPath);
+    }
+  }
+  
+  return { hooksDir, disabled: false, changed };
+}
+
+export async function getGitHooksStatus(projectPath: string): Promise<GitHooksReport> {
+  const manager = await detectHookManager(projectPath);
+  const hooksDir = manager?.name === 'husky' ? manager.config : await resolveHooksDir(projectPath);
+  const disabled = await isDisabled(hooksDir);
+  const hooks: HookStatus[] = [];
+  
+  for (const [mode, { hook, args }] of Object.entries(HOOKS) as [HookMode, { hook: string; args: string }][]) {
+    // YAML-configured managers are checked for the command in their config
+    if (manager && manager.name !== 'husky') {
+      const config = await fs.readFile(manager.config, 'utf-8');
+      const installed = config.includes(`codecontext ${args}`) && config.includes(hook);
+      hooks.push({ hook, mode, path: manager.config, installed, legacy: false });
+      continue;
+    }
+    
+    const hookPath = path.join(hooksDir, hook);
+    const content = !disabled && await fs.pathExists(hookPath) ? await fs.readFile(hookPath, 'utf-8') : '';
+    const legacy = content.includes(LEGACY_MARKER);
+    hooks.push({ hook, mode, path: hookPath, installed: legacy || content.includes(BLOCK_START), legacy });
+  }
+  
+  return { hooksDir, disabled, manager, hooks };
+}
+
+async function resolveHooksDir(projectPath: string): Promise<string> {
+  const git = simpleGit(projectPath);
+  if (!await git.checkIsRepo()) {
+    throw new Error('Not a git repository');
+  }
+  return path.resolve(projectPath, (await git.raw(['rev-parse', '--git-path', 'hooks'])).trim());
+}
+
+// core.hooksPath=/dev/null is a common way to switch hooks off
+async function isDisabled(hooksDir: string): Promise<boolean> {
+  return await fs.pathExists(hooksDir) && !(await fs.stat(hooksDir)).isDirectory();
+}
+
+async function getRepositoryRoot(projectPath: string): Promise<string> {
+  const git = simpleGit(projectPath);
+  if (!await git.checkIsRepo()) {
+    throw new Error('Not a git repository');
+  }
+  return (await git.revparse(['--show-toplevel'])).trim();
+}
+
+// Husky (v7 and later) runs the scripts in .husky/, whatever core.hooksPath says
+async function getManagedHooksDir(projectPath: string, manager: DetectedHookManager | null): Promise<string> {
+  if (manager?.name === 'husky') {
+    return manager.config;
+  }
+  return getHooksDir(projectPath);
+}
+
+function renderBlock(mode: HookMode): string {
+  const { args } = HOOKS[mode];
+  // A failed check must stop the commit; a failed refresh must not stop the rest of the hook
+  const onFailure = mode === 'check' ? ' || exit 1' : ' || true';
+  return [
+    BLOCK_START,
+    '# Added by `codecontext hooks install`; remove with `codecontext hooks uninstall`',
+    'if command -v codecontext >/dev/null 2>&1; then',
+    `  codecontext ${args}${onFailure}`,
+    'else',
+    `  npx --no-install codecontext ${args}${onFailure}`,
+    'fi',
+    BLOCK_END
+  ].join('\n');
+}
+
+/**
+ * Puts the block right after the shebang, replacing an earlier block, so it
+ * still runs when the existing hook ends with `exit` or `exec`.
+ */
+function insertBlock(content: string, block: string): string {
+  if (!content.trim() || content.includes(LEGACY_MARKER)) {
+    return `${SHEBANG}\n\n${block}\n`;
+  }
+  
+  const withoutBlock = stripBlock(content);
+  const lines = withoutBlock.split('\n');
+  const head = lines[0].startsWith('#!') ? [lines.shift() as string] : [];
+  const rest = lines.join('\n').replace(/^\n+/, '');
+  return [...head, '', block, '', rest].join('\n').replace(/^\n/, '');
+}
+
+function stripBlock(content: string): string {
+  const start = content.indexOf(BLOCK_START);
+  const end = content.indexOf(BLOCK_END);
+  if (start === -1 || end === -1 || end < start) {
+    return content;
+  }
+  // Drop the blank lines insertBlock put around the block too
+  return content.slice(0, start).replace(/\n\n$/, '\n') + content.slice(end + BLOCK_END.length).replace(/^\n+/, '');
+}
+
+/**
+ * Takes CodeContext's block (or whole legacy hook) out of a hook file and
+ * deletes the file when only a shebang would remain. Returns whether the
+ * file changed.
+ */
+async function removeBlock(hookPath: string): Promise<boolean> {
+  if (!await fs.pathExists(hookPath)) {
+    return false;
+  }
+  
+  const content = await fs.readFile(hookPath, 'utf-8');
+  const stripped = content.includes(LEGACY_MARKER) ? '' : stripBlock(content);
+  if (stripped === content) {
+    return false;
+  }
+  
+  const remaining = stripped.split('\n').filter(line => line.trim() && !line.startsWith('#!'));
+  if (remaining.length === 0) {
+    await fs.remove(hookPath);
+  } else {
+    await fs.writeFile(hookPath, stripped.replace(/\n{3,}/g, '\n\n'));
+  }
+  return true;
+}
+
+function renderManagerSnippet(manager: HookManager, mode: HookMode): string {
+  const { hook, args } = HOOKS[mode];
+  
+  if (manager === 'lefthook') {
+    return [
+      `${hook}:`,
+      '  commands:',
+      '    codecontext:',
+      `      run: npx --no-install codecontext ${args}`
+    ].join('\n');
+  }
+  
+  return [
+    '- repo: local',
+    '  hooks:',
+    '    - id: codecontext',
+    `      name: codecontext ${args}`,
+    `      entry: npx --no-install codecontext ${args}`,
+    '      language: system',
+    '      pass_filenames: false',
+    '      always_run: true',
+    `      stages: [${hook}]`
+  ].join('\n');
+}
\ No newline at end of file
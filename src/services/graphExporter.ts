@@ -0,0 +1,218 @@
+import { DependencyGraph } from '../types';
+import { getDirectory } from './dependencyGraph';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export interface GraphExportOptions {
+  format: GraphFormat;
+  filter?: string;
+  depth?: number;
+  directories?: boolean;
+  highlightCycles?: boolean;
+}
+
+export interface GraphView {
+  nodes: string[];
+  edges: { from: string; to: string; weight: number }[];
+  cycles: string[][];
+}
+
+/**
+ * Projects the persisted graph onto the nodes the caller asked for: file or
+ * directory level, optionally limited to a path prefix and collapsed to a
+ * maximum path depth.
+ */
+export function buildGraphView(graph: DependencyGraph, options: Omit<GraphExportOptions, 'format'>): GraphView {
+  const prefix = options.filter ? normalizePrefix(options.filter) : null;
+  const inScope = (node: string) => !prefix || node === prefix || node.startsWith(`${prefix}/`);
+  
+  const project = (file: string) => {
+    let node = options.directories ? getDirectory(file) : file;
+    if (options.depth && options.depth > 0) {
+      node = node.split('/').slice(0, options.depth).join('/');
+    }
+    return node;
+  };
+  
+  const nodes = new Set<string>();
+  const edges = new Map<string, { from: string; to: string; weight: number }>();
+  
+  for (const file of graph.files) {
+    const node = project(file);
+    if (inScope(node)) nodes.add(node);
+  }
+  
+  for (const edge of graph.fileEdges) {
+    const from = project(edge.from);
+    const to = project(edge.to);
+    if (from === to) continue;
+    // Keep edges touching the filtered subtree so its outside dependencies stay visible
+    if (!inScope(from) && !inScope(to)) continue;
+    
+    nodes.add(from);
+    nodes.add(to);
+    
+    const key = `${from}\0${to}`;
+    const existing = edges.get(key);
+    if (existing) {
+      existing.weight++;
+    } else {
+      edges.set(key, { from, to, weight: 1 });
+    }
+  }
+  
+  const edgeList = Array.from(edges.values())
+    .sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+  
+  return {
+    nodes: Array.from(nodes).sort(),
+    edges: edgeList,
+    cycles: findCycles(edgeList)
+  };
+}
+
+export function exportGraph(graph: DependencyGraph, options: GraphExportOptions): string {
+  const view = buildGraphView(graph, options);
+  
+  switch (options.format) {
+    case 'dot':
+      return renderDot(view, options);
+    case 'json':
+      return renderJson(view);
+    case 'mermaid':
+    default:
+      return renderMermaid(view, options);
+  }
+}
+
+function renderDot(view: GraphView, options: GraphExportOptions): string {
+  const cycleNodes = new Set(view.cycles.flat());
+  const sameCycle = createCycleLookup(view.cycles);
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  
+  const lines = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box, fontname="Helvetica"];'
+  ];
+  
+  for (const node of view.nodes) {
+    const highlight = options.highlightCycles && cycleNodes.has(node) ? ' [color=red, fontcolor=red]' : '';
+    lines.push(`  ${quote(node)}${highlight};`);
+  }
+  
+  for (const edge of view.edges) {
+    const attributes: string[] = [];
+    if (edge.weight > 1) attributes.push(`label="${edge.weight}"`);
+    if (options.highlightCycles && sameCycle(edge.from, edge.to)) attributes.push('color=red');
+    lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+  
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function renderMermaid(view: GraphView, options: GraphExportOptions): string {
+  const ids = new Map(view.nodes.map((node, index) => [node, `n${index}`]));
+  const sameCycle = createCycleLookup(view.cycles);
+  const lines = ['graph LR'];
+  
+  for (const node of view.nodes) {
+    lines.push(`  ${ids.get(node)}["${node.replace(/"/g, '#quot;')}"]`);
+  }
+  
+  const cycleLinks: number[] = [];
+  view.edges.forEach((edge, index) => {
+    const label = edge.weight > 1 ? `|${edge.weight}|` : '';
+    lines.push(`  ${ids.get(edge.from)} -->${label} ${ids.get(edge.to)}`);
+    if (sameCycle(edge.from, edge.to)) cycleLinks.push(index);
+  });
+  
+  if (options.highlightCycles && view.cycles.length > 0) {
+    const cycleIds = view.cycles.flat().map(node => ids.get(node));
+    lines.push('  classDef cycle stroke:#d33,stroke-width:2px,color:#d33');
+    lines.push(`  class ${cycleIds.join(',')} cycle`);
+    if (cycleLinks.length > 0) {
+      lines.push(`  linkStyle ${cycleLinks.join(',')} stroke:#d33,stroke-width:2px`);
+    }
+  }
+  
+  return lines.join('\n');
+}
+
+function renderJson(view: GraphView): string {
+  const sameCycle = createCycleLookup(view.cycles);
+  const cycleNodes = new Set(view.cycles.flat());
+  
+  return JSON.stringify({
+    nodes: view.nodes.map(id => ({ id, inCycle: cycleNodes.has(id) })),
+    edges: view.edges.map(edge => ({ ...edge, inCycle: sameCycle(edge.from, edge.to) })),
+    cycles: view.cycles
+  }, null, 2);
+}
+
+/**
+ * Strongly connected components with more than one node (Tarjan's algorithm).
+ */
+export function findCycles(edges: { from: string; to: string }[]): string[][] {
+  const adjacency = new Map<string, string[]>();
+  for (const edge of edges) {
+    adjacency.set(edge.from, [...(adjacency.get(edge.from) || []), edge.to]);
+    if (!adjacency.has(edge.to)) adjacency.set(edge.to, []);
+  }
+  
+  let counter = 0;
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  
+  const strongConnect = (node: string) => {
+    index.set(node, counter);
+    lowLink.set(node, counter);
+    counter++;
+    stack.push(node);
+    onStack.add(node);
+    
+    for (const next of adjacency.get(node) || []) {
+      if (!index.has(next)) {
+        strongConnect(next);
+        lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+      }
+    }
+    
+    if (lowLink.get(node) === index.get(node)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      
+      if (component.length > 1) {
+        components.push(component.sort());
+      }
+    }
+  };
+  
+  for (const node of adjacency.keys()) {
+    if (!index.has(node)) strongConnect(node);
+  }
+  
+  return components.sort((a, b) => a[0].localeCompare(b[0]));
+}
+
+function createCycleLookup(cycles: string[][]): (from: string, to: string) => boolean {
+  const component = new Map<string, number>();
+  cycles.forEach((nodes, i) => nodes.forEach(node => component.set(node, i)));
+  
+  return (from, to) => component.has(from) && component.get(from) === component.get(to);
+}
+
+function normalizePrefix(prefix: string): string {
+  return prefix.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/+$/, '') || '.';
+}
\ No newline at end of file
@@ -0,0 +1,92 @@
+import { AIConfig, AIProviderName, AITask } from '../types';
+import { createAnthropicProvider } from './providers/anthropic';
+import { createOpenAIProvider } from './providers/openai';
+import { createMockProvider } from './providers/mock';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  model: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  system?: string;
+  // What the call is for; lets the mock provider pick a fixture
+  task?: AITask;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface EmbeddingResponse {
+  // One vector per input, in order
+  vectors: number[][];
+  model: string;
+  usage?: { inputTokens: number };
+}
+
+/**
+ * A chat-completion backend. AIAnalyzer only talks to this interface, so the
+ * provider can be swapped in `.codecontext.json` without touching prompts.
+ */
+export interface LLMProvider {
+  name: AIProviderName;
+  // Distinguishes backends that share a provider name (endpoint, fixture set) in cache keys
+  id: string;
+  defaultModels: Record<'smart' | 'deep', Record<AITask, string>>;
+  isAvailable(): boolean;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  // Only for backends with an embeddings endpoint; used by semantic search
+  defaultEmbeddingModel?: string;
+  embed?(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+}
+
+/**
+ * Thrown for non-2xx responses so callers can tell rate limits and overload
+ * (429/529) apart from other failures.
+ */
+export class LLMRequestError extends Error {
+  constructor(message: string, readonly status?: number, readonly retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
+
+export const DEFAULT_AI_CONFIG: AIConfig = {
+  provider: 'anthropic'
+};
+
+export function createLLMProvider(config: AIConfig = DEFAULT_AI_CONFIG, projectRoot: string = process.cwd()): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config);
+    case 'mock':
+      return createMockProvider(config, projectRoot);
+    case 'anthropic':
+      return createAnthropicProvider(config);
+    default:
+      throw new Error(`Unknown AI provider "${config.provider}". Use anthropic, openai, or mock.`);
+  }
+}
+
+/**
+ * The model configured for a task in a mode, falling back to the provider default.
+ */
+export function resolveModel(provider: LLMProvider, config: AIConfig | undefined, task: AITask, mode: 'smart' | 'deep'): string {
+  return config?.models?.[mode]?.[task] || provider.defaultModels[mode][task];
+}
\ No newline at end of file
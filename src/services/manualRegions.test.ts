@@ -0,0 +1,67 @@
+import { describe, expect, it } from '@jest/globals';
+import { manualRegionSlot, mergeManualRegions } from './manualRegions';
+
+const FOOTER = '---\n*Generated by CodeContext*\n';
+
+function doc(...sections: string[]): string {
+  return `# src\n\n${sections.join('\n\n')}\n\n${FOOTER}`;
+}
+
+describe('mergeManualRegions', () => {
+  it('returns the generated doc when the previous one has no regions', () => {
+    const generated = doc('## Purpose\n\nNew text');
+    expect(mergeManualRegions(doc('## Purpose\n\nOld text'), generated)).toBe(generated);
+  });
+  
+  it('refills a named slot byte for byte', () => {
+    const region = '<!-- codecontext:manual notes -->\nKeep  *this*\n<!-- /codecontext:manual -->';
+    const previous = doc('## Purpose\n\nOld', `## Notes\n\n${region}`);
+    const generated = doc('## Purpose\n\nNew', `## Notes\n\n${manualRegionSlot('notes')}`);
+    
+    expect(mergeManualRegions(previous, generated)).toBe(doc('## Purpose\n\nNew', `## Notes\n\n${region}`));
+  });
+  
+  it('puts an unnamed region back at the end of its section', () => {
+    const region = '<!-- codecontext:manual -->\nHand-written\n<!-- /codecontext:manual -->';
+    const previous = doc(`## Purpose\n\nOld\n\n${region}`, '## Files\n\n- a.ts');
+    const merged = mergeManualRegions(previous, doc('## Purpose\n\nNew', '## Files\n\n- b.ts'));
+    
+    expect(merged).toBe(doc(`## Purpose\n\nNew\n\n${region}`, '## Files\n\n- b.ts'));
+  });
+  
+  it('keeps a region whose section is gone before the footer', () => {
+    const region = '<!-- codecontext:manual -->\nOrphan\n<!-- /codecontext:manual -->';
+    const merged = mergeManualRegions(doc(`## Removed\n\n${region}`), doc('## Purpose\n\nNew'));
+    
+    expect(merged).toBe(doc('## Purpose\n\nNew', region));
+  });
+  
+  it('stops an unterminated region at the next region instead of swallowing the text between', () => {
+    const previous = doc(
+      '## Purpose\n\n<!-- codecontext:manual -->\nForgot to close',
+      '## Files\n\n- a.ts',
+      '## Notes\n\n<!-- codecontext:manual notes -->\nNotes\n<!-- /codecontext:manual -->'
+    );
+    const generated = doc('## Purpose\n\nNew', '## Files\n\n- b.ts', `## Notes\n\n${manualRegionSlot('notes')}`);
+    const merged = mergeManualRegions(previous, generated);
+    
+    expect(merged).toContain('Forgot to close\n<!-- /codecontext:manual -->');
+    expect(merged).toContain('<!-- codecontext:manual notes -->\nNotes\n<!-- /codecontext:manual -->');
+    expect(merged.match(/## Files/g)).toHaveLength(1);
+    expect(merged).not.toContain('a.ts');
+  });
+  
+  it('stops an unterminated region at the next heading or the footer', () => {
+    const headed = mergeManualRegions(
+      doc('## Purpose\n\nOld\n\n<!-- codecontext:manual -->\nOpen', '## Files\n\n- a.ts'),
+      doc('## Purpose\n\nNew', '## Files\n\n- b.ts')
+    );
+    expect(headed).toBe(doc('## Purpose\n\nNew\n\n<!-- codecontext:manual -->\nOpen\n<!-- /codecontext:manual -->', '## Files\n\n- b.ts'));
+    
+    const last = mergeManualRegions(doc('## Purpose\n\n<!-- codecontext:manual -->\nOpen'), doc('## Purpose\n\nNew'));
+    expect(last.match(/Generated by CodeContext/g)).toHaveLength(1);
+    
+    // Regenerating again must not grow the doc
+    expect(mergeManualRegions(last, doc('## Purpose\n\nNew'))).toBe(last);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,140 @@
+const START_PATTERN = /<!--\s*codecontext:manual(?:\s+([\w.-]+))?\s*-->/;
+const END_PATTERN = /<!--\s*\/codecontext:manual\s*-->/;
+const END_MARKER = '<!-- /codecontext:manual -->';
+const FOOTER_SEPARATOR = '\n---\n';
+
+interface ManualRegion {
+  // Named regions refill the slot with the same name in the regenerated doc
+  name?: string;
+  text: string;
+  start: number;
+  end: number;
+  closed: boolean;
+  // The `## ` heading the region sat under, used to place unnamed regions
+  anchor: string | null;
+  // Whether only blank lines separated the region from its heading
+  atSectionStart: boolean;
+}
+
+export function manualRegionSlot(name: string): string {
+  return `<!-- codecontext:manual ${name} -->\n${END_MARKER}`;
+}
+
+/**
+ * Carries every `<!-- codecontext:manual -->` ... `<!-- /codecontext:manual -->`
+ * region of the previous doc into the regenerated one, byte for byte. Named
+ * regions replace the matching empty slot; the rest go back at the end of the
+ * section they were written under, or before the footer if that section is gone.
+ */
+export function mergeManualRegions(previous: string, generated: string): string {
+  const preserved = findManualRegions(previous);
+  if (preserved.length === 0) {
+    return generated;
+  }
+  
+  const placed = new Set<ManualRegion>();
+  let result = generated;
+  
+  // Replace from the end so earlier offsets stay valid
+  for (const slot of findManualRegions(generated).reverse()) {
+    const region = slot.name ? preserved.find(candidate => candidate.name === slot.name && !placed.has(candidate)) : undefined;
+    if (!region) continue;
+    
+    placed.add(region);
+    result = result.slice(0, slot.start) + closeRegion(region) + result.slice(slot.end);
+  }
+  
+  for (const region of preserved.filter(candidate => !placed.has(candidate))) {
+    result = insertBlock(result, findInsertionPoint(result, region.anchor, region.atSectionStart), closeRegion(region));
+  }
+  
+  return result;
+}
+
+function findManualRegions(doc: string): ManualRegion[] {
+  const regions: ManualRegion[] = [];
+  const startPattern = new RegExp(START_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  
+  while ((match = startPattern.exec(doc))) {
+    const endPattern = new RegExp(END_PATTERN.source, 'g');
+    const from = startPattern.lastIndex;
+    endPattern.lastIndex = from;
+    const nextStart = findFrom(doc, START_PATTERN, from);
+    const found = endPattern.exec(doc);
+    const endMatch = found && found.index < nextStart ? found : null;
+    // An unterminated region stops at the next region, section heading or
+    // footer, so it never swallows generated text that would then appear twice
+    const footer = doc.indexOf(FOOTER_SEPARATOR, from);
+    const end = endMatch
+      ? endMatch.index + endMatch[0].length
+      : Math.min(nextStart, findFrom(doc, /^## /m, from), footer >= 0 ? footer : doc.length);
+    
+    const anchor = findAnchor(doc, match.index);
+    regions.push({
+      name: match[1],
+      text: doc.slice(match.index, end),
+      start: match.index,
+      end,
+      closed: endMatch !== null,
+      anchor: anchor ? anchor.text : null,
+      atSectionStart: anchor !== null && doc.slice(anchor.end, match.index).trim() === ''
+    });
+    startPattern.lastIndex = end;
+  }
+  
+  return regions;
+}
+
+// Index of the first match at or after `from`, or the end of the doc
+function findFrom(doc: string, pattern: RegExp, from: number): number {
+  const index = doc.slice(from).search(pattern);
+  return index >= 0 ? from + index : doc.length;
+}
+
+function findAnchor(doc: string, index: number): { text: string; end: number } | null {
+  let anchor: { text: string; end: number } | null = null;
+  for (const heading of doc.slice(0, index).matchAll(/^## .*$/gm)) {
+    anchor = { text: heading[0].trim(), end: heading.index! + heading[0].length };
+  }
+  return anchor;
+}
+
+function findInsertionPoint(doc: string, anchor: string | null, atSectionStart: boolean): number {
+  const footer = doc.lastIndexOf(FOOTER_SEPARATOR);
+  const fallback = footer >= 0 ? footer + 1 : doc.length;
+  
+  if (anchor === null) {
+    // Region sat above the first section: keep it there
+    const firstSection = doc.search(/^## /m);
+    return firstSection >= 0 ? firstSection : fallback;
+  }
+  
+  const lines = doc.split('\n');
+  let offset = 0;
+  let inSection = false;
+  for (const line of lines) {
+    if (inSection && (line.startsWith('## ') || (offset === fallback && footer >= 0))) {
+      return offset;
+    }
+    if (!inSection && line.trim() === anchor) {
+      if (atSectionStart) {
+        return offset + line.length + 1;
+      }
+      inSection = true;
+    }
+    offset += line.length + 1;
+  }
+  
+  return inSection ? doc.length : fallback;
+}
+
+function insertBlock(doc: string, at: number, block: string): string {
+  const before = doc.slice(0, at).replace(/\n*$/, '');
+  const after = doc.slice(at).replace(/^\n*/, '');
+  return `${before}\n\n${block}\n\n${after}`;
+}
+
+function closeRegion(region: ManualRegion): string {
+  return region.closed ? region.text : `${region.text.trimEnd()}\n${END_MARKER}`;
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { registerMcpServer } from './mcpConfig';
+
+describe('registerMcpServer', () => {
+  let projectRoot: string;
+  
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'codecontext-mcp-'));
+  });
+  
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+  
+  it('creates .mcp.json with the codecontext server', async () => {
+    const result = await registerMcpServer(projectRoot);
+    
+    expect(result.added).toBe(true);
+    expect(await fs.readJson(path.join(projectRoot, '.mcp.json'))).toEqual({
+      mcpServers: { codecontext: { command: 'codecontext', args: ['serve', '--mcp'] } }
+    });
+  });
+  
+  it('keeps other servers and an existing codecontext entry', async () => {
+    const existing = { mcpServers: { other: { command: 'other' }, codecontext: { command: 'npx', args: ['codecontext', 'serve', '--mcp'] } } };
+    await fs.writeJson(path.join(projectRoot, '.mcp.json'), existing);
+    
+    expect((await registerMcpServer(projectRoot)).added).toBe(false);
+    expect(await fs.readJson(path.join(projectRoot, '.mcp.json'))).toEqual(existing);
+  });
+  
+  it('adds itself next to other servers', async () => {
+    await fs.writeJson(path.join(projectRoot, '.mcp.json'), { mcpServers: { other: { command: 'other' } } });
+    
+    await registerMcpServer(projectRoot);
+    expect(Object.keys((await fs.readJson(path.join(projectRoot, '.mcp.json'))).mcpServers)).toEqual(['other', 'codecontext']);
+  });
+  
+  it('refuses to rewrite a file it cannot parse', async () => {
+    await fs.writeFile(path.join(projectRoot, '.mcp.json'), '{ nope');
+    
+    await expect(registerMcpServer(projectRoot)).rejects.toThrow('.mcp.json is not valid JSON');
+  });
+});
\ No newline at end of file
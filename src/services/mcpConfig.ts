@@ -0,0 +1,37 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+// Project-scoped MCP servers that Claude Code picks up when started in the project
+const MCP_CONFIG_FILE = '.mcp.json';
+const SERVER_NAME = 'codecontext';
+
+export interface McpRegistration {
+  path: string;
+  // False when a `codecontext` server was already configured and left as is
+  added: boolean;
+}
+
+/**
+ * Adds `codecontext serve --mcp` to the project's `.mcp.json`, keeping every
+ * other server. An existing `codecontext` entry is never overwritten.
+ */
+export async function registerMcpServer(projectRoot: string): Promise<McpRegistration> {
+  const configPath = path.join(projectRoot, MCP_CONFIG_FILE);
+  let config: { mcpServers?: Record<string, unknown> } = {};
+  
+  if (await fs.pathExists(configPath)) {
+    try {
+      config = await fs.readJson(configPath);
+    } catch (error) {
+      throw new Error(`${MCP_CONFIG_FILE} is not valid JSON (${error instanceof Error ? error.message : error})`);
+    }
+  }
+  
+  if (config.mcpServers?.[SERVER_NAME]) {
+    return { path: configPath, added: false };
+  }
+  
+  config.mcpServers = { ...config.mcpServers, [SERVER_NAME]: { command: 'codecontext', args: ['serve', '--mcp'] } };
+  await fs.writeJson(configPath, config, { spaces: 2 });
+  return { path: configPath, added: true };
+}
\ No newline at end of file
@@ -0,0 +1,366 @@
+import fs from 'fs-extra';
+import path from 'path';
+import readline from 'readline';
+import { CodeContextConfig, DependencyGraph } from '../types';
+import { fromProjectPath, toProjectPath } from '../utils/fileUtils';
+import { clearIgnoreRules } from '../utils/ignoreRules';
+import { clearAnalysisStore } from './analysisStore';
+import { analyzeDirectory } from './analyzer';
+import { clearApiSnapshotStore } from './apiSnapshot';
+import { generateContext } from './contextGenerator';
+import { getDirectory, getDirectoryRelations, loadDependencyGraph } from './dependencyGraph';
+import { clearOutputManifest, findDocs, getDocPath, getPrimaryDocOutput } from './outputRenderer';
+import { clearModuleResolver } from './moduleResolver';
+import { clearSearchIndex, getSearchIndex } from './searchIndex';
+
+const PROTOCOL_VERSION = '2024-11-05';
+const RESOURCE_SCHEME = 'codecontext://';
+
+// JSON-RPC 2.0 error codes
+const PARSE_ERROR = -32700;
+const INVALID_REQUEST = -32600;
+const METHOD_NOT_FOUND = -32601;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/**
+ * Raised by handlers to answer with a JSON-RPC error instead of a result.
+ */
+class RpcError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+    this.name = 'RpcError';
+  }
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, { type: string; description: string }>;
+    required?: string[];
+  };
+  run(args: Record<string, unknown>): Promise<string>;
+}
+
+export interface McpServerOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  version?: string;
+}
+
+/**
+ * Serves the project over the Model Context Protocol's stdio transport:
+ * newline-delimited JSON-RPC on stdin/stdout. Every directory doc (claude.md
+ * unless configured otherwise) is exposed as a resource, and the tools wrap context generation, search, the dependency
+ * graph, and directory analysis. Resolves when the input stream closes.
+ */
+export function startMcpServer(projectRoot: string, config: CodeContextConfig, options: McpServerOptions = {}): Promise<void> {
+  const input = options.input || process.stdin;
+  const output = options.output || process.stdout;
+  const tools = createTools(projectRoot, config);
+  // Tool calls in flight; the project's cached state is only reloaded between them
+  let activeCalls = 0;
+  
+  const send = (message: object) => {
+    output.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+  };
+  
+  const handle = async (request: JsonRpcRequest): Promise<unknown> => {
+    const params = request.params || {};
+    
+    switch (request.method) {
+      case 'initialize':
+        return {
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: { tools: {}, resources: {} },
+          serverInfo: { name: 'codecontext', version: options.version || '0.1.0' }
+        };
+      
+      case 'ping':
+        return {};
+      
+      case 'tools/list':
+        return { tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) };
+      
+      case 'tools/call': {
+        const tool = tools.find(candidate => candidate.name === params.name);
+        if (!tool) {
+          throw new RpcError(INVALID_PARAMS, `Unknown tool: ${String(params.name)}`);
+        }
+        // The server outlives edits to .gitignore and .codecontextignore
+        clearIgnoreRules(projectRoot);
+        if (activeCalls === 0) {
+          clearProjectState(projectRoot);
+        }
+        activeCalls++;
+        // Tool failures are results the model can read, not protocol errors
+        try {
+          const text = await tool.run((params.arguments || {}) as Record<string, unknown>);
+          return { content: [{ type: 'text', text }] };
+        } catch (error) {
+          return { content: [{ type: 'text', text: (error as Error).message }], isError: true };
+        } finally {
+          activeCalls--;
+        }
+      }
+      
+      case 'resources/list':
+        return { resources: await listDocResources(projectRoot, config) };
+      
+      case 'resources/read': {
+        const uri = String(params.uri || '');
+        const docPath = resolveResource(projectRoot, config, uri);
+        if (!docPath || !await fs.pathExists(docPath)) {
+          throw new RpcError(INVALID_PARAMS, `Unknown resource: ${uri}`);
+        }
+        return { contents: [{ uri, mimeType: 'text/markdown', text: await fs.readFile(docPath, 'utf-8') }] };
+      }
+      
+      default:
+        throw new RpcError(METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+    }
+  };
+  
+  const onLine = async (line: string) => {
+    if (!line.trim()) return;
+    
+    let request: JsonRpcRequest;
+    try {
+      request = JSON.parse(line);
+    } catch {
+      send({ id: null, error: { code: PARSE_ERROR, message: 'Parse error' } });
+      return;
+    }
+    
+    if (!request || typeof request.method !== 'string') {
+      send({ id: request?.id ?? null, error: { code: INVALID_REQUEST, message: 'Invalid request' } });
+      return;
+    }
+    
+    // Notifications (no id) such as notifications/initialized need no reply
+    const isNotification = request.id === undefined;
+    try {
+      const result = await handle(request);
+      if (!isNotification) send({ id: request.id, result });
+    } catch (error) {
+      if (isNotification) return;
+      const code = error instanceof RpcError ? error.code : INTERNAL_ERROR;
+      send({ id: request.id, error: { code, message: (error as Error).message } });
+    }
+  };
+  
+  return new Promise(resolve => {
+    const reader = readline.createInterface({ input, crlfDelay: Infinity });
+    const pending = new Set<Promise<void>>();
+    
+    reader.on('line', line => {
+      const task = onLine(line).finally(() => pending.delete(task));
+      pending.add(task);
+    });
+    reader.on('close', () => {
+      Promise.all(pending).then(() => resolve());
+    });
+  });
+}
+
+/**
+ * Drops the stores and resolver loaded by earlier tool calls. A CLI refresh
+ * may have rewritten .codecontext/ since, and writing stale copies back would
+ * undo it; project manifests such as tsconfig.json may have changed too.
+ */
+function clearProjectState(projectRoot: string): void {
+  clearOutputManifest(projectRoot);
+  clearAnalysisStore(projectRoot);
+  clearApiSnapshotStore(projectRoot);
+  clearSearchIndex(projectRoot);
+  clearModuleResolver(projectRoot);
+}
+
+function createTools(projectRoot: string, config: CodeContextConfig): ToolDefinition[] {
+  const maxTokensProperty = { type: 'number', description: 'Token budget for the returned context (default 8000)' };
+  
+  return [
+    {
+      name: 'get_directory_context',
+      description: 'Documentation for a directory together with the directories it imports from, its parents, and its siblings, fitted to a token budget.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: "Directory relative to the project root; '.' for the root" },
+          maxTokens: maxTokensProperty
+        },
+        required: ['path']
+      },
+      run: async args => {
+        const dirPath = resolveProjectPath(projectRoot, requireString(args, 'path'));
+        if (!await fs.pathExists(dirPath) || !(await fs.stat(dirPath)).isDirectory()) {
+          throw new Error(`Not a directory: ${args.path}`);
+        }
+        return generateContext(dirPath, config, 'standard', { projectRoot, maxTokens: optionalNumber(args, 'maxTokens') });
+      }
+    },
+    {
+      name: 'get_project_summary',
+      description: 'Project structure and a summary of every documented directory, shallowest first, fitted to a token budget.',
+      inputSchema: {
+        type: 'object',
+        properties: { maxTokens: maxTokensProperty }
+      },
+      run: args => generateContext(projectRoot, config, 'project', { projectRoot, maxTokens: optionalNumber(args, 'maxTokens') })
+    },
+    {
+      name: 'search_symbols',
+      description: 'Find functions, classes, methods and interfaces by name or description. Returns each match with its file, line, and signature.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Symbol name or words describing what it does' },
+          limit: { type: 'number', description: 'Maximum number of results (default 10)' }
+        },
+        required: ['query']
+      },
+      run: async args => {
+        const index = getSearchIndex(projectRoot);
+        if (!await index.exists()) {
+          throw new Error('No search index yet. Run refresh_path on "." or "codecontext refresh" to build it.');
+        }
+        const results = await index.search(requireString(args, 'query'), { kind: 'symbol', limit: optionalNumber(args, 'limit') });
+        if (results.length === 0) {
+          return 'No matching symbols.';
+        }
+        return results
+          .map(({ document }) => `${document.path}${document.line ? `:${document.line}` : ''} ${document.name}\n  ${document.text.split('\n').join('\n  ')}`)
+          .join('\n');
+      }
+    },
+    {
+      name: 'get_dependencies',
+      description: 'What a file or directory imports and what imports it, from the project dependency graph.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'File or directory relative to the project root' }
+        },
+        required: ['path']
+      },
+      run: async args => {
+        const graph = await loadDependencyGraph(projectRoot);
+        if (!graph) {
+          throw new Error('No dependency graph yet. Run "codecontext refresh" or "codecontext graph" to build it.');
+        }
+        const target = toProjectPath(projectRoot, resolveProjectPath(projectRoot, requireString(args, 'path')));
+        return JSON.stringify(describeDependencies(graph, target), null, 2);
+      }
+    },
+    {
+      name: 'refresh_path',
+      description: 'Re-analyze one directory and regenerate its docs, then return the new documentation. Use after editing files so later context is current.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Directory relative to the project root' }
+        },
+        required: ['path']
+      },
+      run: async args => {
+        const dirPath = resolveProjectPath(projectRoot, requireString(args, 'path'));
+        if (!await fs.pathExists(dirPath) || !(await fs.stat(dirPath)).isDirectory()) {
+          throw new Error(`Not a directory: ${args.path}`);
+        }
+        await analyzeDirectory(dirPath, config, { projectRoot });
+        return fs.readFile(getDocPath(projectRoot, dirPath, config), 'utf-8');
+      }
+    }
+  ];
+}
+
+function describeDependencies(graph: DependencyGraph, target: string): object {
+  if (graph.files.includes(target)) {
+    return {
+      file: target,
+      imports: graph.fileEdges.filter(edge => edge.from === target).map(({ to, specifiers }) => ({ path: to, specifiers })),
+      importedBy: graph.fileEdges.filter(edge => edge.to === target).map(({ from, specifiers }) => ({ path: from, specifiers })),
+      external: graph.externals[target] || [],
+      unresolved: graph.unresolved[target] || []
+    };
+  }
+  
+  const { dependsOn, usedBy } = getDirectoryRelations(graph, target);
+  const files = graph.files.filter(file => getDirectory(file) === target);
+  if (files.length === 0 && dependsOn.length === 0 && usedBy.length === 0) {
+    throw new Error(`${target} is not a source file or directory in the dependency graph`);
+  }
+  return {
+    directory: target,
+    files,
+    dependsOn,
+    usedBy,
+    external: Array.from(new Set(files.flatMap(file => graph.externals[file] || []))).sort()
+  };
+}
+
+// URIs name the source directory, so they stay the same when docs are centralized
+async function listDocResources(projectRoot: string, config: CodeContextConfig): Promise<object[]> {
+  const docName = path.basename(getPrimaryDocOutput(config).filename);
+  
+  return (await findDocs(projectRoot, config)).map(({ directory }) => {
+    const name = directory === '.' ? docName : `${directory}/${docName}`;
+    return {
+      uri: `${RESOURCE_SCHEME}${name}`,
+      name: directory === '.' ? `${docName} (project root)` : name,
+      mimeType: 'text/markdown'
+    };
+  });
+}
+
+function resolveResource(projectRoot: string, config: CodeContextConfig, uri: string): string | null {
+  const docName = path.basename(getPrimaryDocOutput(config).filename);
+  if (!uri.startsWith(RESOURCE_SCHEME) || path.posix.basename(uri) !== docName) {
+    return null;
+  }
+  try {
+    const dirPath = resolveProjectPath(projectRoot, path.posix.dirname(uri.slice(RESOURCE_SCHEME.length)));
+    return getDocPath(projectRoot, dirPath, config);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves a client-supplied project-relative path, refusing anything outside the project.
+ */
+function resolveProjectPath(projectRoot: string, projectPath: string): string {
+  const resolved = fromProjectPath(projectRoot, projectPath.replace(/^\.\/|\/$/g, '') || '.');
+  if (path.relative(projectRoot, resolved).startsWith('..') || path.isAbsolute(projectPath)) {
+    throw new Error(`Path is outside the project: ${projectPath}`);
+  }
+  return resolved;
+}
+
+function requireString(args: Record<string, unknown>, name: string): string {
+  const value = args[name];
+  if (typeof value !== 'string' || value === '') {
+    throw new Error(`"${name}" must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalNumber(args: Record<string, unknown>, name: string): number | undefined {
+  const value = args[name];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`"${name}" must be a positive integer`);
+  }
+  return value;
+}
\ No newline at end of file
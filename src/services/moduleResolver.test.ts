@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ImportInfo } from './codeParser';
+import { clearModuleResolver, getModuleResolver, ModuleResolver, resolveExportsField } from './moduleResolver';
+
+describe('resolveExportsField', () => {
+  it('reads a string or condition object as the root export', () => {
+    expect(resolveExportsField('./dist/index.js', '.')).toEqual(['./dist/index.js']);
+    expect(resolveExportsField({ default: './main.js', types: './main.d.ts' }, '.')).toEqual(['./main.d.ts', './main.js']);
+    expect(resolveExportsField('./dist/index.js', './utils')).toEqual([]);
+  });
+  
+  it('matches exact subpaths before the longest wildcard', () => {
+    const exportsField = {
+      '.': './src/index.ts',
+      './utils/*': './src/utils/*.ts',
+      './utils/special/*': { import: './special/*.mjs', require: './special/*.cjs' },
+      './package.json': './package.json'
+    };
+    expect(resolveExportsField(exportsField, './package.json')).toEqual(['./package.json']);
+    expect(resolveExportsField(exportsField, './utils/strings')).toEqual(['./src/utils/strings.ts']);
+    expect(resolveExportsField(exportsField, './utils/special/x')).toEqual(['./special/x.mjs', './special/x.cjs']);
+    expect(resolveExportsField(exportsField, './missing')).toEqual([]);
+  });
+});
+
+describe('ModuleResolver', () => {
+  let projectRoot: string;
+  
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'codecontext-resolve-'));
+  });
+  
+  afterEach(async () => {
+    await fs.remove(projectRoot);
+  });
+  
+  async function write(files: Record<string, string>) {
+    for (const [file, content] of Object.entries(files)) {
+      await fs.outputFile(path.join(projectRoot, file), content);
+    }
+  }
+  
+  function file(relative: string) {
+    return { kind: 'file', path: path.join(projectRoot, relative) };
+  }
+  
+  async function resolve(source: string, fromFile: string, specifiers: string[] = []) {
+    const resolver = await ModuleResolver.create(projectRoot);
+    const imp: ImportInfo = { source, specifiers, type: 'named' };
+    return resolver.resolveImport(imp, path.join(projectRoot, fromFile));
+  }
+  
+  describe('JavaScript and TypeScript', () => {
+    it('resolves relative paths by extension, index and ESM .js suffix', async () => {
+      await write({ 'src/a.ts': '', 'src/lib/index.ts': '', 'src/util.ts': '' });
+      
+      expect(await resolve('./a', 'src/main.ts')).toEqual([file('src/a.ts')]);
+      expect(await resolve('./lib', 'src/main.ts')).toEqual([file('src/lib/index.ts')]);
+      expect(await resolve('./util.js', 'src/main.ts')).toEqual([file('src/util.ts')]);
+      expect(await resolve('./missing', 'src/main.ts')).toEqual([{ kind: 'unresolved', specifier: './missing' }]);
+    });
+    
+    it('separates builtins from external packages', async () => {
+      expect(await resolve('node:fs', 'a.ts')).toEqual([{ kind: 'builtin', name: 'fs' }]);
+      expect(await resolve('path', 'a.ts')).toEqual([{ kind: 'builtin', name: 'path' }]);
+      expect(await resolve('lodash/fp', 'a.ts')).toEqual([{ kind: 'external', name: 'lodash' }]);
+      expect(await resolve('@scope/pkg/deep', 'a.ts')).toEqual([{ kind: 'external', name: '@scope/pkg' }]);
+    });
+    
+    it('follows tsconfig paths', async () => {
+      await write({
+        'tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@app/*': ['src/*'], '@config': ['src/config/index.ts'] } } }),
+        'src/services/api.ts': '',
+        'src/config/index.ts': ''
+      });
+      
+      expect(await resolve('@app/services/api', 'src/main.ts')).toEqual([file('src/services/api.ts')]);
+      expect(await resolve('@config', 'src/main.ts')).toEqual([file('src/config/index.ts')]);
+      // baseUrl makes bare paths inside the project resolvable too
+      expect(await resolve('src/services/api', 'src/main.ts')).toEqual([file('src/services/api.ts')]);
+    });
+    
+    it('maps workspace package exports back to their sources', async () => {
+      await write({
+        'packages/core/package.json': JSON.stringify({ name: '@acme/core', exports: { '.': './dist/index.js', './utils': './dist/utils.js' } }),
+        'packages/core/src/index.ts': '',
+        'packages/core/src/utils.ts': '',
+        'packages/core-utils/package.json': JSON.stringify({ name: '@acme/core-utils', main: 'lib/index.js' }),
+        'packages/core-utils/lib/index.js': ''
+      });
+      
+      expect(await resolve('@acme/core', 'apps/web/main.ts')).toEqual([file('packages/core/src/index.ts')]);
+      expect(await resolve('@acme/core/utils', 'apps/web/main.ts')).toEqual([file('packages/core/src/utils.ts')]);
+      expect(await resolve('@acme/core-utils', 'apps/web/main.ts')).toEqual([file('packages/core-utils/lib/index.js')]);
+    });
+  });
+  
+  it('reuses the resolver until it is cleared', async () => {
+    const fromFile = path.join(projectRoot, 'src', 'main.ts');
+    const imp: ImportInfo = { source: '@app/api', specifiers: [], type: 'named' };
+    await write({ 'src/api.ts': '' });
+    
+    const resolver = await getModuleResolver(projectRoot);
+    expect(resolver.resolveImport(imp, fromFile)).toEqual([{ kind: 'external', name: '@app/api' }]);
+    
+    await write({ 'tsconfig.json': JSON.stringify({ compilerOptions: { paths: { '@app/*': ['src/*'] } } }) });
+    expect(await getModuleResolver(projectRoot)).toBe(resolver);
+    clearModuleResolver(projectRoot);
+    expect((await getModuleResolver(projectRoot)).resolveImport(imp, fromFile)).toEqual([file('src/api.ts')]);
+    clearModuleResolver(projectRoot);
+  });
+  
+  describe('Python', () => {
+    it('resolves relative modules and packages', async () => {
+      await write({ 'app/__init__.py': '', 'app/models.py': '', 'app/api/views.py': '' });
+      
+      expect(await resolve('.models', 'app/service.py')).toEqual([file('app/models.py')]);
+      expect(await resolve('..models', 'app/api/views.py')).toEqual([file('app/models.py')]);
+      // `from . import models` names the submodule
+      expect(await resolve('.', 'app/service.py', ['models'])).toEqual([file('app/models.py')]);
+      expect(await resolve('.', 'app/service.py', ['helper'])).toEqual([file('app/__init__.py')]);
+    });
+    
+    it('resolves absolute imports from the root or src, falling back to the package', async () => {
+      await write({ 'src/core/config.py': '' });
+      
+      expect(await resolve('core.config', 'main.py')).toEqual([file('src/core/config.py')]);
+      expect(await resolve('core.config.load', 'main.py')).toEqual([file('src/core/config.py')]);
+      expect(await resolve('requests.adapters', 'main.py')).toEqual([{ kind: 'external', name: 'requests' }]);
+    });
+  });
+  
+  describe('Go', () => {
+    it('resolves module packages to their non-test files', async () => {
+      await write({
+        'go.mod': 'module github.com/acme/app\n\ngo 1.22\n',
+        'internal/store/store.go': '',
+        'internal/store/cache.go': '',
+        'internal/store/store_test.go': ''
+      });
+      
+      const results = await resolve('github.com/acme/app/internal/store', 'cmd/main.go');
+      expect(results.map(result => ('path' in result ? path.basename(result.path) : result.kind)).sort()).toEqual(['cache.go', 'store.go']);
+      expect(await resolve('github.com/acme/app/missing', 'cmd/main.go')).toEqual([{ kind: 'unresolved', specifier: 'github.com/acme/app/missing' }]);
+    });
+    
+    it('tells the standard library from other modules', async () => {
+      expect(await resolve('net/http', 'main.go')).toEqual([{ kind: 'builtin', name: 'net/http' }]);
+      expect(await resolve('github.com/x/db', 'main.go')).toEqual([{ kind: 'external', name: 'github.com/x/db' }]);
+    });
+  });
+  
+  describe('Rust', () => {
+    it('resolves crate, self and super paths that end in item names', async () => {
+      await write({
+        'Cargo.toml': '[package]\nname = "app"\n',
+        'src/lib.rs': '',
+        'src/config.rs': '',
+        'src/net/mod.rs': '',
+        'src/net/client.rs': '',
+        'src/net/client/retry.rs': ''
+      });
+      
+      expect(await resolve('crate::config::Config', 'src/lib.rs')).toEqual([file('src/config.rs')]);
+      expect(await resolve('crate::net', 'src/lib.rs')).toEqual([file('src/net/mod.rs')]);
+      expect(await resolve('self::retry::Policy', 'src/net/client.rs')).toEqual([file('src/net/client/retry.rs')]);
+      expect(await resolve('super::config', 'src/net/mod.rs')).toEqual([file('src/config.rs')]);
+    });
+    
+    it('tells built-in crates from dependencies', async () => {
+      expect(await resolve('std::collections', 'src/lib.rs')).toEqual([{ kind: 'builtin', name: 'std' }]);
+      expect(await resolve('serde::Serialize', 'src/lib.rs')).toEqual([{ kind: 'external', name: 'serde' }]);
+    });
+  });
+});
\ No newline at end of file
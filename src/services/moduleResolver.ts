@@ -0,0 +1,480 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { builtinModules } from 'module';
+import ts from 'typescript';
+import { glob } from 'glob';
+import { ImportInfo } from './codeParser';
+
+export type ResolvedModule =
+  | { kind: 'file'; path: string }
+  | { kind: 'external'; name: string }
+  | { kind: 'builtin'; name: string }
+  | { kind: 'unresolved'; specifier: string };
+
+interface WorkspacePackage {
+  name: string;
+  dir: string;
+  manifest: PackageManifest;
+}
+
+interface PackageManifest {
+  name?: string;
+  main?: string;
+  module?: string;
+  types?: string;
+  exports?: unknown;
+}
+
+interface PathMapping {
+  pattern: string;
+  targets: string[];
+}
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'];
+const EXPORT_CONDITIONS = ['types', 'import', 'require', 'node', 'default'];
+const NODE_BUILTINS = new Set(builtinModules);
+const RUST_BUILTIN_CRATES = new Set(['std', 'core', 'alloc', 'proc_macro', 'test']);
+
+const resolvers = new Map<string, Promise<ModuleResolver>>();
+
+/**
+ * Returns a resolver for the project, building it once per run since it scans
+ * the tree for tsconfig, package.json, go.mod and Cargo.toml files.
+ */
+export function getModuleResolver(projectRoot: string, ignorePatterns: string[] = []): Promise<ModuleResolver> {
+  let resolver = resolvers.get(projectRoot);
+  if (!resolver) {
+    resolver = ModuleResolver.create(projectRoot, ignorePatterns);
+    resolvers.set(projectRoot, resolver);
+  }
+  return resolver;
+}
+
+/**
+ * Forgets the resolver, so the next getModuleResolver call rescans tsconfig,
+ * package.json, go.mod and Cargo.toml files.
+ */
+export function clearModuleResolver(projectRoot: string): void {
+  resolvers.delete(projectRoot);
+}
+
+export class ModuleResolver {
+  private existsCache = new Map<string, boolean>();
+  private dirCache = new Map<string, boolean>();
+  
+  private constructor(
+    private projectRoot: string,
+    private baseUrl: string | null,
+    private pathMappings: PathMapping[],
+    private pathsBase: string,
+    private packages: WorkspacePackage[],
+    private goModules: { dir: string; module: string }[],
+    private cargoRoots: string[]
+  ) {}
+  
+  static async create(projectRoot: string, ignorePatterns: string[] = []): Promise<ModuleResolver> {
+    const ignore = ['**/node_modules/**', ...ignorePatterns];
+    const { baseUrl, mappings, pathsBase } = readTsConfigPaths(projectRoot);
+    
+    const packages: WorkspacePackage[] = [];
+    for (const manifestPath of await glob('**/package.json', { cwd: projectRoot, ignore, absolute: true })) {
+      try {
+        const manifest: PackageManifest = await fs.readJson(manifestPath);
+        if (manifest.name) {
+          packages.push({ name: manifest.name, dir: path.dirname(manifestPath), manifest });
+        }
+      } catch {
+        // Malformed manifests are not resolvable targets
+      }
+    }
+    // Longest names first so `@scope/pkg-utils` wins over `@scope/pkg`
+    packages.sort((a, b) => b.name.length - a.name.length);
+    
+    const goModules: { dir: string; module: string }[] = [];
+    for (const goModPath of await glob('**/go.mod', { cwd: projectRoot, ignore, absolute: true })) {
+      const match = (await fs.readFile(goModPath, 'utf-8')).match(/^module\s+(\S+)/m);
+      if (match) {
+        goModules.push({ dir: path.dirname(goModPath), module: match[1] });
+      }
+    }
+    goModules.sort((a, b) => b.module.length - a.module.length);
+    
+    const cargoRoots = (await glob('**/Cargo.toml', { cwd: projectRoot, ignore, absolute: true }))
+      .map(cargoPath => path.dirname(cargoPath))
+      .sort((a, b) => b.length - a.length);
+    
+    return new ModuleResolver(projectRoot, baseUrl, mappings, pathsBase, packages, goModules, cargoRoots);
+  }
+  
+  /**
+   * Resolves one parsed import to zero or more targets. Go imports name a
+   * package directory and so may resolve to several files.
+   */
+  resolveImport(imp: ImportInfo, fromFile: string): ResolvedModule[] {
+    const ext = path.extname(fromFile);
+    
+    if (ext === '.py' || ext === '.pyi') {
+      return this.resolvePython(imp, fromFile);
+    }
+    if (ext === '.go') {
+      return this.resolveGo(imp.source);
+    }
+    if (ext === '.rs') {
+      return [this.resolveRust(imp.source, fromFile)];
+    }
+    return [this.resolveJs(imp.source, fromFile)];
+  }
+  
+  private resolveJs(specifier: string, fromFile: string): ResolvedModule {
+    if (specifier.startsWith('node:') || NODE_BUILTINS.has(specifier.split('/')[0])) {
+      return { kind: 'builtin', name: specifier.replace(/^node:/, '') };
+    }
+    
+    if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+      const file = this.resolveJsFile(path.resolve(path.dirname(fromFile), specifier));
+      return file ? { kind: 'file', path: file } : { kind: 'unresolved', specifier };
+    }
+    
+    for (const mapping of this.pathMappings) {
+      const wildcard = matchPattern(mapping.pattern, specifier);
+      if (wildcard === null) continue;
+      
+      for (const target of mapping.targets) {
+        const file = this.resolveJsFile(path.resolve(this.pathsBase, target.replace('*', wildcard)));
+        if (file) return { kind: 'file', path: file };
+      }
+    }
+    
+    const workspaceFile = this.resolveWorkspacePackage(specifier);
+    if (workspaceFile) {
+      return { kind: 'file', path: workspaceFile };
+    }
+    
+    if (this.baseUrl) {
+      const file = this.resolveJsFile(path.resolve(this.baseUrl, specifier));
+      if (file) return { kind: 'file', path: file };
+    }
+    
+    return { kind: 'external', name: getPackageName(specifier) };
+  }
+  
+  /**
+   * Tries the path as written, with each known extension, as a directory
+   * index, and finally with `.js` swapped for its TypeScript source (ESM
+   * projects import `./foo.js` from `foo.ts`).
+   */
+  private resolveJsFile(candidate: string): string | null {
+    if (this.isFile(candidate)) return candidate;
+    
+    for (const ext of JS_EXTENSIONS) {
+      if (this.isFile(candidate + ext)) return candidate + ext;
+    }
+    
+    if (this.isDirectory(candidate)) {
+      const manifestPath = path.join(candidate, 'package.json');
+      if (this.isFile(manifestPath)) {
+        try {
+          const manifest: PackageManifest = fs.readJsonSync(manifestPath);
+          const entry = manifest.types || manifest.module || manifest.main;
+          if (entry) {
+            const file = this.resolveJsFile(path.resolve(candidate, entry));
+            if (file) return file;
+          }
+        } catch {
+          // Fall through to index files
+        }
+      }
+      
+      for (const ext of JS_EXTENSIONS) {
+        const index = path.join(candidate, `index${ext}`);
+        if (this.isFile(index)) return index;
+      }
+    }
+    
+    const jsMatch = candidate.match(/\.(m|c)?jsx?$/);
+    if (jsMatch) {
+      const stem = candidate.slice(0, -jsMatch[0].length);
+      for (const ext of ['.ts', '.tsx', '.mts', '.cts']) {
+        if (this.isFile(stem + ext)) return stem + ext;
+      }
+    }
+    
+    return null;
+  }
+  
+  private resolveWorkspacePackage(specifier: string): string | null {
+    const pkg = this.packages.find(p => specifier === p.name || specifier.startsWith(`${p.name}/`));
+    if (!pkg) return null;
+    
+    const subpath = specifier === pkg.name ? '.' : `.${specifier.slice(pkg.name.length)}`;
+    const targets = pkg.manifest.exports !== undefined
+      ? resolveExportsField(pkg.manifest.exports, subpath)
+      : subpath === '.'
+        ? [pkg.manifest.types, pkg.manifest.module, pkg.manifest.main, './index'].filter((t): t is string => !!t)
+        : [subpath];
+    
+    for (const target of targets) {
+      const absolute = path.resolve(pkg.dir, target);
+      const file = this.resolveJsFile(absolute) || this.resolveJsFile(mapBuildOutputToSource(pkg.dir, absolute));
+      if (file) return file;
+    }
+    
+    return null;
+  }
+  
+  private resolvePython(imp: ImportInfo, fromFile: string): ResolvedModule[] {
+    const source = imp.source;
+    
+    // `from . import models` names submodules rather than attributes
+    if (/^\.+$/.test(source)) {
+      const base = this.pythonRelativeBase(source, fromFile);
+      const results = imp.specifiers
+        .map(spec => spec.split(/\s+as\s+/)[0])
+        .map(name => this.resolvePythonModule(path.join(base, name)))
+        .filter((file): file is string => !!file)
+        .map(file => ({ kind: 'file' as const, path: file }));
+      const init = this.resolvePythonModule(base);
+      return results.length > 0 ? results : init ? [{ kind: 'file', path: init }] : [{ kind: 'unresolved', specifier: source }];
+    }
+    
+    if (source.startsWith('.')) {
+      const dots = source.match(/^\.+/)![0];
+      const base = this.pythonRelativeBase(dots, fromFile);
+      const file = this.resolvePythonModule(path.join(base, ...source.slice(dots.length).split('.')));
+      return [file ? { kind: 'file', path: file } : { kind: 'unresolved', specifier: source }];
+    }
+    
+    const parts = source.split('.');
+    const roots = [this.projectRoot, path.join(this.projectRoot, 'src'), path.dirname(fromFile)];
+    for (const root of roots) {
+      // `import a.b.c` may name a module or an attribute inside `a.b`
+      for (let length = parts.length; length > 0; length--) {
+        const file = this.resolvePythonModule(path.join(root, ...parts.slice(0, length)));
+        if (file) return [{ kind: 'file', path: file }];
+      }
+    }
+    
+    return [{ kind: 'external', name: parts[0] }];
+  }
+  
+  private pythonRelativeBase(dots: string, fromFile: string): string {
+    let base = path.dirname(fromFile);
+    for (let i = 1; i < dots.length; i++) {
+      base = path.dirname(base);
+    }
+    return base;
+  }
+  
+  private resolvePythonModule(candidate: string): string | null {
+    for (const file of [`${candidate}.py`, `${candidate}.pyi`, path.join(candidate, '__init__.py')]) {
+      if (this.isFile(file)) return file;
+    }
+    return null;
+  }
+  
+  private resolveGo(source: string): ResolvedModule[] {
+    const mod = this.goModules.find(m => source === m.module || source.startsWith(`${m.module}/`));
+    
+    if (!mod) {
+      // Standard library paths have no dot in their first element
+      return source.split('/')[0].includes('.')
+        ? [{ kind: 'external', name: source }]
+        : [{ kind: 'builtin', name: source }];
+    }
+    
+    const dir = path.join(mod.dir, ...source.slice(mod.module.length).split('/').filter(Boolean));
+    if (!this.isDirectory(dir)) {
+      return [{ kind: 'unresolved', specifier: source }];
+    }
+    
+    const files = fs.readdirSync(dir)
+      .filter(file => file.endsWith('.go') && !file.endsWith('_test.go'))
+      .map(file => ({ kind: 'file' as const, path: path.join(dir, file) }));
+    
+    return files.length > 0 ? files : [{ kind: 'unresolved', specifier: source }];
+  }
+  
+  private resolveRust(source: string, fromFile: string): ResolvedModule {
+    const segments = source.split('::');
+    const head = segments[0];
+    let base: string;
+    let consumed = 1;
+    
+    if (head === 'crate') {
+      const crateRoot = this.cargoRoots.find(root => fromFile.startsWith(root + path.sep));
+      if (!crateRoot) return { kind: 'unresolved', specifier: source };
+      base = path.join(crateRoot, 'src');
+    } else if (head === 'self' || head === 'super') {
+      base = rustModuleDir(fromFile);
+      while (segments[consumed - 1] === 'super') {
+        base = path.dirname(base);
+        if (segments[consumed] !== 'super') break;
+        consumed++;
+      }
+    } else {
+      return RUST_BUILTIN_CRATES.has(head) ? { kind: 'builtin', name: head } : { kind: 'external', name: head };
+    }
+    
+    const rest = segments.slice(consumed);
+    
+    // `use crate::a::b::Item` may end in an item name, so try the longest module path first
+    for (let length = rest.length; length > 0; length--) {
+      const modulePath = path.join(base, ...rest.slice(0, length));
+      for (const file of [`${modulePath}.rs`, path.join(modulePath, 'mod.rs')]) {
+        if (this.isFile(file)) return { kind: 'file', path: file };
+      }
+    }
+    
+    return { kind: 'unresolved', specifier: source };
+  }
+  
+  private isFile(filePath: string): boolean {
+    let exists = this.existsCache.get(filePath);
+    if (exists === undefined) {
+      try {
+        exists = fs.statSync(filePath).isFile();
+      } catch {
+        exists = false;
+      }
+      this.existsCache.set(filePath, exists);
+    }
+    return exists;
+  }
+  
+  private isDirectory(dirPath: string): boolean {
+    let exists = this.dirCache.get(dirPath);
+    if (exists === undefined) {
+      try {
+        exists = fs.statSync(dirPath).isDirectory();
+      } catch {
+        exists = false;
+      }
+      this.dirCache.set(dirPath, exists);
+    }
+    return exists;
+  }
+}
+
+function readTsConfigPaths(projectRoot: string): { baseUrl: string | null; mappings: PathMapping[]; pathsBase: string } {
+  const configPath = ['tsconfig.json', 'jsconfig.json']
+    .map(name => path.join(projectRoot, name))
+    .find(candidate => fs.pathExistsSync(candidate));
+  
+  if (!configPath) {
+    return { baseUrl: null, mappings: [], pathsBase: projectRoot };
+  }
+  
+  // The compiler API handles comments, trailing commas and `extends` chains
+  const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+  const parsed = ts.parseJsonConfigFileContent(config || {}, ts.sys, path.dirname(configPath));
+  const options = parsed.options;
+  const pathsBase = options.baseUrl || (options.pathsBasePath as string | undefined) || path.dirname(configPath);
+  
+  const mappings = Object.entries(options.paths || {})
+    .map(([pattern, targets]) => ({ pattern, targets }))
+    // Exact patterns before wildcards, longer prefixes before shorter
+    .sort((a, b) => Number(a.pattern.includes('*')) - Number(b.pattern.includes('*')) || b.pattern.length - a.pattern.length);
+  
+  return { baseUrl: options.baseUrl || null, mappings, pathsBase };
+}
+
+/**
+ * Matches a tsconfig/exports pattern with at most one `*`, returning the text
+ * captured by the wildcard ('' for exact matches) or null.
+ */
+function matchPattern(pattern: string, value: string): string | null {
+  const star = pattern.indexOf('*');
+  if (star === -1) {
+    return pattern === value ? '' : null;
+  }
+  
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+  if (value.startsWith(prefix) && value.endsWith(suffix) && value.length >= prefix.length + suffix.length) {
+    return value.slice(prefix.length, value.length - suffix.length);
+  }
+  return null;
+}
+
+/**
+ * Resolves a package.json `exports` field for a subpath ('.' or './x') to
+ * candidate targets, following nested condition objects and fallback arrays.
+ */
+export function resolveExportsField(exportsField: unknown, subpath: string): string[] {
+  if (typeof exportsField === 'string' || Array.isArray(exportsField)) {
+    return subpath === '.' ? flattenExportTarget(exportsField, '') : [];
+  }
+  
+  if (!exportsField || typeof exportsField !== 'object') {
+    return [];
+  }
+  
+  const entries = Object.entries(exportsField as Record<string, unknown>);
+  const isSubpathMap = entries.some(([key]) => key.startsWith('.'));
+  
+  if (!isSubpathMap) {
+    return subpath === '.' ? flattenExportTarget(exportsField, '') : [];
+  }
+  
+  if (subpath in (exportsField as Record<string, unknown>)) {
+    return flattenExportTarget((exportsField as Record<string, unknown>)[subpath], '');
+  }
+  
+  const patterns = entries
+    .filter(([key]) => key.includes('*'))
+    .sort(([a], [b]) => b.length - a.length);
+  
+  for (const [key, target] of patterns) {
+    const wildcard = matchPattern(key, subpath);
+    if (wildcard !== null) {
+      return flattenExportTarget(target, wildcard);
+    }
+  }
+  
+  return [];
+}
+
+function flattenExportTarget(target: unknown, wildcard: string): string[] {
+  if (typeof target === 'string') {
+    return [target.replace(/\*/g, wildcard)];
+  }
+  
+  if (Array.isArray(target)) {
+    return target.flatMap(item => flattenExportTarget(item, wildcard));
+  }
+  
+  if (target && typeof target === 'object') {
+    const conditions = target as Record<string, unknown>;
+    const ordered = [
+      ...EXPORT_CONDITIONS.filter(condition => condition in conditions),
+      ...Object.keys(conditions).filter(condition => !EXPORT_CONDITIONS.includes(condition))
+    ];
+    return ordered.flatMap(condition => flattenExportTarget(conditions[condition], wildcard));
+  }
+  
+  return [];
+}
+
+/**
+ * Workspace packages usually export built files (`dist/index.js`) that may not
+ * exist in a source checkout; map them back to the matching `src/` path.
+ */
+function mapBuildOutputToSource(packageDir: string, target: string): string {
+  const relative = path.relative(packageDir, target).split(path.sep);
+  if (['dist', 'lib', 'build', 'out'].includes(relative[0])) {
+    relative[0] = 'src';
+  }
+  return path.join(packageDir, ...relative).replace(/\.d\.ts$/, '.ts');
+}
+
+function rustModuleDir(fromFile: string): string {
+  const base = path.basename(fromFile, '.rs');
+  return ['mod', 'lib', 'main'].includes(base)
+    ? path.dirname(fromFile)
+    : path.join(path.dirname(fromFile), base);
+}
+
+function getPackageName(specifier: string): string {
+  const parts = specifier.split('/');
+  return specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
\ No newline at end of file
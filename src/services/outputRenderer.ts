@@ -0,0 +1,359 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { glob } from 'glob';
+import { CodeContextConfig, DirectoryAnalysis, OutputFormat, OutputTarget } from '../types';
+import { fromProjectPath, getCodeContextDir, toProjectPath } from '../utils/fileUtils';
+import { mergeManualRegions } from './manualRegions';
+import { markdownRenderer } from './renderers/markdown';
+import { jsonRenderer } from './renderers/json';
+import { agentsRenderer } from './renderers/agents';
+import { cursorRenderer } from './renderers/cursor';
+import { llmsTxtRenderer } from './renderers/llmsTxt';
+
+const MANIFEST_VERSION = 1;
+const MANIFEST_FILE = 'outputs.json';
+const DEFAULT_DOCS_DIR = '.codecontext/docs';
+const DOCS_INDEX_FILE = 'index.md';
+
+export interface RenderContext {
+  projectRoot: string;
+  config: CodeContextConfig;
+}
+
+/**
+ * Writes one file per analyzed directory.
+ */
+export interface DirectoryRenderer {
+  scope: 'directory';
+  format: OutputFormat;
+  defaultFilename: string;
+  // Markdown-like outputs carry hand-written manual regions over from the previous file
+  keepsManualRegions: boolean;
+  // For outputs with a fixed place of their own; the rest go where `config.docs` says
+  getOutputPath?(projectRoot: string, dirPath: string, filename: string): string;
+  render(analysis: DirectoryAnalysis, context: RenderContext): Promise<string>;
+}
+
+/**
+ * Writes one file for the whole project from every directory's summary.
+ */
+export interface ProjectRenderer {
+  scope: 'project';
+  format: OutputFormat;
+  defaultFilename: string;
+  render(directories: DirectorySummary[], context: RenderContext): Promise<string>;
+}
+
+export type OutputRenderer = DirectoryRenderer | ProjectRenderer;
+
+export interface DirectorySummary {
+  // Project-relative POSIX path; '.' for the root
+  directory: string;
+  purpose: string;
+  // Project-relative paths of the files generated for the directory, primary doc first
+  files: string[];
+}
+
+export interface ResolvedOutput<R extends OutputRenderer = OutputRenderer> {
+  renderer: R;
+  filename: string;
+}
+
+const renderers = new Map<OutputFormat, OutputRenderer>();
+const projectWrites = new Map<string, Promise<void>>();
+
+export function registerRenderer(renderer: OutputRenderer): void {
+  renderers.set(renderer.format, renderer);
+}
+
+registerRenderer(markdownRenderer);
+registerRenderer(jsonRenderer);
+registerRenderer(agentsRenderer);
+registerRenderer(cursorRenderer);
+registerRenderer(llmsTxtRenderer);
+
+/**
+ * The outputs `config.outputFormat` asks for, with default filenames filled in.
+ */
+export function resolveOutputs(config: CodeContextConfig): ResolvedOutput[] {
+  const entries = Array.isArray(config.outputFormat) ? config.outputFormat : [config.outputFormat || 'markdown'];
+  
+  return entries.map((entry: OutputFormat | OutputTarget) => {
+    const target = typeof entry === 'string' ? { format: entry } : entry;
+    const renderer = renderers.get(target.format);
+    if (!renderer) {
+      throw new Error(`Unknown output format "${target.format}". Use one of: ${Array.from(renderers.keys()).join(', ')}`);
+    }
+    return { renderer, filename: target.filename || renderer.defaultFilename };
+  });
+}
+
+/**
+ * The per-directory doc that context, status, search and the MCP server read:
+ * the first markdown or agents output. Config validation makes sure there is one.
+ */
+export function getPrimaryDocOutput(config: CodeContextConfig): ResolvedOutput<DirectoryRenderer> {
+  const primary = resolveOutputs(config).find(output => output.renderer.format === 'markdown' || output.renderer.format === 'agents');
+  if (!primary) {
+    throw new Error('outputFormat has no markdown or agents output to read docs from');
+  }
+  return primary as ResolvedOutput<DirectoryRenderer>;
+}
+
+export function getDocPath(projectRoot: string, dirPath: string, config: CodeContextConfig): string {
+  return getOutputPath(projectRoot, dirPath, getPrimaryDocOutput(config), config);
+}
+
+/**
+ * Root of the mirrored docs tree when docs are centralized, otherwise null.
+ */
+export function getCentralDocsDir(projectRoot: string, config: CodeContextConfig): string | null {
+  if (config.docs?.location !== 'central') {
+    return null;
+  }
+  return path.join(projectRoot, ...(config.docs.directory || DEFAULT_DOCS_DIR).split('/'));
+}
+
+function getOutputPath(projectRoot: string, dirPath: string, output: ResolvedOutput<DirectoryRenderer>, config: CodeContextConfig): string {
+  if (output.renderer.getOutputPath) {
+    return output.renderer.getOutputPath(projectRoot, dirPath, output.filename);
+  }
+  const docsDir = getCentralDocsDir(projectRoot, config);
+  // A folder per directory rather than `<dir>.md`, so every configured output keeps its own filename
+  const baseDir = docsDir ? fromProjectPath(docsDir, toProjectPath(projectRoot, dirPath)) : dirPath;
+  return path.join(baseDir, output.filename);
+}
+
+/**
+ * Every primary doc on disk, by directory. Ignores node_modules and .git plus
+ * `extraIgnores` only, so docs left in directories that are no longer analyzed
+ * are found too.
+ */
+export async function findDocs(
+  projectRoot: string,
+  config: CodeContextConfig,
+  extraIgnores: string[] = []
+): Promise<{ directory: string; path: string }[]> {
+  const { filename } = getPrimaryDocOutput(config);
+  // Central docs mirror the tree, so their path inside the docs directory names the source directory
+  const searchRoot = getCentralDocsDir(projectRoot, config) || projectRoot;
+  const docs = await glob(`**/${filename}`, {
+    cwd: searchRoot,
+    ignore: ['**/node_modules/**', '**/.git/**', ...extraIgnores]
+  });
+  
+  return docs
+    .map(doc => {
+      const docPath = path.join(searchRoot, doc);
+      return { directory: toProjectPath(searchRoot, path.dirname(docPath)), path: docPath };
+    })
+    .sort((a, b) => a.directory.localeCompare(b.directory));
+}
+
+/**
+ * Names of the files CodeContext writes into analyzed directories (llms.txt
+ * included, for the root), which are neither analyzed nor part of the source hash.
+ */
+export function getGeneratedFilenames(config: CodeContextConfig): string[] {
+  const names = resolveOutputs(config)
+    .map(output => output.filename)
+    .filter(filename => !filename.includes('/'));
+  return Array.from(new Set([...names, markdownRenderer.defaultFilename]));
+}
+
+/**
+ * Renders and writes every per-directory output for `analysis`, then records
+ * the directory for project-level outputs, which writeProjectOutputs rebuilds.
+ * Returns the primary doc as written.
+ */
+export async function writeDirectoryOutputs(
+  projectRoot: string,
+  analysis: DirectoryAnalysis,
+  config: CodeContextConfig
+): Promise<string> {
+  const context: RenderContext = { projectRoot, config };
+  const primary = getPrimaryDocOutput(config);
+  const files: string[] = [];
+  let primaryDoc = '';
+  
+  for (const { renderer, filename } of resolveOutputs(config)) {
+    if (renderer.scope !== 'directory') continue;
+    
+    const outputPath = getOutputPath(projectRoot, analysis.path, { renderer, filename }, config);
+    let content = await renderer.render(analysis, context);
+    if (renderer.keepsManualRegions && await fs.pathExists(outputPath)) {
+      content = mergeManualRegions(await fs.readFile(outputPath, 'utf-8'), content);
+    }
+    await fs.outputFile(outputPath, content);
+    
+    if (renderer === primary.renderer && filename === primary.filename) {
+      primaryDoc = content;
+      files.unshift(toProjectPath(projectRoot, outputPath));
+    } else {
+      files.push(toProjectPath(projectRoot, outputPath));
+    }
+  }
+  
+  const manifest = getOutputManifest(projectRoot);
+  await manifest.setDirectory({ directory: toProjectPath(projectRoot, analysis.path), purpose: analysis.purpose, files });
+  
+  return primaryDoc;
+}
+
+/**
+ * Regenerates project-level outputs such as llms.txt, and the index of a
+ * central docs directory, from the recorded directory summaries.
+ */
+export function writeProjectOutputs(projectRoot: string, config: CodeContextConfig): Promise<void> {
+  // One write at a time per project, so concurrent refreshes never interleave
+  const previous = projectWrites.get(projectRoot) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(() => renderProjectOutputs(projectRoot, config));
+  projectWrites.set(projectRoot, next);
+  return next;
+}
+
+async function renderProjectOutputs(projectRoot: string, config: CodeContextConfig): Promise<void> {
+  const outputs = resolveOutputs(config).filter(
+    (output): output is ResolvedOutput<ProjectRenderer> => output.renderer.scope === 'project'
+  );
+  const docsDir = getCentralDocsDir(projectRoot, config);
+  if (outputs.length === 0 && !docsDir) {
+    return;
+  }
+  
+  const directories = await getOutputManifest(projectRoot).getDirectories();
+  for (const { renderer, filename } of outputs) {
+    await fs.outputFile(path.join(projectRoot, filename), await renderer.render(directories, { projectRoot, config }));
+  }
+  if (docsDir) {
+    await fs.outputFile(path.join(docsDir, DOCS_INDEX_FILE), renderDocsIndex(projectRoot, docsDir, directories));
+  }
+}
+
+/**
+ * Drops directories that are no longer analyzed from the project-level outputs.
+ */
+export async function retainOutputDirectories(projectRoot: string, dirs: string[], config: CodeContextConfig): Promise<void> {
+  await getOutputManifest(projectRoot).retain(dirs);
+  await writeProjectOutputs(projectRoot, config);
+}
+
+/**
+ * Deletes every per-directory output written for `dirPath`, then the
+ * directory holding them if nothing else is left in it. Project-level outputs
+ * are rebuilt by the next retainOutputDirectories call.
+ */
+export async function removeDirectoryOutputs(projectRoot: string, dirPath: string, config: CodeContextConfig): Promise<void> {
+  for (const { renderer, filename } of resolveOutputs(config)) {
+    if (renderer.scope !== 'directory') continue;
+    await fs.remove(getOutputPath(projectRoot, dirPath, { renderer, filename }, config));
+  }
+  
+  const docsDir = getCentralDocsDir(projectRoot, config);
+  const outputDir = docsDir ? fromProjectPath(docsDir, toProjectPath(projectRoot, dirPath)) : dirPath;
+  if (outputDir !== projectRoot && await fs.pathExists(outputDir) && (await fs.readdir(outputDir)).length === 0) {
+    await fs.remove(outputDir);
+  }
+}
+
+/**
+ * Entry point of a central docs directory: every directory's purpose, linked
+ * to its doc, in tree order.
+ */
+function renderDocsIndex(projectRoot: string, docsDir: string, directories: DirectorySummary[]): string {
+  const lines = [
+    `# ${path.basename(projectRoot)} Documentation Index`,
+    '',
+    `*Generated by CodeContext on ${new Date().toISOString()}*`,
+    ''
+  ];
+  
+  for (const summary of directories) {
+    const name = summary.directory === '.' ? 'Project root' : summary.directory;
+    const purpose = summary.purpose.split('\n')[0].trim();
+    if (summary.files.length === 0) {
+      lines.push(`- ${name}: ${purpose}`);
+      continue;
+    }
+    const link = path.relative(docsDir, fromProjectPath(projectRoot, summary.files[0])).split(path.sep).join('/');
+    lines.push(`- [${name}](${link}): ${purpose}`);
+  }
+  
+  return `${lines.join('\n')}\n`;
+}
+
+interface ManifestData {
+  version: number;
+  directories: Record<string, DirectorySummary>;
+}
+
+const manifests = new Map<string, OutputManifest>();
+
+function getOutputManifest(projectRoot: string): OutputManifest {
+  let manifest = manifests.get(projectRoot);
+  if (!manifest) {
+    manifest = new OutputManifest(projectRoot);
+    manifests.set(projectRoot, manifest);
+  }
+  return manifest;
+}
+
+/**
+ * Forgets the loaded manifest, so the next write re-reads outputs.json,
+ * including changes another process made to it.
+ */
+export function clearOutputManifest(projectRoot: string): void {
+  manifests.delete(projectRoot);
+}
+
+/**
+ * What was generated for each directory, kept in `.codecontext/outputs.json`
+ * so project-level outputs can be rebuilt after refreshing a single directory.
+ */
+class OutputManifest {
+  private data: Promise<ManifestData> | null = null;
+  // Writes are chained so parallel directory updates never interleave
+  private saving: Promise<void> = Promise.resolve();
+  
+  constructor(private projectRoot: string) {}
+  
+  async getDirectories(): Promise<DirectorySummary[]> {
+    const data = await this.load();
+    return Object.values(data.directories).sort((a, b) => a.directory.localeCompare(b.directory));
+  }
+  
+  async setDirectory(summary: DirectorySummary): Promise<void> {
+    (await this.load()).directories[summary.directory] = summary;
+    await this.save();
+  }
+  
+  async retain(dirs: string[]): Promise<void> {
+    const data = await this.load();
+    const keep = new Set(dirs);
+    for (const dir of Object.keys(data.directories)) {
+      if (!keep.has(dir)) delete data.directories[dir];
+    }
+    await this.save();
+  }
+  
+  private load(): Promise<ManifestData> {
+    if (!this.data) {
+      this.data = fs.readJson(this.manifestPath())
+        .then((data: ManifestData) => data.version === MANIFEST_VERSION ? data : null)
+        .catch(() => null)
+        .then(data => data || { version: MANIFEST_VERSION, directories: {} });
+    }
+    return this.data;
+  }
+  
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      await fs.outputJson(this.manifestPath(), await this.load(), { spaces: 2 });
+    });
+    return this.saving;
+  }
+  
+  private manifestPath(): string {
+    return path.join(getCodeContextDir(this.projectRoot), MANIFEST_FILE);
+  }
+}
\ No newline at end of file
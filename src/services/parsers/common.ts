@@ -0,0 +1,252 @@
+import { ParsedFile, ParameterInfo, SourceSpan } from '../codeParser';
+
+export function createEmptyParsedFile(): ParsedFile {
+  return {
+    imports: [],
+    exports: [],
+    functions: [],
+    classes: [],
+    interfaces: [],
+    mainPurpose: ''
+  };
+}
+
+/**
+ * Renders a function or method signature such as `name<T>(a: string, b?: number): void`.
+ */
+export function formatSignature(
+  name: string,
+  params: ParameterInfo[],
+  returnType?: string,
+  typeParameters?: string[]
+): string {
+  const generics = typeParameters && typeParameters.length > 0 ? `<${typeParameters.join(', ')}>` : '';
+  const returns = returnType ? `: ${returnType}` : '';
+  return `${name}${generics}(${formatParams(params)})${returns}`;
+}
+
+export function formatParams(params: ParameterInfo[]): string {
+  return params
+    .map(p => `${p.rest ? '...' : ''}${p.name}${p.optional ? '?' : ''}${p.type ? `: ${p.type}` : ''}`)
+    .join(', ');
+}
+
+export interface MaskOptions {
+  lineComments: string[];
+  blockComments?: boolean;
+  nestedBlockComments?: boolean;
+  quotes: string[];
+  tripleQuotes?: boolean;
+  rawStrings?: boolean;
+  charLiterals?: boolean;
+}
+
+/**
+ * Blanks out comments and the contents of string literals while keeping every
+ * offset intact, so structural scanning (brace matching, keyword regexes) can
+ * run on the masked text and names can still be sliced from the original.
+ * Quote characters themselves are kept so string positions remain visible.
+ */
+export function maskSource(content: string, options: MaskOptions): string {
+  const out = content.split('');
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to && i < out.length; i++) {
+      if (out[i] !== '\n') out[i] = ' ';
+    }
+  };
+  
+  let i = 0;
+  while (i < content.length) {
+    const lineComment = options.lineComments.find(marker => content.startsWith(marker, i));
+    if (lineComment) {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? content.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+    
+    if (options.blockComments && content.startsWith('/*', i)) {
+      let depth = 1;
+      let j = i + 2;
+      while (j < content.length && depth > 0) {
+        if (options.nestedBlockComments && content.startsWith('/*', j)) {
+          depth++;
+          j += 2;
+        } else if (content.startsWith('*/', j)) {
+          depth--;
+          j += 2;
+        } else {
+          j++;
+        }
+      }
+      blank(i, j);
+      i = j;
+      continue;
+    }
+    
+    // Rust raw strings: r"..." / r#"..."#
+    if (options.rawStrings && content[i] === 'r' && /^r#*"/.test(content.slice(i, i + 10)) && !/\w/.test(content[i - 1] || '')) {
+      const hashes = content.slice(i + 1).match(/^#*/)![0];
+      const close = '"' + hashes;
+      const start = i + 2 + hashes.length;
+      const end = content.indexOf(close, start);
+      const stop = end === -1 ? content.length : end;
+      blank(start, stop);
+      i = stop + close.length;
+      continue;
+    }
+    
+    // Rust char literals; a lone quote is a lifetime and is left alone
+    if (options.charLiterals && content[i] === "'") {
+      const literal = content.slice(i, i + 12).match(/^'(\\[^']*|[^\\'])'/);
+      if (literal) {
+        blank(i + 1, i + literal[0].length - 1);
+        i += literal[0].length;
+        continue;
+      }
+      i++;
+      continue;
+    }
+    
+    const ch = content[i];
+    if (options.quotes.includes(ch)) {
+      const triple = options.tripleQuotes && content.startsWith(ch.repeat(3), i);
+      const delimiter = triple ? ch.repeat(3) : ch;
+      let j = i + delimiter.length;
+      while (j < content.length && !content.startsWith(delimiter, j)) {
+        // Single-quoted literals never span lines except in languages with raw/backtick strings
+        if (!triple && ch !== '`' && content[j] === '\n') break;
+        j += content[j] === '\\' && ch !== '`' ? 2 : 1;
+      }
+      blank(i + delimiter.length, j);
+      i = j + delimiter.length;
+      continue;
+    }
+    
+    i++;
+  }
+  
+  return out.join('');
+}
+
+/**
+ * Maps string offsets to 1-based line/column positions.
+ */
+export class LineIndex {
+  private lineStarts: number[] = [0];
+  
+  constructor(content: string) {
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+  
+  positionAt(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - this.lineStarts[low] + 1 };
+  }
+  
+  span(start: number, end: number): SourceSpan {
+    return { start: this.positionAt(start), end: this.positionAt(end) };
+  }
+}
+
+const OPENERS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS = new Set(Object.values(OPENERS));
+
+/**
+ * Returns the offset of the bracket that closes the one at `openIndex`, or the
+ * end of the text when it is unbalanced. Expects masked text.
+ */
+export function findClosingBracket(masked: string, openIndex: number): number {
+  const stack: string[] = [];
+  for (let i = openIndex; i < masked.length; i++) {
+    const ch = masked[i];
+    if (OPENERS[ch]) {
+      stack.push(OPENERS[ch]);
+    } else if (CLOSERS.has(ch)) {
+      stack.pop();
+      if (stack.length === 0) return i;
+    }
+  }
+  return masked.length;
+}
+
+/**
+ * Splits a comma-separated list that is not nested inside brackets. When
+ * `masked` is given, split points are found there and text is taken from
+ * `text`, so commas inside string literals are never treated as separators.
+ */
+export function splitTopLevel(text: string, masked: string = text, angleBrackets: boolean = true): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  
+  for (let i = 0; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === '(' || ch === '[' || ch === '{' || (angleBrackets && ch === '<')) {
+      depth++;
+    } else if (ch === ')' || ch === ']' || ch === '}' || (angleBrackets && ch === '>' && masked[i - 1] !== '-' && masked[i - 1] !== '=')) {
+      depth = Math.max(0, depth - 1);
+    } else if (ch === ',' && depth === 0) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  
+  parts.push(text.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean);
+}
+
+/**
+ * Like findClosingBracket, but for `<...>` generic lists, ignoring `->` and `=>`.
+ */
+export function findClosingAngle(masked: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < masked.length; i++) {
+    const ch = masked[i];
+    if (ch === '<') {
+      depth++;
+    } else if (ch === '>' && masked[i - 1] !== '-' && masked[i - 1] !== '=') {
+      depth--;
+      if (depth === 0) return i;
+    } else if (ch === '{' || ch === ';') {
+      break;
+    }
+  }
+  return masked.length;
+}
+
+/**
+ * Collects the run of comment lines immediately above `lineNumber` (1-based)
+ * that start with `marker`, e.g. `///` for Rust or `//` for Go. Lines matching
+ * `skip` (such as attributes) may sit between the comment and the item.
+ */
+export function getLeadingComment(
+  lines: string[],
+  lineNumber: number,
+  marker: string,
+  skip?: RegExp
+): string | undefined {
+  const collected: string[] = [];
+  for (let i = lineNumber - 2; i >= 0; i--) {
+    const trimmed = lines[i].trim();
+    if (skip && skip.test(trimmed) && collected.length === 0) continue;
+    if (!trimmed.startsWith(marker)) break;
+    collected.unshift(trimmed.slice(marker.length).trim());
+  }
+  const text = collected.join(' ').trim();
+  return text || undefined;
+}
\ No newline at end of file
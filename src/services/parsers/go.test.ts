@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import { goParser } from './go';
+
+const source = `package store
+
+import (
+	"fmt"
+	db "github.com/x/db"
+)
+
+// Get returns a value.
+func Get(key string, opts ...Option) (string, error) { return "", nil }
+
+func private() {}
+
+func (s *Store) Put(key string, v []byte) error { return nil }
+
+type Store struct {
+	Name string
+	count int
+}
+
+type Reader interface {
+	Read(p []byte) (n int, err error)
+}
+`;
+
+describe('goParser', () => {
+  const parsed = goParser.parse(source, '/project/store/store.go');
+  
+  it('reads grouped and aliased imports', () => {
+    expect(parsed.imports.map(({ source, specifiers }) => [source, specifiers])).toEqual([
+      ['fmt', ['fmt']],
+      ['github.com/x/db', ['db']]
+    ]);
+  });
+  
+  it('exports capitalized names', () => {
+    expect(parsed.exports.map(({ name, type }) => [name, type])).toEqual([
+      ['Get', 'function'],
+      ['Store', 'class'],
+      ['Reader', 'interface']
+    ]);
+    expect(parsed.functions.find(fn => fn.name === 'private')?.isExported).toBe(false);
+  });
+  
+  it('reads variadic params, multiple results and doc comments', () => {
+    expect(parsed.functions[0]).toMatchObject({
+      name: 'Get',
+      params: [
+        { name: 'key', type: 'string', optional: false, rest: false },
+        { name: 'opts', type: '...Option', optional: false, rest: true }
+      ],
+      returnType: '(string, error)',
+      description: 'Get returns a value.'
+    });
+  });
+  
+  it('attaches methods to their receiver struct', () => {
+    const [store] = parsed.classes;
+    expect(store.methods).toEqual(['Put']);
+    expect(store.members?.map(({ name, kind, visibility }) => [name, kind, visibility])).toEqual([
+      ['Name', 'property', 'public'],
+      ['count', 'property', 'private'],
+      ['Put', 'method', 'public']
+    ]);
+    // Methods are not package-level functions
+    expect(parsed.functions.map(fn => fn.name)).not.toContain('Put');
+  });
+  
+  it('reads interface methods', () => {
+    expect(parsed.interfaces[0].members).toEqual([
+      { name: 'Read', type: 'func(p: []byte): (n int, err error)', optional: false, readonly: false, isMethod: true }
+    ]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,459 @@
+import {
+  LanguageParser,
+  ParsedFile,
+  ParameterInfo,
+  ClassInfo,
+  ClassMemberInfo,
+  InterfaceMemberInfo,
+  ExportInfo
+} from '../codeParser';
+import {
+  createEmptyParsedFile,
+  formatSignature,
+  maskSource,
+  findClosingBracket,
+  splitTopLevel,
+  getLeadingComment,
+  LineIndex
+} from './common';
+
+export const goParser: LanguageParser = {
+  name: 'go',
+  extensions: ['.go'],
+  parse(content: string, _filePath: string): ParsedFile {
+    return new GoScanner(content).scan();
+  }
+};
+
+interface PendingMethod {
+  receiver: string;
+  member: ClassMemberInfo;
+  description?: string;
+}
+
+class GoScanner {
+  private masked: string;
+  private lines: string[];
+  private index: LineIndex;
+  private result = createEmptyParsedFile();
+  private methods: PendingMethod[] = [];
+  
+  constructor(private content: string) {
+    this.masked = maskSource(content, {
+      lineComments: ['//'],
+      blockComments: true,
+      quotes: ['"', "'", '`']
+    });
+    this.lines = content.split('\n');
+    this.index = new LineIndex(content);
+  }
+  
+  scan(): ParsedFile {
+    // Only declarations at brace depth 0 are package-level
+    const declaration = /^(import|func|type|var|const)\b/gm;
+    let match;
+    
+    while ((match = declaration.exec(this.masked)) !== null) {
+      const offset = match.index;
+      let end: number;
+      
+      switch (match[1]) {
+        case 'import':
+          end = this.scanImport(offset + match[0].length);
+          break;
+        case 'func':
+          end = this.scanFunc(offset);
+          break;
+        case 'type':
+          end = this.scanGroup(offset + match[0].length, start => this.scanTypeSpec(start, offset));
+          break;
+        default:
+          end = this.scanGroup(offset + match[0].length, start => this.scanValueSpec(start));
+      }
+      
+      declaration.lastIndex = Math.max(end, offset + match[0].length);
+    }
+    
+    this.attachMethods();
+    return this.result;
+  }
+  
+  private skipSpace(offset: number): number {
+    while (offset < this.masked.length && /[ \t]/.test(this.masked[offset])) offset++;
+    return offset;
+  }
+  
+  private lineEnd(offset: number): number {
+    const end = this.masked.indexOf('\n', offset);
+    return end === -1 ? this.masked.length : end;
+  }
+  
+  /**
+   * Handles both `keyword spec` and `keyword ( spec; spec )` forms, calling
+   * `scanSpec` for each spec and returning the offset after the declaration.
+   */
+  private scanGroup(offset: number, scanSpec: (start: number) => number): number {
+    const start = this.skipSpace(offset);
+    
+    if (this.masked[start] !== '(') {
+      return scanSpec(start);
+    }
+    
+    const close = findClosingBracket(this.masked, start);
+    let cursor = start + 1;
+    while (cursor < close) {
+      const next = this.masked.slice(cursor, close).search(/\S/);
+      if (next === -1) break;
+      cursor = Math.min(scanSpec(cursor + next), close);
+      cursor = Math.max(cursor, this.lineEnd(cursor));
+    }
+    return close + 1;
+  }
+  
+  private scanImport(offset: number): number {
+    return this.scanGroup(offset, start => {
+      const end = this.lineEnd(start);
+      const spec = this.content.slice(start, end).replace(/;.*$/, '').trim();
+      const match = spec.match(/^(?:([\w.]+)\s+)?"([^"]+)"/);
+      
+      if (match) {
+        const [, alias, source] = match;
+        const span = this.index.span(start, end);
+        
+        if (alias === '_') {
+          this.result.imports.push({ source, specifiers: [], type: 'side-effect', span });
+        } else {
+          this.result.imports.push({
+            source,
+            specifiers: [alias || source.split('/').pop() || source],
+            type: 'namespace',
+            span
+          });
+        }
+      }
+      return end;
+    });
+  }
+  
+  private scanFunc(offset: number): number {
+    let cursor = this.skipSpace(offset + 'func'.length);
+    let receiver: string | undefined;
+    
+    if (this.masked[cursor] === '(') {
+      const close = findClosingBracket(this.masked, cursor);
+      receiver = this.content.slice(cursor + 1, close).trim();
+      cursor = this.skipSpace(close + 1);
+    }
+    
+    const nameMatch = /^\w+/.exec(this.masked.slice(cursor, cursor + 200));
+    if (!nameMatch) return this.lineEnd(offset);
+    
+    const name = nameMatch[0];
+    cursor += name.length;
+    
+    let typeParameters: string[] | undefined;
+    if (this.masked[cursor] === '[') {
+      const close = findClosingBracket(this.masked, cursor);
+      typeParameters = splitTopLevel(this.content.slice(cursor + 1, close), this.masked.slice(cursor + 1, close));
+      cursor = close + 1;
+    }
+    
+    if (this.masked[cursor] !== '(') return this.lineEnd(offset);
+    
+    const paramsClose = findClosingBracket(this.masked, cursor);
+    const params = this.parseParams(cursor + 1, paramsClose);
+    
+    // Results run until the body brace, or end of line for bodyless declarations
+    let resultsEnd = paramsClose + 1;
+    let depth = 0;
+    while (resultsEnd < this.masked.length) {
+      const ch = this.masked[resultsEnd];
+      if (ch === '(' || ch === '[') depth++;
+      else if (ch === ')' || ch === ']') depth--;
+      else if (depth === 0 && (ch === '{' || ch === '\n')) break;
+      resultsEnd++;
+    }
+    
+    const results = this.content.slice(paramsClose + 1, resultsEnd).trim().replace(/\s+/g, ' ');
+    const end = this.masked[resultsEnd] === '{' ? findClosingBracket(this.masked, resultsEnd) + 1 : resultsEnd;
+    const span = this.index.span(offset, end);
+    const description = getLeadingComment(this.lines, span.start.line, '//');
+    
+    if (receiver) {
+      const receiverType = receiver.split(/\s+/).pop() || receiver;
+      this.methods.push({
+        receiver: receiverType.replace(/^\*/, '').replace(/\[.*\]$/, ''),
+        description,
+        member: {
+          name,
+          kind: 'method',
+          visibility: isExportedName(name) ? 'public' : 'private',
+          isStatic: false,
+          isAsync: false,
+          isAbstract: false,
+          isReadonly: false,
+          params,
+          returnType: results || undefined,
+          decorators: [],
+          span
+        }
+      });
+    } else {
+      this.result.functions.push({
+        name,
+        params,
+        returnType: results || undefined,
+        typeParameters,
+        isAsync: false,
+        isExported: isExportedName(name),
+        description,
+        span
+      });
+      this.addExport(name, 'function', span);
+    }
+    
+    return end;
+  }
+  
+  /**
+   * Go groups parameter names that share a type (`a, b int`), and a list is
+   * either fully named or fully unnamed (`func(int, string)`).
+   */
+  private parseParams(start: number, end: number): ParameterInfo[] {
+    const parts = splitTopLevel(this.content.slice(start, end), this.masked.slice(start, end));
+    const named = parts.some(p => /^\w+\s+\S/.test(p));
+    const params: ParameterInfo[] = [];
+    
+    if (!named) {
+      return parts.map(type => ({ name: '_', type, optional: false, rest: type.startsWith('...') }));
+    }
+    
+    let pending: string[] = [];
+    for (const part of parts) {
+      const match = part.match(/^(\w+)\s+([\s\S]+)$/);
+      if (!match) {
+        pending.push(part);
+        continue;
+      }
+      
+      const type = match[2].trim().replace(/\s+/g, ' ');
+      for (const name of [...pending, match[1]]) {
+        params.push({ name, type, optional: false, rest: type.startsWith('...') });
+      }
+      pending = [];
+    }
+    
+    return params;
+  }
+  
+  private scanTypeSpec(start: number, declarationStart: number): number {
+    const match = /^(\w+)\s*/.exec(this.masked.slice(start, start + 200));
+    if (!match) return this.lineEnd(start);
+    
+    const name = match[1];
+    let cursor = start + match[0].length;
+    let typeParameters: string[] | undefined;
+    
+    // `type List[T any] struct` vs. `type Names []string`
+    if (this.masked[cursor] === '[' && this.masked[cursor + 1] !== ']') {
+      const close = findClosingBracket(this.masked, cursor);
+      typeParameters = splitTopLevel(this.content.slice(cursor + 1, close), this.masked.slice(cursor + 1, close));
+      cursor = this.skipSpace(close + 1);
+    }
+    
+    const kindMatch = /^(struct|interface)\s*\{/.exec(this.masked.slice(cursor, cursor + 50));
+    const specStart = start === this.skipSpace(declarationStart + 'type'.length) ? declarationStart : start;
+    
+    if (!kindMatch) {
+      const end = this.lineEnd(cursor);
+      this.addExport(name, 'type', this.index.span(specStart, end));
+      return end;
+    }
+    
+    const open = cursor + kindMatch[0].length - 1;
+    const close = findClosingBracket(this.masked, open);
+    const span = this.index.span(specStart, close + 1);
+    
+    if (kindMatch[1] === 'struct') {
+      const info: ClassInfo = {
+        name,
+        methods: [],
+        members: this.parseStructFields(open + 1, close),
+        implements: [],
+        typeParameters,
+        decorators: [],
+        isExported: isExportedName(name),
+        span
+      };
+      this.result.classes.push(info);
+      this.addExport(name, 'class', span);
+    } else {
+      const { members, embedded } = this.parseInterfaceBody(open + 1, close);
+      this.result.interfaces.push({
+        name,
+        properties: members.map(m => m.name),
+        members,
+        extends: embedded,
+        typeParameters,
+        isExported: isExportedName(name),
+        span
+      });
+      this.addExport(name, 'interface', span);
+    }
+    
+    return close + 1;
+  }
+  
+  private parseStructFields(start: number, end: number): ClassMemberInfo[] {
+    const fields: ClassMemberInfo[] = [];
+    
+    for (const { text, offset } of this.bodyLines(start, end)) {
+      // Drop struct tags
+      const declaration = text.replace(/`[^`]*`\s*$/, '').trim();
+      const match = declaration.match(/^(\w+(?:\s*,\s*\w+)*)\s+(\S[\s\S]*)$/);
+      // Embedded fields (`*pkg.Type`) are named after their type
+      const names = match
+        ? match[1].split(',').map(n => n.trim())
+        : [declaration.replace(/^\*/, '').split('.').pop() || declaration];
+      const type = match ? match[2].trim() : declaration;
+      
+      for (const name of names) {
+        fields.push({
+          name,
+          kind: 'property',
+          visibility: isExportedName(name) ? 'public' : 'private',
+          isStatic: false,
+          isAsync: false,
+          isAbstract: false,
+          isReadonly: false,
+          type,
+          decorators: [],
+          span: this.index.span(offset, offset + text.length)
+        });
+      }
+    }
+    
+    return fields;
+  }
+  
+  private parseInterfaceBody(start: number, end: number): { members: InterfaceMemberInfo[]; embedded: string[] } {
+    const members: InterfaceMemberInfo[] = [];
+    const embedded: string[] = [];
+    
+    for (const { text, offset } of this.bodyLines(start, end)) {
+      const method = text.match(/^(\w+)\s*\(/);
+      if (method) {
+        const open = offset + text.indexOf('(');
+        const close = findClosingBracket(this.masked, open);
+        const results = this.content.slice(close + 1, offset + text.length).trim();
+        members.push({
+          name: method[1],
+          type: formatSignature('func', this.parseParams(open + 1, close), results || undefined),
+          optional: false,
+          readonly: false,
+          isMethod: true
+        });
+      } else if (!/[|~]/.test(text)) {
+        // Embedded interfaces; type-set constraints (~int | ~string) are skipped
+        embedded.push(text);
+      }
+    }
+    
+    return { members, embedded };
+  }
+  
+  /**
+   * Non-empty logical lines between two offsets, split on newlines and `;`.
+   */
+  private bodyLines(start: number, end: number): { text: string; offset: number }[] {
+    const result: { text: string; offset: number }[] = [];
+    let cursor = start;
+    
+    while (cursor < end) {
+      let stop = cursor;
+      let depth = 0;
+      while (stop < end) {
+        const ch = this.masked[stop];
+        if (ch === '(' || ch === '[' || ch === '{') depth++;
+        else if (ch === ')' || ch === ']' || ch === '}') depth--;
+        else if (depth === 0 && (ch === '\n' || ch === ';')) break;
+        stop++;
+      }
+      
+      const raw = this.content.slice(cursor, stop);
+      const maskedRaw = this.masked.slice(cursor, stop);
+      const leading = maskedRaw.length - maskedRaw.trimStart().length;
+      const text = raw.slice(leading, leading + maskedRaw.trim().length);
+      if (text) {
+        result.push({ text, offset: cursor + leading });
+      }
+      cursor = stop + 1;
+    }
+    
+    return result;
+  }
+  
+  private scanValueSpec(start: number): number {
+    const end = this.lineEnd(start);
+    const names = this.masked.slice(start, end).match(/^([\w\s,]+?)(?:\s+[^=\s][^=]*)?(?:=|$)/);
+    
+    if (names) {
+      for (const name of names[1].split(',').map(n => n.trim()).filter(Boolean)) {
+        this.addExport(name, 'variable', this.index.span(start, end));
+      }
+    }
+    
+    // Multi-line initializers (composite literals, func literals)
+    let depth = 0;
+    for (let i = start; i < this.masked.length; i++) {
+      const ch = this.masked[i];
+      if (ch === '(' || ch === '[' || ch === '{') depth++;
+      else if (ch === ')' || ch === ']' || ch === '}') {
+        if (depth === 0) return i;
+        depth--;
+      } else if (ch === '\n' && depth === 0) {
+        return i;
+      }
+    }
+    return this.masked.length;
+  }
+  
+  private addExport(name: string, type: ExportInfo['type'], span: ExportInfo['span']): void {
+    if (!isExportedName(name)) return;
+    this.result.exports.push({ name, type, isDefault: false, span });
+  }
+  
+  /**
+   * Methods can be declared before or after their receiver type, so they are
+   * attached once the whole file has been scanned.
+   */
+  private attachMethods(): void {
+    for (const method of this.methods) {
+      const owner = this.result.classes.find(c => c.name === method.receiver);
+      
+      if (owner) {
+        owner.members = owner.members || [];
+        owner.members.push(method.member);
+        if (method.member.visibility === 'public') {
+          owner.methods.push(method.member.name);
+        }
+        continue;
+      }
+      
+      // Receiver declared in another file of the package
+      this.result.functions.push({
+        name: `${method.receiver}.${method.member.name}`,
+        params: method.member.params || [],
+        returnType: method.member.returnType,
+        isAsync: false,
+        isExported: method.member.visibility === 'public' && isExportedName(method.receiver),
+        description: method.description,
+        span: method.member.span
+      });
+    }
+  }
+}
+
+function isExportedName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { pythonParser } from './python';
+
+const source = `import os
+from .models import User, Group as G
+from typing import *
+
+def helper(a, b: int = 2, *args, **kwargs) -> str:
+    """Help the user."""
+    return ""
+
+async def fetch(url: str) -> bytes:
+    pass
+
+def _private():
+    pass
+
+class Service(Base):
+    """A service."""
+    def __init__(self, name: str):
+        self.name = name
+
+    @staticmethod
+    def build() -> "Service":
+        pass
+
+    def _hidden(self):
+        pass
+`;
+
+describe('pythonParser', () => {
+  const parsed = pythonParser.parse(source, '/project/app/service.py');
+  
+  it('reads plain, relative and star imports', () => {
+    expect(parsed.imports.map(({ source, specifiers, type }) => ({ source, specifiers, type }))).toEqual([
+      { source: 'os', specifiers: ['os'], type: 'namespace' },
+      { source: '.models', specifiers: ['User', 'Group as G'], type: 'named' },
+      { source: 'typing', specifiers: ['*'], type: 'namespace' }
+    ]);
+  });
+  
+  it('exports only names without a leading underscore', () => {
+    expect(parsed.exports.map(exp => exp.name)).toEqual(['helper', 'fetch', 'Service']);
+    expect(parsed.functions.find(fn => fn.name === '_private')?.isExported).toBe(false);
+  });
+  
+  it('reads defaults, annotations, varargs and docstrings', () => {
+    expect(parsed.functions[0]).toMatchObject({
+      name: 'helper',
+      params: [
+        { name: 'a', optional: false, rest: false },
+        { name: 'b', type: 'int', optional: true, rest: false, defaultValue: '2' },
+        { name: 'args', optional: false, rest: true },
+        { name: 'kwargs', optional: false, rest: true }
+      ],
+      returnType: 'str',
+      isAsync: false,
+      description: 'Help the user.'
+    });
+    expect(parsed.functions[1]).toMatchObject({ name: 'fetch', isAsync: true, returnType: 'bytes' });
+  });
+  
+  it('maps __init__, decorators and underscore names onto class members', () => {
+    const [service] = parsed.classes;
+    expect(service).toMatchObject({ name: 'Service', extends: 'Base', methods: ['build'] });
+    expect(service.members?.map(({ name, kind, visibility, isStatic, decorators }) => [name, kind, visibility, isStatic, decorators])).toEqual([
+      ['constructor', 'constructor', 'public', false, []],
+      ['build', 'method', 'public', true, ['staticmethod']],
+      ['_hidden', 'method', 'protected', false, []]
+    ]);
+    // self is implied, not a parameter
+    expect(service.members?.[0].params).toEqual([{ name: 'name', type: 'str', optional: false, rest: false }]);
+  });
+});
\ No newline at end of file
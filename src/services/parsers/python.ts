@@ -0,0 +1,507 @@
+import {
+  LanguageParser,
+  ParsedFile,
+  ParameterInfo,
+  ClassInfo,
+  ClassMemberInfo,
+  InterfaceMemberInfo,
+  Visibility
+} from '../codeParser';
+import {
+  createEmptyParsedFile,
+  formatSignature,
+  maskSource,
+  findClosingBracket,
+  splitTopLevel,
+  LineIndex
+} from './common';
+
+export const pythonParser: LanguageParser = {
+  name: 'python',
+  extensions: ['.py', '.pyi'],
+  parse(content: string, _filePath: string): ParsedFile {
+    return new PythonScanner(content).scan();
+  }
+};
+
+// Base classes that make a class a structural type rather than a concrete one
+const INTERFACE_BASES = /^(typing\.|typing_extensions\.)?(Protocol|TypedDict)(\[.*\])?$/;
+
+interface Line {
+  start: number;
+  end: number;
+  indent: number;
+  blank: boolean;
+  // True when the line continues an earlier statement (open bracket or backslash)
+  continuation: boolean;
+}
+
+interface DefHeader {
+  name: string;
+  isAsync: boolean;
+  params: ParameterInfo[];
+  returnType?: string;
+  typeParameters?: string[];
+  bodyStart: number;
+}
+
+class PythonScanner {
+  private masked: string;
+  private lines: Line[] = [];
+  private index: LineIndex;
+  private result = createEmptyParsedFile();
+  private publicNames: string[] | null = null;
+  private variables: { name: string; start: number; end: number }[] = [];
+  
+  constructor(private content: string) {
+    this.masked = maskSource(content, { lineComments: ['#'], quotes: ['"', "'"], tripleQuotes: true });
+    this.index = new LineIndex(content);
+    this.buildLines();
+  }
+  
+  scan(): ParsedFile {
+    this.scanImports();
+    this.scanModule();
+    this.applyExports();
+    return this.result;
+  }
+  
+  private buildLines(): void {
+    let depth = 0;
+    let backslash = false;
+    let offset = 0;
+    
+    for (const text of this.masked.split('\n')) {
+      const trimmed = text.trim();
+      this.lines.push({
+        start: offset,
+        end: offset + text.length,
+        indent: text.length - text.trimStart().length,
+        blank: trimmed === '',
+        continuation: depth > 0 || backslash
+      });
+      
+      for (const ch of text) {
+        if (ch === '(' || ch === '[' || ch === '{') depth++;
+        else if (ch === ')' || ch === ']' || ch === '}') depth = Math.max(0, depth - 1);
+      }
+      backslash = trimmed.endsWith('\\');
+      offset += text.length + 1;
+    }
+  }
+  
+  private isStatement(i: number): boolean {
+    return !this.lines[i].blank && !this.lines[i].continuation;
+  }
+  
+  private lineAt(offset: number): number {
+    return this.index.positionAt(offset).line - 1;
+  }
+  
+  /**
+   * Returns the index of the first line after the block introduced at `headerLine`.
+   */
+  private blockEnd(headerLine: number, bodyStart: number): number {
+    const indent = this.lines[headerLine].indent;
+    for (let i = this.lineAt(bodyStart) + 1; i < this.lines.length; i++) {
+      if (this.isStatement(i) && this.lines[i].indent <= indent) {
+        return i;
+      }
+    }
+    return this.lines.length;
+  }
+  
+  private lastContentOffset(endLine: number): number {
+    for (let i = endLine - 1; i >= 0; i--) {
+      if (!this.lines[i].blank) return this.lines[i].end;
+    }
+    return 0;
+  }
+  
+  private scanImports(): void {
+    for (let i = 0; i < this.lines.length; i++) {
+      if (!this.isStatement(i)) continue;
+      
+      const line = this.lines[i];
+      const text = this.masked.slice(line.start + line.indent, line.end);
+      const statementEnd = this.statementEnd(line.start + line.indent);
+      const statement = this.content.slice(line.start + line.indent, statementEnd).replace(/\\\n/g, ' ');
+      const span = this.index.span(line.start + line.indent, statementEnd);
+      
+      if (/^import\s/.test(text)) {
+        for (const part of splitTopLevel(statement.replace(/^import\s+/, ''), undefined, false)) {
+          const [source, alias] = part.split(/\s+as\s+/).map(s => s.trim());
+          this.result.imports.push({ source, specifiers: [alias || source], type: 'namespace', span });
+        }
+      } else if (/^from\s/.test(text)) {
+        const match = statement.match(/^from\s+(\S+)\s+import\s+([\s\S]+)$/);
+        if (!match) continue;
+        
+        const names = match[2].replace(/[()]/g, ' ').trim();
+        if (names === '*') {
+          this.result.imports.push({ source: match[1], specifiers: ['*'], type: 'namespace', span });
+        } else {
+          this.result.imports.push({
+            source: match[1],
+            specifiers: splitTopLevel(names, undefined, false).map(n => n.replace(/\s+/g, ' ')),
+            type: 'named',
+            span
+          });
+        }
+      }
+    }
+  }
+  
+  /**
+   * Offset just past the logical line starting at `offset`, following open
+   * brackets and backslash continuations.
+   */
+  private statementEnd(offset: number): number {
+    let depth = 0;
+    for (let i = offset; i < this.masked.length; i++) {
+      const ch = this.masked[i];
+      if (ch === '(' || ch === '[' || ch === '{') depth++;
+      else if (ch === ')' || ch === ']' || ch === '}') depth = Math.max(0, depth - 1);
+      else if (ch === '\n' && depth === 0 && this.masked[i - 1] !== '\\') return i;
+      else if (ch === ';' && depth === 0) return i;
+    }
+    return this.masked.length;
+  }
+  
+  private scanModule(): void {
+    let decorators: string[] = [];
+    
+    for (let i = 0; i < this.lines.length; i++) {
+      if (!this.isStatement(i) || this.lines[i].indent !== 0) continue;
+      
+      const line = this.lines[i];
+      const text = this.masked.slice(line.start, line.end);
+      
+      if (text.startsWith('@')) {
+        decorators.push(this.content.slice(line.start + 1, this.statementEnd(line.start)).trim());
+        continue;
+      }
+      
+      const def = this.parseDefHeader(line.start);
+      if (def) {
+        const end = this.blockEnd(i, def.bodyStart);
+        this.result.functions.push({
+          name: def.name,
+          params: def.params,
+          returnType: def.returnType,
+          typeParameters: def.typeParameters,
+          isAsync: def.isAsync,
+          isExported: false,
+          description: this.getDocstring(def.bodyStart),
+          span: this.index.span(line.start, this.lastContentOffset(end))
+        });
+        i = end - 1;
+      } else if (/^class\s/.test(text)) {
+        const end = this.scanClass(i, decorators);
+        i = end - 1;
+      } else {
+        this.scanAssignment(line.start);
+      }
+      
+      decorators = [];
+    }
+  }
+  
+  private parseDefHeader(offset: number): DefHeader | null {
+    const match = /^(async\s+)?def\s+(\w+)\s*/.exec(this.masked.slice(offset, offset + 200));
+    if (!match) return null;
+    
+    let cursor = offset + match[0].length;
+    let typeParameters: string[] | undefined;
+    
+    // PEP 695 type parameters: def f[T](x: T)
+    if (this.masked[cursor] === '[') {
+      const close = findClosingBracket(this.masked, cursor);
+      typeParameters = splitTopLevel(this.content.slice(cursor + 1, close), this.masked.slice(cursor + 1, close), false);
+      cursor = close + 1;
+      while (/\s/.test(this.masked[cursor])) cursor++;
+    }
+    
+    if (this.masked[cursor] !== '(') return null;
+    
+    const close = findClosingBracket(this.masked, cursor);
+    const params = this.parseParams(cursor + 1, close);
+    const colon = this.findHeaderColon(close + 1);
+    const between = this.content.slice(close + 1, colon).trim();
+    
+    return {
+      name: match[2],
+      isAsync: !!match[1],
+      params,
+      returnType: between.startsWith('->') ? between.slice(2).trim().replace(/\s+/g, ' ') : undefined,
+      typeParameters,
+      bodyStart: colon + 1
+    };
+  }
+  
+  private findHeaderColon(from: number): number {
+    let depth = 0;
+    for (let i = from; i < this.masked.length; i++) {
+      const ch = this.masked[i];
+      if (ch === '(' || ch === '[' || ch === '{') depth++;
+      else if (ch === ')' || ch === ']' || ch === '}') depth--;
+      else if (ch === ':' && depth === 0) return i;
+    }
+    return this.masked.length;
+  }
+  
+  private parseParams(start: number, end: number): ParameterInfo[] {
+    const params: ParameterInfo[] = [];
+    
+    for (const raw of splitTopLevel(this.content.slice(start, end), this.masked.slice(start, end), false)) {
+      // Bare `*` and `/` only mark keyword-only / positional-only boundaries
+      if (raw === '*' || raw === '/') continue;
+      
+      const rest = raw.startsWith('*');
+      const body = raw.replace(/^\*{1,2}/, '');
+      const eq = findTopLevelChar(body, '=');
+      const declaration = eq === -1 ? body : body.slice(0, eq);
+      const defaultValue = eq === -1 ? undefined : body.slice(eq + 1).trim();
+      const colon = declaration.indexOf(':');
+      
+      params.push({
+        name: (colon === -1 ? declaration : declaration.slice(0, colon)).trim(),
+        type: colon === -1 ? undefined : declaration.slice(colon + 1).trim().replace(/\s+/g, ' '),
+        optional: defaultValue !== undefined,
+        rest,
+        defaultValue
+      });
+    }
+    
+    return params;
+  }
+  
+  private getDocstring(bodyStart: number): string | undefined {
+    const rest = this.content.slice(bodyStart).replace(/^\s+/, '');
+    const match = rest.match(/^[rRuU]?("""|'''|"|')([\s\S]*?)\1/);
+    if (!match) return undefined;
+    return match[2].trim().split('\n')[0].trim() || undefined;
+  }
+  
+  private scanClass(headerLine: number, decorators: string[]): number {
+    const line = this.lines[headerLine];
+    const offset = line.start + line.indent;
+    const match = /^class\s+(\w+)\s*/.exec(this.masked.slice(offset, offset + 200));
+    if (!match) return headerLine + 1;
+    
+    let cursor = offset + match[0].length;
+    let typeParameters: string[] | undefined;
+    let bases: string[] = [];
+    
+    if (this.masked[cursor] === '[') {
+      const close = findClosingBracket(this.masked, cursor);
+      typeParameters = splitTopLevel(this.content.slice(cursor + 1, close), this.masked.slice(cursor + 1, close), false);
+      cursor = close + 1;
+      while (/\s/.test(this.masked[cursor])) cursor++;
+    }
+    
+    if (this.masked[cursor] === '(') {
+      const close = findClosingBracket(this.masked, cursor);
+      bases = splitTopLevel(this.content.slice(cursor + 1, close), this.masked.slice(cursor + 1, close), false)
+        .filter(base => !/^\w+\s*=/.test(base) || base.startsWith('metaclass'));
+      cursor = close + 1;
+    }
+    
+    const bodyStart = this.findHeaderColon(cursor) + 1;
+    const end = this.blockEnd(headerLine, bodyStart);
+    const members = this.scanClassBody(bodyStart, end);
+    const span = this.index.span(offset, this.lastContentOffset(end));
+    const name = match[1];
+    const inheritance = bases.filter(base => !base.startsWith('metaclass'));
+    
+    if (inheritance.some(base => INTERFACE_BASES.test(base))) {
+      const interfaceMembers: InterfaceMemberInfo[] = members
+        .filter(m => m.kind !== 'constructor')
+        .map(m => ({
+          name: m.name,
+          type: m.kind === 'property' ? m.type : formatSignature('', m.params || [], m.returnType),
+          optional: false,
+          readonly: m.kind === 'getter',
+          isMethod: m.kind === 'method'
+        }));
+      
+      this.result.interfaces.push({
+        name,
+        properties: interfaceMembers.map(m => m.name),
+        members: interfaceMembers,
+        extends: inheritance.filter(base => !INTERFACE_BASES.test(base)),
+        typeParameters,
+        isExported: false,
+        span
+      });
+    } else {
+      const info: ClassInfo = {
+        name,
+        methods: members.filter(m => m.kind === 'method' && m.visibility === 'public').map(m => m.name),
+        members,
+        extends: inheritance[0],
+        implements: inheritance.slice(1),
+        typeParameters,
+        decorators,
+        isAbstract: inheritance.some(base => /^(abc\.)?ABC$/.test(base)) || members.some(m => m.isAbstract),
+        isExported: false,
+        span
+      };
+      this.result.classes.push(info);
+    }
+    
+    return end;
+  }
+  
+  private scanClassBody(bodyStart: number, end: number): ClassMemberInfo[] {
+    const members: ClassMemberInfo[] = [];
+    let memberIndent = -1;
+    let decorators: string[] = [];
+    
+    // One-line bodies (`class A: pass`) have no members worth recording
+    for (let i = this.lineAt(bodyStart) + 1; i < end; i++) {
+      if (!this.isStatement(i)) continue;
+      
+      const line = this.lines[i];
+      if (memberIndent === -1) memberIndent = line.indent;
+      if (line.indent !== memberIndent) continue;
+      
+      const start = line.start + line.indent;
+      const text = this.masked.slice(start, line.end);
+      
+      if (text.startsWith('@')) {
+        decorators.push(this.content.slice(start + 1, this.statementEnd(start)).trim());
+        continue;
+      }
+      
+      const def = this.parseDefHeader(start);
+      if (def) {
+        const defEnd = this.blockEnd(i, def.bodyStart);
+        members.push(this.buildMethod(def, decorators, this.index.span(start, this.lastContentOffset(defEnd))));
+        i = defEnd - 1;
+      } else {
+        const field = text.match(/^(\w+)\s*(:|=(?!=))/);
+        if (field) {
+          const name = field[1];
+          const statement = this.content.slice(start, this.statementEnd(start));
+          const annotation = field[2] === ':'
+            ? statement.slice(statement.indexOf(':') + 1).split('=')[0].trim()
+            : undefined;
+          members.push({
+            name,
+            kind: 'property',
+            visibility: getVisibility(name),
+            isStatic: false,
+            isAsync: false,
+            isAbstract: false,
+            isReadonly: false,
+            type: annotation ? annotation.replace(/\s+/g, ' ') : undefined,
+            decorators: [],
+            span: this.index.span(start, this.statementEnd(start))
+          });
+        }
+      }
+      
+      decorators = [];
+    }
+    
+    return members;
+  }
+  
+  private buildMethod(def: DefHeader, decorators: string[], span: ClassMemberInfo['span']): ClassMemberInfo {
+    const isStatic = decorators.some(d => d === 'staticmethod' || d === 'classmethod');
+    const params = decorators.includes('staticmethod') ? def.params : def.params.slice(1);
+    
+    let kind: ClassMemberInfo['kind'] = 'method';
+    if (def.name === '__init__') kind = 'constructor';
+    else if (decorators.some(d => d === 'property' || d === 'functools.cached_property' || d === 'cached_property')) kind = 'getter';
+    else if (decorators.some(d => /\.setter$/.test(d))) kind = 'setter';
+    
+    return {
+      name: kind === 'constructor' ? 'constructor' : def.name,
+      kind,
+      visibility: getVisibility(def.name),
+      isStatic,
+      isAsync: def.isAsync,
+      isAbstract: decorators.some(d => /(^|\.)abstractmethod$/.test(d)),
+      isReadonly: false,
+      params,
+      returnType: def.returnType,
+      decorators,
+      span
+    };
+  }
+  
+  private scanAssignment(offset: number): void {
+    const end = this.statementEnd(offset);
+    const text = this.masked.slice(offset, end);
+    const match = text.match(/^(\w+)\s*(?::[^=]+)?=(?!=)/);
+    if (!match) return;
+    
+    if (match[1] === '__all__') {
+      const value = this.content.slice(offset + match[0].length, end);
+      this.publicNames = Array.from(value.matchAll(/['"](\w+)['"]/g)).map(m => m[1]);
+      return;
+    }
+    
+    this.variables.push({ name: match[1], start: offset, end });
+  }
+  
+  /**
+   * Python has no export keyword: `__all__` wins when present, otherwise every
+   * top-level name without a leading underscore is public.
+   */
+  private applyExports(): void {
+    const isPublic = (name: string) =>
+      this.publicNames ? this.publicNames.includes(name) : !name.startsWith('_');
+    
+    for (const fn of this.result.functions) {
+      fn.isExported = isPublic(fn.name);
+      if (fn.isExported) {
+        this.result.exports.push({ name: fn.name, type: 'function', isDefault: false, span: fn.span });
+      }
+    }
+    
+    for (const cls of this.result.classes) {
+      cls.isExported = isPublic(cls.name);
+      if (cls.isExported) {
+        this.result.exports.push({ name: cls.name, type: 'class', isDefault: false, span: cls.span });
+      }
+    }
+    
+    for (const iface of this.result.interfaces) {
+      iface.isExported = isPublic(iface.name);
+      if (iface.isExported) {
+        this.result.exports.push({ name: iface.name, type: 'interface', isDefault: false, span: iface.span });
+      }
+    }
+    
+    for (const variable of this.variables) {
+      if (isPublic(variable.name)) {
+        this.result.exports.push({
+          name: variable.name,
+          type: 'variable',
+          isDefault: false,
+          span: this.index.span(variable.start, variable.end)
+        });
+      }
+    }
+  }
+}
+
+function getVisibility(name: string): Visibility {
+  if (name.startsWith('__') && !name.endsWith('__')) return 'private';
+  if (name.startsWith('_') && !name.endsWith('__')) return 'protected';
+  return 'public';
+}
+
+function findTopLevelChar(text: string, target: string): number {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '(' || ch === '[' || ch === '{') depth++;
+    else if (ch === ')' || ch === ']' || ch === '}') depth--;
+    else if (ch === target && depth === 0) return i;
+  }
+  return -1;
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { rustParser } from './rust';
+
+const source = `use std::collections::HashMap;
+use crate::model::{User, Group};
+mod util;
+
+/// Parses input.
+pub fn parse<'a, T: Clone>(input: &'a str, n: usize) -> Result<T, Error> { todo!() }
+fn private() {}
+pub async fn run() {}
+
+pub struct Config { pub name: String, count: u32 }
+
+impl Config {
+    pub fn new(name: String) -> Self { todo!() }
+    fn secret(&self) {}
+}
+
+pub trait Store { fn get(&self, key: &str) -> Option<String>; }
+pub enum Kind { A, B }
+`;
+
+describe('rustParser', () => {
+  const parsed = rustParser.parse(source, '/project/src/config.rs');
+  
+  it('reads use paths and grouped names', () => {
+    expect(parsed.imports.map(({ source, specifiers }) => [source, specifiers])).toEqual([
+      ['std::collections', ['HashMap']],
+      ['crate::model', ['User', 'Group']]
+    ]);
+  });
+  
+  it('exports pub items only', () => {
+    expect(parsed.exports.map(({ name, type }) => [name, type])).toEqual([
+      ['parse', 'function'],
+      ['run', 'function'],
+      ['Config', 'class'],
+      ['Store', 'interface'],
+      ['Kind', 'enum']
+    ]);
+    expect(parsed.functions.find(fn => fn.name === 'private')?.isExported).toBe(false);
+  });
+  
+  it('reads generics, lifetimes and doc comments', () => {
+    expect(parsed.functions[0]).toMatchObject({
+      name: 'parse',
+      params: [
+        { name: 'input', type: "&'a str" },
+        { name: 'n', type: 'usize' }
+      ],
+      returnType: 'Result<T, Error>',
+      typeParameters: ["'a", 'T: Clone'],
+      description: 'Parses input.'
+    });
+    expect(parsed.functions.find(fn => fn.name === 'run')?.isAsync).toBe(true);
+  });
+  
+  it('merges impl blocks into their struct', () => {
+    const [config] = parsed.classes;
+    expect(config.members?.map(({ name, kind, visibility, isStatic }) => [name, kind, visibility, isStatic])).toEqual([
+      ['name', 'property', 'public', false],
+      ['count', 'property', 'private', false],
+      ['new', 'constructor', 'public', true],
+      ['secret', 'method', 'private', false]
+    ]);
+  });
+  
+  it('reads trait methods without self', () => {
+    expect(parsed.interfaces[0].members?.[0]).toMatchObject({ name: 'get', type: 'fn(key: &str): Option<String>', isMethod: true });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,504 @@
+import {
+  LanguageParser,
+  ParsedFile,
+  ParameterInfo,
+  ClassInfo,
+  ClassMemberInfo,
+  InterfaceMemberInfo,
+  ExportInfo,
+  Visibility
+} from '../codeParser';
+import {
+  createEmptyParsedFile,
+  formatSignature,
+  maskSource,
+  findClosingBracket,
+  findClosingAngle,
+  splitTopLevel,
+  getLeadingComment,
+  LineIndex
+} from './common';
+
+export const rustParser: LanguageParser = {
+  name: 'rust',
+  extensions: ['.rs'],
+  parse(content: string, _filePath: string): ParsedFile {
+    return new RustScanner(content).scan();
+  }
+};
+
+const ITEM = /^(pub(?:\s*\([^)]*\))?\s+)?((?:(?:const|async|unsafe|default|extern\s*(?:"[^"]*")?)\s+)*)(fn|struct|enum|union|trait|impl|mod|use|type|const|static|extern\s+crate)\b/;
+
+interface FnSignature {
+  name: string;
+  params: ParameterInfo[];
+  hasSelf: boolean;
+  returnType?: string;
+  typeParameters?: string[];
+}
+
+interface ImplBlock {
+  target: string;
+  trait?: string;
+  members: ClassMemberInfo[];
+}
+
+class RustScanner {
+  private masked: string;
+  private lines: string[];
+  private index: LineIndex;
+  private result = createEmptyParsedFile();
+  private impls: ImplBlock[] = [];
+  
+  constructor(private content: string) {
+    this.masked = maskSource(content, {
+      lineComments: ['//'],
+      blockComments: true,
+      nestedBlockComments: true,
+      quotes: ['"'],
+      rawStrings: true,
+      charLiterals: true
+    });
+    this.lines = content.split('\n');
+    this.index = new LineIndex(content);
+  }
+  
+  scan(): ParsedFile {
+    this.scanItems(0, this.masked.length, true);
+    this.attachImpls();
+    return this.result;
+  }
+  
+  /**
+   * Walks the items between two offsets. `exported` is false inside private
+   * modules, where even `pub` items are not reachable from outside.
+   */
+  private scanItems(start: number, end: number, exported: boolean, impl?: ImplBlock, traitMembers?: InterfaceMemberInfo[]): void {
+    let cursor = start;
+    
+    while (cursor < end) {
+      const next = this.masked.slice(cursor, end).search(/\S/);
+      if (next === -1) return;
+      cursor += next;
+      
+      // Attributes: #[derive(...)] / #![allow(...)]
+      if (this.masked.startsWith('#', cursor)) {
+        const open = this.masked.indexOf('[', cursor);
+        cursor = findClosingBracket(this.masked, open) + 1;
+        continue;
+      }
+      
+      const match = ITEM.exec(this.masked.slice(cursor, Math.min(end, cursor + 300)));
+      const itemEnd = this.findItemEnd(cursor, end);
+      
+      if (!match) {
+        // Macro invocations, stray semicolons and other non-item syntax
+        cursor = itemEnd;
+        continue;
+      }
+      
+      const visibility = parseVisibility(match[1]);
+      const isPublic = exported && (visibility === 'public' || !!impl?.trait || !!traitMembers);
+      const keyword = match[3].replace(/\s+/g, ' ');
+      const bodyStart = cursor + match[0].length;
+      const span = this.index.span(cursor, itemEnd);
+      
+      switch (keyword) {
+        case 'fn':
+          this.scanFn(bodyStart, itemEnd, {
+            isPublic,
+            visibility,
+            isAsync: /\basync\b/.test(match[2]),
+            span,
+            impl,
+            traitMembers
+          });
+          break;
+        case 'struct':
+        case 'union':
+          this.scanStruct(bodyStart, itemEnd, isPublic, span);
+          break;
+        case 'enum':
+          this.addExport(this.readName(bodyStart), 'enum', isPublic, span);
+          break;
+        case 'trait':
+          this.scanTrait(bodyStart, itemEnd, isPublic, span);
+          break;
+        case 'impl':
+          this.scanImpl(bodyStart, itemEnd, exported);
+          break;
+        case 'mod': {
+          const open = this.masked.indexOf('{', bodyStart);
+          if (open !== -1 && open < itemEnd) {
+            this.scanItems(open + 1, itemEnd - 1, isPublic);
+          }
+          break;
+        }
+        case 'use':
+          this.scanUse(bodyStart, itemEnd, isPublic, span);
+          break;
+        case 'extern crate': {
+          const name = this.readName(bodyStart);
+          this.result.imports.push({ source: name, specifiers: [name], type: 'namespace', span });
+          break;
+        }
+        case 'type':
+          if (!impl && !traitMembers) {
+            this.addExport(this.readName(bodyStart), 'type', isPublic, span);
+          }
+          break;
+        default:
+          // const / static
+          if (!impl && !traitMembers && this.readName(bodyStart) !== '_') {
+            this.addExport(this.readName(bodyStart), 'variable', isPublic, span);
+          }
+      }
+      
+      cursor = itemEnd;
+    }
+  }
+  
+  /**
+   * An item ends at the first `;` or balanced `{...}` outside parentheses.
+   */
+  private findItemEnd(start: number, limit: number): number {
+    let depth = 0;
+    for (let i = start; i < limit; i++) {
+      const ch = this.masked[i];
+      if (ch === '(' || ch === '[') depth++;
+      else if (ch === ')' || ch === ']') depth--;
+      else if (depth === 0 && ch === ';') return i + 1;
+      else if (depth === 0 && ch === '{') {
+        const close = findClosingBracket(this.masked, i);
+        // `struct A { .. }` is complete, but `const X: T = T { .. };` continues to the semicolon
+        const after = this.masked.slice(close + 1, limit).match(/^\s*;/);
+        return after ? close + 1 + after[0].length : close + 1;
+      }
+    }
+    return limit;
+  }
+  
+  private readName(offset: number): string {
+    const match = /^\s*(?:mut\s+)?(\w+)/.exec(this.masked.slice(offset, offset + 200));
+    return match ? match[1] : '';
+  }
+  
+  private readGenerics(offset: number): { params?: string[]; end: number } {
+    let cursor = offset;
+    while (/\s/.test(this.masked[cursor] || '')) cursor++;
+    if (this.masked[cursor] !== '<') return { end: offset };
+    
+    const close = findClosingAngle(this.masked, cursor);
+    return {
+      params: splitTopLevel(this.content.slice(cursor + 1, close), this.masked.slice(cursor + 1, close)),
+      end: close + 1
+    };
+  }
+  
+  private parseFnSignature(offset: number, end: number): FnSignature | null {
+    const name = this.readName(offset);
+    if (!name) return null;
+    
+    let cursor = this.masked.indexOf(name, offset) + name.length;
+    const generics = this.readGenerics(cursor);
+    cursor = generics.end;
+    
+    const open = this.masked.indexOf('(', cursor);
+    if (open === -1 || open >= end) return null;
+    
+    const close = findClosingBracket(this.masked, open);
+    const rawParams = splitTopLevel(this.content.slice(open + 1, close), this.masked.slice(open + 1, close));
+    const hasSelf = rawParams.length > 0 && /^(&\s*('\w+\s+)?)?(mut\s+)?self\b/.test(rawParams[0]);
+    const params = rawParams.slice(hasSelf ? 1 : 0).map(raw => {
+      const colon = raw.indexOf(':');
+      return {
+        name: (colon === -1 ? raw : raw.slice(0, colon)).replace(/^mut\s+/, '').trim(),
+        type: colon === -1 ? undefined : raw.slice(colon + 1).trim().replace(/\s+/g, ' '),
+        optional: false,
+        rest: false
+      };
+    });
+    
+    // Return type runs until the body, a `where` clause, or the end of a bodyless signature
+    const tail = this.masked.slice(close + 1, end);
+    const stop = tail.search(/\{|;|\bwhere\b/);
+    const returnText = this.content.slice(close + 1, close + 1 + (stop === -1 ? tail.length : stop)).trim();
+    
+    return {
+      name,
+      params,
+      hasSelf,
+      returnType: returnText.startsWith('->') ? returnText.slice(2).trim().replace(/\s+/g, ' ') : undefined,
+      typeParameters: generics.params
+    };
+  }
+  
+  private scanFn(
+    offset: number,
+    end: number,
+    context: {
+      isPublic: boolean;
+      visibility: Visibility;
+      isAsync: boolean;
+      span: ClassMemberInfo['span'];
+      impl?: ImplBlock;
+      traitMembers?: InterfaceMemberInfo[];
+    }
+  ): void {
+    const signature = this.parseFnSignature(offset, end);
+    if (!signature) return;
+    
+    const description = getLeadingComment(this.lines, context.span!.start.line, '///', /^#\[/);
+    
+    if (context.traitMembers) {
+      context.traitMembers.push({
+        name: signature.name,
+        type: formatSignature('fn', signature.params, signature.returnType, signature.typeParameters),
+        optional: this.masked.slice(offset, end).includes('{'),
+        readonly: false,
+        isMethod: true
+      });
+      return;
+    }
+    
+    if (context.impl) {
+      context.impl.members.push({
+        name: signature.name,
+        kind: signature.name === 'new' && !signature.hasSelf ? 'constructor' : 'method',
+        visibility: context.impl.trait ? 'public' : context.visibility,
+        isStatic: !signature.hasSelf,
+        isAsync: context.isAsync,
+        isAbstract: false,
+        isReadonly: false,
+        params: signature.params,
+        returnType: signature.returnType,
+        decorators: [],
+        span: context.span
+      });
+      return;
+    }
+    
+    this.result.functions.push({
+      name: signature.name,
+      params: signature.params,
+      returnType: signature.returnType,
+      typeParameters: signature.typeParameters,
+      isAsync: context.isAsync,
+      isExported: context.isPublic,
+      description,
+      span: context.span
+    });
+    this.addExport(signature.name, 'function', context.isPublic, context.span);
+  }
+  
+  private scanStruct(offset: number, end: number, isPublic: boolean, span: ClassInfo['span']): void {
+    const name = this.readName(offset);
+    const generics = this.readGenerics(this.masked.indexOf(name, offset) + name.length);
+    const members: ClassMemberInfo[] = [];
+    const bodyStart = this.masked.slice(generics.end, end).search(/[({]/);
+    
+    if (bodyStart !== -1) {
+      const open = generics.end + bodyStart;
+      const close = findClosingBracket(this.masked, open);
+      const isTuple = this.masked[open] === '(';
+      const fields = splitTopLevel(this.content.slice(open + 1, close), this.masked.slice(open + 1, close));
+      
+      fields.forEach((raw, position) => {
+        const field = raw.replace(/^(\s*(#\[[^\]]*\]|\/\/[^\n]*)\s*)*/, '');
+        const visibilityMatch = field.match(/^pub(\s*\([^)]*\))?\s+/);
+        const declaration = field.slice(visibilityMatch ? visibilityMatch[0].length : 0);
+        const colon = isTuple ? -1 : declaration.indexOf(':');
+        
+        members.push({
+          name: isTuple ? String(position) : declaration.slice(0, colon).trim(),
+          kind: 'property',
+          visibility: parseVisibility(visibilityMatch ? visibilityMatch[0] : undefined),
+          isStatic: false,
+          isAsync: false,
+          isAbstract: false,
+          isReadonly: false,
+          type: (isTuple ? declaration : declaration.slice(colon + 1)).trim().replace(/\s+/g, ' '),
+          decorators: [],
+          span
+        });
+      });
+    }
+    
+    this.result.classes.push({
+      name,
+      methods: [],
+      members,
+      implements: [],
+      typeParameters: generics.params,
+      decorators: this.getAttributes(span!.start.line),
+      isExported: isPublic,
+      span
+    });
+    this.addExport(name, 'class', isPublic, span);
+  }
+  
+  private scanTrait(offset: number, end: number, isPublic: boolean, span: ClassInfo['span']): void {
+    const name = this.readName(offset);
+    const generics = this.readGenerics(this.masked.indexOf(name, offset) + name.length);
+    const open = this.masked.indexOf('{', generics.end);
+    const members: InterfaceMemberInfo[] = [];
+    
+    // Supertraits: trait A: B + C
+    const header = this.content.slice(generics.end, open === -1 ? end : open).trim();
+    const supertraits = header.startsWith(':')
+      ? header.slice(1).split(/\bwhere\b/)[0].split('+').map(s => s.trim()).filter(Boolean)
+      : [];
+    
+    if (open !== -1 && open < end) {
+      this.scanItems(open + 1, end - 1, isPublic, undefined, members);
+    }
+    
+    this.result.interfaces.push({
+      name,
+      properties: members.map(m => m.name),
+      members,
+      extends: supertraits,
+      typeParameters: generics.params,
+      isExported: isPublic,
+      span
+    });
+    this.addExport(name, 'interface', isPublic, span);
+  }
+  
+  private scanImpl(offset: number, end: number, exported: boolean): void {
+    const generics = this.readGenerics(offset);
+    const open = this.masked.indexOf('{', generics.end);
+    if (open === -1 || open >= end) return;
+    
+    const header = this.content.slice(generics.end, open).split(/\bwhere\b/)[0].trim();
+    const forIndex = header.search(/\sfor\s/);
+    const trait = forIndex === -1 ? undefined : header.slice(0, forIndex).trim().replace(/^!/, '');
+    const target = (forIndex === -1 ? header : header.slice(forIndex + 5)).trim();
+    
+    const block: ImplBlock = {
+      // `impl<T> Wrapper<T>` attaches to `Wrapper`; paths keep only the last segment
+      target: target.replace(/<[\s\S]*$/, '').replace(/^&\s*(mut\s+)?/, '').split('::').pop() || target,
+      trait,
+      members: []
+    };
+    
+    this.scanItems(open + 1, end - 1, exported, block);
+    this.impls.push(block);
+  }
+  
+  private scanUse(offset: number, end: number, isPublic: boolean, span: ExportInfo['span']): void {
+    const tree = this.content.slice(offset, end)
+      .replace(/;\s*$/, '')
+      .replace(/\s*(::|[{},])\s*/g, '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const bySource = new Map<string, string[]>();
+    
+    for (const { path, name } of expandUseTree('', tree)) {
+      const separator = path.lastIndexOf('::');
+      const source = separator === -1 ? path : path.slice(0, separator);
+      const specifiers = bySource.get(source) || [];
+      specifiers.push(name);
+      bySource.set(source, specifiers);
+    }
+    
+    for (const [source, specifiers] of bySource) {
+      this.result.imports.push({
+        source,
+        specifiers,
+        type: specifiers.includes('*') ? 'namespace' : 'named',
+        span
+      });
+      
+      if (isPublic) {
+        for (const specifier of specifiers) {
+          const exportedName = specifier.split(' as ').pop() || specifier;
+          this.result.exports.push({ name: exportedName, type: 'reexport', isDefault: false, source, span });
+        }
+      }
+    }
+  }
+  
+  private getAttributes(line: number): string[] {
+    const attributes: string[] = [];
+    for (let i = line - 2; i >= 0; i--) {
+      const trimmed = this.lines[i].trim();
+      const match = trimmed.match(/^#\[(.*)\]$/);
+      if (match) {
+        attributes.unshift(match[1]);
+      } else if (!trimmed.startsWith('///')) {
+        break;
+      }
+    }
+    return attributes;
+  }
+  
+  private addExport(name: string, type: ExportInfo['type'], isPublic: boolean, span: ExportInfo['span']): void {
+    if (!isPublic || !name) return;
+    this.result.exports.push({ name, type, isDefault: false, span });
+  }
+  
+  /**
+   * impl blocks may live anywhere in the file, so their methods are merged into
+   * the matching struct once everything has been scanned.
+   */
+  private attachImpls(): void {
+    for (const impl of this.impls) {
+      const owner = this.result.classes.find(c => c.name === impl.target);
+      
+      if (!owner) {
+        // impl for a type defined elsewhere (or an enum); surface public methods as functions
+        for (const member of impl.members.filter(m => m.visibility === 'public')) {
+          this.result.functions.push({
+            name: `${impl.target}::${member.name}`,
+            params: member.params || [],
+            returnType: member.returnType,
+            isAsync: member.isAsync,
+            isExported: this.result.exports.some(e => e.name === impl.target),
+            span: member.span
+          });
+        }
+        continue;
+      }
+      
+      owner.members = [...(owner.members || []), ...impl.members];
+      owner.methods.push(...impl.members.filter(m => m.kind === 'method' && m.visibility === 'public').map(m => m.name));
+      if (impl.trait) {
+        owner.implements = [...(owner.implements || []), impl.trait];
+      }
+    }
+  }
+}
+
+/**
+ * `pub` is public, restricted forms such as `pub(crate)` are treated as
+ * protected, and everything else is private to its module.
+ */
+function parseVisibility(text?: string): Visibility {
+  if (!text) return 'private';
+  return /\(/.test(text) ? 'protected' : 'public';
+}
+
+/**
+ * Flattens a `use` tree such as `a::{b, c::{d as e}, f::*}` into path/name pairs.
+ */
+function expandUseTree(prefix: string, tree: string): { path: string; name: string }[] {
+  const open = tree.indexOf('{');
+  
+  if (open === -1) {
+    const [target, alias] = tree.split(' as ').map(s => s.trim());
+    const path = prefix ? `${prefix}::${target}` : target;
+    const name = path.split('::').pop() || path;
+    return [{ path, name: alias ? `${name} as ${alias}` : name }];
+  }
+  
+  const base = tree.slice(0, open).replace(/::$/, '');
+  const inner = tree.slice(open + 1, findClosingBracket(tree, open));
+  const nextPrefix = [prefix, base].filter(Boolean).join('::');
+  
+  return splitTopLevel(inner).flatMap(part =>
+    part === 'self'
+      ? [{ path: nextPrefix, name: nextPrefix.split('::').pop() || nextPrefix }]
+      : expandUseTree(nextPrefix, part)
+  );
+}
\ No newline at end of file
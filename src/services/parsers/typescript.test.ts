@@ -0,0 +1,94 @@
+import { describe, expect, it } from '@jest/globals';
+import { typescriptParser } from './typescript';
+
+const source = `import fs from 'fs';
+import { a, b as c } from './x';
+import type { T } from './types';
+import * as ns from 'lodash';
+import './side';
+const r = require('./req');
+const s = "not an import from './fake'";
+
+/** Adds numbers. */
+export async function add<T>(x: number, y?: string, ...rest: T[]): Promise<number> { return 1; }
+export const arrow = (s: string): string => s;
+
+export default class Foo extends Bar implements Baz {
+  private readonly n: number = 1;
+  constructor(public a: string) { super(); }
+  static async make(): Promise<Foo> { return new Foo(''); }
+  get value(): number { return 1; }
+}
+
+export interface Shape { area(): number; name?: string; readonly id: number }
+export type Alias = string;
+export { x as y } from './z';
+`;
+
+describe('typescriptParser', () => {
+  const parsed = typescriptParser.parse(source, '/project/src/a.ts');
+  
+  it('reads every import form, but not imports inside strings', () => {
+    expect(parsed.imports.map(({ source, specifiers, type }) => ({ source, specifiers, type }))).toEqual([
+      { source: 'fs', specifiers: ['fs'], type: 'default' },
+      { source: './x', specifiers: ['a', 'b as c'], type: 'named' },
+      { source: './types', specifiers: ['T'], type: 'named' },
+      { source: 'lodash', specifiers: ['ns'], type: 'namespace' },
+      { source: './side', specifiers: [], type: 'side-effect' },
+      { source: './z', specifiers: ['x'], type: 'named' },
+      { source: './req', specifiers: ['r'], type: 'require' }
+    ]);
+    expect(parsed.imports.find(imp => imp.source === './types')?.isTypeOnly).toBe(true);
+  });
+  
+  it('lists exports with their kind', () => {
+    expect(parsed.exports.map(({ name, type, isDefault }) => [name, type, isDefault])).toEqual([
+      ['add', 'function', false],
+      ['arrow', 'function', false],
+      ['Foo', 'class', true],
+      ['Shape', 'interface', false],
+      ['Alias', 'type', false],
+      ['y', 'reexport', false]
+    ]);
+  });
+  
+  it('reads function signatures and doc comments', () => {
+    const add = parsed.functions.find(fn => fn.name === 'add');
+    expect(add).toMatchObject({
+      params: [
+        { name: 'x', type: 'number', optional: false, rest: false },
+        { name: 'y', type: 'string', optional: true, rest: false },
+        { name: 'rest', type: 'T[]', optional: false, rest: true }
+      ],
+      returnType: 'Promise<number>',
+      typeParameters: ['T'],
+      isAsync: true,
+      isExported: true,
+      description: 'Adds numbers.'
+    });
+    expect(parsed.functions.find(fn => fn.name === 'arrow')?.returnType).toBe('string');
+  });
+  
+  it('reads class heritage and members', () => {
+    const [foo] = parsed.classes;
+    expect(foo).toMatchObject({ name: 'Foo', extends: 'Bar', implements: ['Baz'], methods: ['make'] });
+    expect(foo.members?.map(({ name, kind, visibility, isStatic, isReadonly }) => [name, kind, visibility, isStatic, isReadonly])).toEqual([
+      ['n', 'property', 'private', false, true],
+      ['constructor', 'constructor', 'public', false, false],
+      ['make', 'method', 'public', true, false],
+      ['value', 'getter', 'public', false, false]
+    ]);
+  });
+  
+  it('reads interface members', () => {
+    expect(parsed.interfaces[0].members).toEqual([
+      { name: 'area', type: '(): number', optional: false, readonly: false, isMethod: true },
+      { name: 'name', type: 'string', optional: true, readonly: false, isMethod: false },
+      { name: 'id', type: 'number', optional: false, readonly: true, isMethod: false }
+    ]);
+  });
+  
+  it('records 1-based source spans', () => {
+    expect(parsed.functions.find(fn => fn.name === 'add')?.span?.start).toEqual({ line: 10, column: 1 });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,553 @@
+import path from 'path';
+import ts from 'typescript';
+import {
+  LanguageParser,
+  ParsedFile,
+  ExportInfo,
+  ParameterInfo,
+  ClassInfo,
+  ClassMemberInfo,
+  InterfaceMemberInfo,
+  SourceSpan,
+  Visibility
+} from '../codeParser';
+import { createEmptyParsedFile, formatSignature } from './common';
+
+export const typescriptParser: LanguageParser = {
+  name: 'typescript',
+  extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts'],
+  parse(content: string, filePath: string): ParsedFile {
+    const sourceFile = ts.createSourceFile(
+      filePath,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      getScriptKind(filePath)
+    );
+    
+    const result = createEmptyParsedFile();
+    const visitor = new SourceVisitor(sourceFile, result);
+    visitor.visitTopLevel();
+    visitor.collectRequires();
+    visitor.applyLocalExports();
+    
+    return result;
+  }
+};
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+  switch (path.extname(filePath)) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+class SourceVisitor {
+  // Names listed in `export { a, b as c }` without a module specifier
+  private localExports = new Map<string, string>();
+  // Kind of every top-level declaration, exported or not
+  private declarationKinds = new Map<string, ExportInfo['type']>();
+  
+  constructor(private sourceFile: ts.SourceFile, private result: ParsedFile) {}
+  
+  visitTopLevel(): void {
+    for (const statement of this.sourceFile.statements) {
+      this.visitStatement(statement);
+    }
+  }
+  
+  private visitStatement(node: ts.Statement): void {
+    if (ts.isImportDeclaration(node)) {
+      this.visitImport(node);
+    } else if (ts.isImportEqualsDeclaration(node)) {
+      this.visitImportEquals(node);
+    } else if (ts.isExportDeclaration(node)) {
+      this.visitExportDeclaration(node);
+    } else if (ts.isExportAssignment(node)) {
+      this.visitExportAssignment(node);
+    } else if (ts.isFunctionDeclaration(node)) {
+      this.visitFunctionDeclaration(node);
+    } else if (ts.isClassDeclaration(node)) {
+      this.visitClass(node);
+    } else if (ts.isInterfaceDeclaration(node)) {
+      this.visitInterface(node);
+    } else if (ts.isTypeAliasDeclaration(node)) {
+      this.addDeclarationExport(node, node.name.text, 'type');
+    } else if (ts.isEnumDeclaration(node)) {
+      this.addDeclarationExport(node, node.name.text, 'enum');
+    } else if (ts.isModuleDeclaration(node) && ts.isIdentifier(node.name)) {
+      this.addDeclarationExport(node, node.name.text, 'namespace');
+    } else if (ts.isVariableStatement(node)) {
+      this.visitVariableStatement(node);
+    }
+  }
+  
+  private visitImport(node: ts.ImportDeclaration): void {
+    if (!ts.isStringLiteral(node.moduleSpecifier)) return;
+    
+    const source = node.moduleSpecifier.text;
+    const clause = node.importClause;
+    const span = this.getSpan(node);
+    
+    if (!clause) {
+      this.result.imports.push({ source, specifiers: [], type: 'side-effect', span });
+      return;
+    }
+    
+    const isTypeOnly = clause.isTypeOnly;
+    
+    if (clause.name) {
+      this.result.imports.push({ source, specifiers: [clause.name.text], type: 'default', isTypeOnly, span });
+    }
+    
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      this.result.imports.push({ source, specifiers: [bindings.name.text], type: 'namespace', isTypeOnly, span });
+    } else if (bindings && ts.isNamedImports(bindings)) {
+      const specifiers = bindings.elements.map(el =>
+        el.propertyName ? `${el.propertyName.text} as ${el.name.text}` : el.name.text
+      );
+      this.result.imports.push({ source, specifiers, type: 'named', isTypeOnly, span });
+    }
+  }
+  
+  private visitImportEquals(node: ts.ImportEqualsDeclaration): void {
+    const ref = node.moduleReference;
+    if (ts.isExternalModuleReference(ref) && ts.isStringLiteral(ref.expression)) {
+      this.result.imports.push({
+        source: ref.expression.text,
+        specifiers: [node.name.text],
+        type: 'require',
+        isTypeOnly: node.isTypeOnly,
+        span: this.getSpan(node)
+      });
+    }
+  }
+  
+  private visitExportDeclaration(node: ts.ExportDeclaration): void {
+    const span = this.getSpan(node);
+    const source = node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)
+      ? node.moduleSpecifier.text
+      : undefined;
+    
+    if (source) {
+      // Re-exports also count as a dependency on the target module
+      const specifiers = node.exportClause && ts.isNamedExports(node.exportClause)
+        ? node.exportClause.elements.map(el => (el.propertyName || el.name).text)
+        : [];
+      this.result.imports.push({
+        source,
+        specifiers,
+        type: node.exportClause && ts.isNamespaceExport(node.exportClause) ? 'namespace' : 'named',
+        isTypeOnly: node.isTypeOnly,
+        span
+      });
+    }
+    
+    if (!node.exportClause) {
+      // export * from './x'
+      this.result.exports.push({ name: '*', type: 'reexport', isDefault: false, source, span });
+      return;
+    }
+    
+    if (ts.isNamespaceExport(node.exportClause)) {
+      // export * as ns from './x'
+      this.result.exports.push({ name: node.exportClause.name.text, type: 'reexport', isDefault: false, source, span });
+      return;
+    }
+    
+    for (const element of node.exportClause.elements) {
+      const exportedName = element.name.text;
+      const localName = (element.propertyName || element.name).text;
+      
+      if (source) {
+        this.result.exports.push({
+          name: exportedName,
+          type: 'reexport',
+          isDefault: exportedName === 'default',
+          source,
+          span
+        });
+      } else {
+        this.localExports.set(localName, exportedName);
+      }
+    }
+  }
+  
+  private visitExportAssignment(node: ts.ExportAssignment): void {
+    const name = ts.isIdentifier(node.expression) ? node.expression.text : 'default';
+    
+    if (ts.isIdentifier(node.expression)) {
+      // Resolve the type once all declarations are known
+      this.localExports.set(name, 'default');
+      return;
+    }
+    
+    this.result.exports.push({
+      name,
+      type: ts.isClassExpression(node.expression) ? 'class'
+        : ts.isArrowFunction(node.expression) || ts.isFunctionExpression(node.expression) ? 'function'
+          : 'variable',
+      isDefault: true,
+      span: this.getSpan(node)
+    });
+  }
+  
+  private visitFunctionDeclaration(node: ts.FunctionDeclaration): void {
+    // Overload signatures are recorded through their implementation
+    if (!node.body && !this.sourceFile.isDeclarationFile && !hasModifier(node, ts.SyntaxKind.DeclareKeyword)) return;
+    
+    const name = node.name ? node.name.text : 'default';
+    const isExported = hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    
+    this.result.functions.push({
+      name,
+      params: this.getParams(node.parameters),
+      returnType: this.getTypeText(node.type),
+      typeParameters: this.getTypeParameters(node.typeParameters),
+      isAsync: hasModifier(node, ts.SyntaxKind.AsyncKeyword),
+      isExported,
+      description: getJSDocDescription(node),
+      span: this.getSpan(node)
+    });
+    
+    this.addDeclarationExport(node, name, 'function');
+  }
+  
+  private visitVariableStatement(node: ts.VariableStatement): void {
+    const isExported = hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    
+    for (const declaration of node.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name)) continue;
+      
+      const name = declaration.name.text;
+      const initializer = declaration.initializer && skipOuterExpressions(declaration.initializer);
+      
+      if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+        this.declarationKinds.set(name, 'function');
+        this.result.functions.push({
+          name,
+          params: this.getParams(initializer.parameters),
+          returnType: this.getTypeText(initializer.type),
+          typeParameters: this.getTypeParameters(initializer.typeParameters),
+          isAsync: hasModifier(initializer, ts.SyntaxKind.AsyncKeyword),
+          isExported,
+          description: getJSDocDescription(node),
+          span: this.getSpan(declaration)
+        });
+        
+        if (isExported) {
+          this.result.exports.push({ name, type: 'function', isDefault: false, span: this.getSpan(declaration) });
+        }
+      } else if (initializer && ts.isClassExpression(initializer)) {
+        this.declarationKinds.set(name, 'class');
+        this.result.classes.push(this.buildClassInfo(initializer, name, isExported, declaration));
+        
+        if (isExported) {
+          this.result.exports.push({ name, type: 'class', isDefault: false, span: this.getSpan(declaration) });
+        }
+      } else if (isExported) {
+        this.result.exports.push({ name, type: 'variable', isDefault: false, span: this.getSpan(declaration) });
+      }
+    }
+  }
+  
+  private visitClass(node: ts.ClassDeclaration): void {
+    const name = node.name ? node.name.text : 'default';
+    const isExported = hasModifier(node, ts.SyntaxKind.ExportKeyword);
+    
+    this.result.classes.push(this.buildClassInfo(node, name, isExported, node));
+    this.addDeclarationExport(node, name, 'class');
+  }
+  
+  private buildClassInfo(
+    node: ts.ClassLikeDeclaration,
+    name: string,
+    isExported: boolean,
+    spanNode: ts.Node
+  ): ClassInfo {
+    const members: ClassMemberInfo[] = [];
+    
+    for (const member of node.members) {
+      const info = this.buildClassMember(member);
+      if (info) {
+        members.push(info);
+      }
+    }
+    
+    let extendsClause: string | undefined;
+    const implementsClause: string[] = [];
+    
+    for (const clause of node.heritageClauses || []) {
+      const types = clause.types.map(t => t.getText(this.sourceFile));
+      if (clause.token === ts.SyntaxKind.ExtendsKeyword) {
+        extendsClause = types[0];
+      } else {
+        implementsClause.push(...types);
+      }
+    }
+    
+    return {
+      name,
+      methods: members
+        .filter(m => m.kind === 'method' && m.visibility === 'public')
+        .map(m => m.name),
+      members,
+      extends: extendsClause,
+      implements: implementsClause,
+      typeParameters: this.getTypeParameters(node.typeParameters),
+      decorators: this.getDecorators(node),
+      isAbstract: hasModifier(node, ts.SyntaxKind.AbstractKeyword),
+      isExported,
+      span: this.getSpan(spanNode)
+    };
+  }
+  
+  private buildClassMember(member: ts.ClassElement): ClassMemberInfo | null {
+    const base = {
+      visibility: getVisibility(member),
+      isStatic: hasModifier(member, ts.SyntaxKind.StaticKeyword),
+      isAsync: hasModifier(member, ts.SyntaxKind.AsyncKeyword),
+      isAbstract: hasModifier(member, ts.SyntaxKind.AbstractKeyword),
+      isReadonly: hasModifier(member, ts.SyntaxKind.ReadonlyKeyword),
+      decorators: this.getDecorators(member),
+      span: this.getSpan(member)
+    };
+    
+    if (ts.isConstructorDeclaration(member)) {
+      return { ...base, name: 'constructor', kind: 'constructor', params: this.getParams(member.parameters) };
+    }
+    
+    if (!member.name) return null;
+    const name = getMemberName(member.name, this.sourceFile);
+    
+    if (ts.isMethodDeclaration(member)) {
+      return {
+        ...base,
+        name,
+        kind: 'method',
+        params: this.getParams(member.parameters),
+        returnType: this.getTypeText(member.type)
+      };
+    }
+    
+    if (ts.isPropertyDeclaration(member)) {
+      return { ...base, name, kind: 'property', type: this.getTypeText(member.type) };
+    }
+    
+    if (ts.isGetAccessorDeclaration(member)) {
+      return { ...base, name, kind: 'getter', returnType: this.getTypeText(member.type) };
+    }
+    
+    if (ts.isSetAccessorDeclaration(member)) {
+      return { ...base, name, kind: 'setter', params: this.getParams(member.parameters) };
+    }
+    
+    return null;
+  }
+  
+  private visitInterface(node: ts.InterfaceDeclaration): void {
+    const members: InterfaceMemberInfo[] = [];
+    
+    for (const member of node.members) {
+      if (!member.name) continue;
+      
+      if (ts.isPropertySignature(member)) {
+        members.push({
+          name: getMemberName(member.name, this.sourceFile),
+          type: this.getTypeText(member.type),
+          optional: !!member.questionToken,
+          readonly: hasModifier(member, ts.SyntaxKind.ReadonlyKeyword),
+          isMethod: false
+        });
+      } else if (ts.isMethodSignature(member)) {
+        const name = getMemberName(member.name, this.sourceFile);
+        members.push({
+          name,
+          type: formatSignature('', this.getParams(member.parameters), this.getTypeText(member.type)),
+          optional: !!member.questionToken,
+          readonly: false,
+          isMethod: true
+        });
+      }
+    }
+    
+    const extendsClause = (node.heritageClauses || [])
+      .flatMap(clause => clause.types.map(t => t.getText(this.sourceFile)));
+    
+    this.result.interfaces.push({
+      name: node.name.text,
+      properties: members.map(m => m.name),
+      members,
+      extends: extendsClause,
+      typeParameters: this.getTypeParameters(node.typeParameters),
+      isExported: hasModifier(node, ts.SyntaxKind.ExportKeyword),
+      span: this.getSpan(node)
+    });
+    
+    this.addDeclarationExport(node, node.name.text, 'interface');
+  }
+  
+  /**
+   * Walks the whole tree for `require('x')` and `import('x')` calls, which may
+   * appear anywhere rather than only at the top level.
+   */
+  collectRequires(): void {
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node) && node.arguments.length === 1 && ts.isStringLiteralLike(node.arguments[0])) {
+        const source = node.arguments[0].text;
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+        const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+        
+        if (isRequire || isDynamicImport) {
+          this.result.imports.push({
+            source,
+            specifiers: getBindingNames(node.parent),
+            type: isRequire ? 'require' : 'dynamic',
+            span: this.getSpan(node)
+          });
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+    
+    visit(this.sourceFile);
+  }
+  
+  /**
+   * Marks declarations named in `export { ... }` lists and `export default name`
+   * as exported, now that every declaration in the file is known.
+   */
+  applyLocalExports(): void {
+    for (const [localName, exportedName] of this.localExports) {
+      const isDefault = exportedName === 'default';
+      const type = this.declarationKinds.get(localName) || 'variable';
+      
+      const fn = this.result.functions.find(f => f.name === localName);
+      const cls = this.result.classes.find(c => c.name === localName);
+      const iface = this.result.interfaces.find(i => i.name === localName);
+      
+      if (fn) fn.isExported = true;
+      if (cls) cls.isExported = true;
+      if (iface) iface.isExported = true;
+      
+      this.result.exports.push({
+        name: isDefault ? localName : exportedName,
+        type,
+        isDefault,
+        span: fn?.span || cls?.span || iface?.span
+      });
+    }
+  }
+  
+  private addDeclarationExport(node: ts.Node, name: string, type: ExportInfo['type']): void {
+    this.declarationKinds.set(name, type);
+    if (!hasModifier(node, ts.SyntaxKind.ExportKeyword)) return;
+    
+    this.result.exports.push({
+      name,
+      type,
+      isDefault: hasModifier(node, ts.SyntaxKind.DefaultKeyword),
+      span: this.getSpan(node)
+    });
+  }
+  
+  private getParams(parameters: ts.NodeArray<ts.ParameterDeclaration>): ParameterInfo[] {
+    return parameters
+      .filter(p => !(ts.isIdentifier(p.name) && p.name.text === 'this'))
+      .map(p => ({
+        name: p.name.getText(this.sourceFile),
+        type: this.getTypeText(p.type),
+        optional: !!p.questionToken || !!p.initializer,
+        rest: !!p.dotDotDotToken,
+        defaultValue: p.initializer ? p.initializer.getText(this.sourceFile) : undefined
+      }));
+  }
+  
+  private getTypeParameters(typeParameters?: ts.NodeArray<ts.TypeParameterDeclaration>): string[] | undefined {
+    if (!typeParameters || typeParameters.length === 0) return undefined;
+    return typeParameters.map(tp => tp.getText(this.sourceFile));
+  }
+  
+  private getTypeText(type?: ts.TypeNode): string | undefined {
+    return type ? type.getText(this.sourceFile).replace(/\s+/g, ' ') : undefined;
+  }
+  
+  private getDecorators(node: ts.Node): string[] {
+    if (!ts.canHaveDecorators(node)) return [];
+    return (ts.getDecorators(node) || []).map(d => d.expression.getText(this.sourceFile));
+  }
+  
+  private getSpan(node: ts.Node): SourceSpan {
+    const start = this.sourceFile.getLineAndCharacterOfPosition(node.getStart(this.sourceFile));
+    const end = this.sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+    return {
+      start: { line: start.line + 1, column: start.character + 1 },
+      end: { line: end.line + 1, column: end.character + 1 }
+    };
+  }
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  if (!ts.canHaveModifiers(node)) return false;
+  return (ts.getModifiers(node) || []).some(m => m.kind === kind);
+}
+
+function getVisibility(member: ts.ClassElement): Visibility {
+  if (hasModifier(member, ts.SyntaxKind.PrivateKeyword)) return 'private';
+  if (hasModifier(member, ts.SyntaxKind.ProtectedKeyword)) return 'protected';
+  // ECMAScript #private members are private regardless of modifiers
+  if (member.name && ts.isPrivateIdentifier(member.name)) return 'private';
+  return 'public';
+}
+
+function getMemberName(name: ts.PropertyName, sourceFile: ts.SourceFile): string {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name) || ts.isPrivateIdentifier(name)) {
+    return name.text;
+  }
+  return name.getText(sourceFile);
+}
+
+function getJSDocDescription(node: ts.Node): string | undefined {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const last = docs[docs.length - 1];
+  if (!last || !last.comment) return undefined;
+  return ts.getTextOfJSDocComment(last.comment)?.trim() || undefined;
+}
+
+function skipOuterExpressions(node: ts.Expression): ts.Expression {
+  let current = node;
+  while (ts.isParenthesizedExpression(current) || ts.isAsExpression(current) || ts.isSatisfiesExpression(current)) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function getBindingNames(parent: ts.Node): string[] {
+  // const x = require('y') / const { a, b } = require('y')
+  if (ts.isAwaitExpression(parent)) {
+    parent = parent.parent;
+  }
+  
+  if (!ts.isVariableDeclaration(parent)) return [];
+  
+  if (ts.isIdentifier(parent.name)) {
+    return [parent.name.text];
+  }
+  
+  if (ts.isObjectBindingPattern(parent.name)) {
+    return parent.name.elements
+      .filter(el => ts.isIdentifier(el.name))
+      .map(el => (el.name as ts.Identifier).text);
+  }
+  
+  return [];
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { AIConfig } from '../../types';
+import { LLMProvider, LLMRequest, LLMResponse } from '../llmProvider';
+
+const HAIKU = 'claude-3-haiku-20240307';
+const OPUS = 'claude-3-opus-20240229';
+
+export function createAnthropicProvider(config: AIConfig): LLMProvider {
+  const apiKey = process.env[config.apiKeyEnv || 'ANTHROPIC_API_KEY'];
+  // Retries are left to the scheduler so they count against its rate limits
+  const client = apiKey
+    ? new Anthropic({ apiKey, maxRetries: 0, ...(config.baseUrl ? { baseURL: config.baseUrl } : {}) })
+    : null;
+  
+  return {
+    name: 'anthropic',
+    id: config.baseUrl ? `anthropic:${config.baseUrl}` : 'anthropic',
+    defaultModels: {
+      smart: { file: HAIKU, directory: HAIKU, improvements: HAIKU },
+      deep: { file: HAIKU, directory: OPUS, improvements: OPUS }
+    },
+    
+    isAvailable: () => client !== null,
+    
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      if (!client) {
+        throw new Error('Claude API key not configured');
+      }
+      
+      const response = await client.messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        ...(request.system ? { system: request.system } : {}),
+        messages: request.messages
+      });
+      
+      return {
+        text: response.content
+          .map(block => block.type === 'text' ? block.text : '')
+          .join(''),
+        model: response.model,
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens
+        }
+      };
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,105 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { AIConfig, AITask } from '../../types';
+import { EmbeddingRequest, EmbeddingResponse, LLMProvider, LLMRequest, LLMResponse } from '../llmProvider';
+import { hashContent } from '../analysisCache';
+
+interface MockFixture {
+  task?: AITask;
+  // Substring the prompt must contain for this fixture to apply
+  match?: string;
+  // Objects are serialized to JSON, the shape every prompt asks for
+  response: string | object;
+}
+
+interface MockFixtureFile {
+  responses: MockFixture[];
+}
+
+const DEFAULT_RESPONSES: Record<AITask, string> = {
+  file: JSON.stringify({ description: 'Mock description of this file.' }),
+  directory: JSON.stringify({
+    purpose: 'Mock purpose for this directory.',
+    architecture: 'Mock architecture notes for this directory.',
+    improvements: ['Mock improvement suggestion.']
+  }),
+  improvements: JSON.stringify(['Mock improvement suggestion.'])
+};
+
+const MOCK_EMBEDDING_DIMENSIONS = 64;
+
+/**
+ * Deterministic offline provider: answers from a fixture file, falling back to
+ * canned per-task responses, so smart and deep mode run in CI without network access.
+ */
+export function createMockProvider(config: AIConfig, projectRoot: string): LLMProvider {
+  let fixtures: MockFixture[] = [];
+  let fingerprint = 'default';
+  
+  if (config.fixtures) {
+    const fixturePath = path.resolve(projectRoot, config.fixtures);
+    if (!fs.pathExistsSync(fixturePath)) {
+      throw new Error(`Mock provider fixture file not found: ${fixturePath}`);
+    }
+    const raw = fs.readFileSync(fixturePath, 'utf-8');
+    fixtures = (JSON.parse(raw) as MockFixtureFile).responses || [];
+    fingerprint = hashContent(raw).substring(0, 12);
+  }
+  
+  return {
+    name: 'mock',
+    id: `mock:${fingerprint}`,
+    defaultModels: {
+      smart: { file: 'mock', directory: 'mock', improvements: 'mock' },
+      deep: { file: 'mock', directory: 'mock', improvements: 'mock' }
+    },
+    
+    isAvailable: () => true,
+    
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const prompt = request.messages.map(message => message.content).join('\n');
+      const fixture = fixtures.find(candidate =>
+        (!candidate.task || candidate.task === request.task) &&
+        (!candidate.match || prompt.includes(candidate.match))
+      );
+      
+      let text: string;
+      if (fixture) {
+        text = typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+      } else {
+        text = DEFAULT_RESPONSES[request.task || 'file'];
+      }
+      
+      return {
+        text,
+        model: request.model,
+        usage: {
+          inputTokens: Math.ceil(prompt.length / 4),
+          outputTokens: Math.ceil(text.length / 4)
+        }
+      };
+    },
+    
+    defaultEmbeddingModel: 'mock-embedding',
+    
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+      return {
+        vectors: request.input.map(embedWords),
+        model: request.model,
+        usage: { inputTokens: request.input.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0) }
+      };
+    }
+  };
+}
+
+/**
+ * Hashes each word into a fixed-size vector, so texts sharing words come out
+ * similar and search ranking can be exercised offline.
+ */
+function embedWords(text: string): number[] {
+  const vector = new Array(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    vector[parseInt(hashContent(word).substring(0, 8), 16) % MOCK_EMBEDDING_DIMENSIONS] += 1;
+  }
+  return vector;
+}
\ No newline at end of file
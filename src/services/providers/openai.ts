@@ -0,0 +1,98 @@
+import { AIConfig } from '../../types';
+import { EmbeddingRequest, EmbeddingResponse, LLMProvider, LLMRequest, LLMRequestError, LLMResponse } from '../llmProvider';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface EmbeddingsResponse {
+  model?: string;
+  data?: { index: number; embedding: number[] }[];
+  usage?: { prompt_tokens?: number };
+}
+
+/**
+ * Any server speaking the OpenAI `/chat/completions` protocol: OpenAI itself,
+ * vLLM, Ollama, LM Studio, or an on-prem inference gateway.
+ */
+export function createOpenAIProvider(config: AIConfig): LLMProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env[config.apiKeyEnv || 'OPENAI_API_KEY'];
+  
+  return {
+    name: 'openai',
+    id: `openai:${baseUrl}`,
+    defaultModels: {
+      smart: { file: 'gpt-4o-mini', directory: 'gpt-4o-mini', improvements: 'gpt-4o-mini' },
+      deep: { file: 'gpt-4o-mini', directory: 'gpt-4o', improvements: 'gpt-4o' }
+    },
+    
+    // Self-hosted endpoints often need no key, so an explicit base URL is enough
+    isAvailable: () => Boolean(apiKey || config.baseUrl),
+    
+    async complete(request: LLMRequest): Promise<LLMResponse> {
+      const messages = request.system
+        ? [{ role: 'system', content: request.system }, ...request.messages]
+        : request.messages;
+      
+      const data = await post<ChatCompletionResponse>('/chat/completions', {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        messages
+      });
+      return {
+        text: data.choices?.[0]?.message?.content || '',
+        model: data.model || request.model,
+        usage: data.usage
+          ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 }
+          : undefined
+      };
+    },
+    
+    defaultEmbeddingModel: 'text-embedding-3-small',
+    
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+      const data = await post<EmbeddingsResponse>('/embeddings', {
+        model: request.model,
+        input: request.input
+      });
+      
+      const vectors: number[][] = request.input.map(() => []);
+      for (const item of data.data || []) {
+        vectors[item.index] = item.embedding;
+      }
+      return {
+        vectors,
+        model: data.model || request.model,
+        usage: data.usage?.prompt_tokens !== undefined ? { inputTokens: data.usage.prompt_tokens } : undefined
+      };
+    }
+  };
+  
+  async function post<T>(endpoint: string, body: object): Promise<T> {
+    const response = await fetch(`${baseUrl}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify(body)
+    });
+    
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const retryAfter = Number(response.headers.get('retry-after'));
+      throw new LLMRequestError(
+        `${baseUrl} returned ${response.status} ${response.statusText}${text ? `: ${text.substring(0, 200)}` : ''}`,
+        response.status,
+        retryAfter > 0 ? retryAfter * 1000 : undefined
+      );
+    }
+    
+    return await response.json() as T;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { getCodeContextDir } from '../utils/fileUtils';
+import { getHeadCommit } from './git';
+
+const STATE_FILE = 'refresh.json';
+
+interface RefreshState {
+  // HEAD when the docs were last brought up to date
+  commit: string;
+  refreshedAt: string;
+}
+
+/**
+ * The commit the docs were last generated against, so a plain
+ * `codecontext refresh` (as run by the post-commit hook) covers everything
+ * committed since, not just the working tree.
+ */
+export async function getLastDocumentedCommit(projectRoot: string): Promise<string | null> {
+  try {
+    const state: RefreshState = await fs.readJson(statePath(projectRoot));
+    return state.commit || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Records the current HEAD as documented. Does nothing outside a repository
+ * or before the first commit.
+ */
+export async function recordDocumentedCommit(projectRoot: string): Promise<void> {
+  const commit = await getHeadCommit(projectRoot);
+  if (!commit) {
+    return;
+  }
+  
+  const state: RefreshState = { commit, refreshedAt: new Date().toISOString() };
+  await fs.outputJson(statePath(projectRoot), state, { spaces: 2 });
+}
+
+function statePath(projectRoot: string): string {
+  return path.join(getCodeContextDir(projectRoot), STATE_FILE);
+}
\ No newline at end of file
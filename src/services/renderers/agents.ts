@@ -0,0 +1,89 @@
+import path from 'path';
+import { DirectoryRelation } from '../../types';
+import { toProjectPath } from '../../utils/fileUtils';
+import { DirectoryRenderer } from '../outputRenderer';
+import { formatSourceHashMarker } from '../documentationGenerator';
+import { manualRegionSlot } from '../manualRegions';
+
+/**
+ * AGENTS.md for coding agents other than Claude. Same section names as
+ * claude.md, so context assembly and search read it the same way, but without
+ * the per-file metadata and raw import lists that only add noise for an agent.
+ */
+export const agentsRenderer: DirectoryRenderer = {
+  scope: 'directory',
+  format: 'agents',
+  defaultFilename: 'AGENTS.md',
+  keepsManualRegions: true,
+  async render(analysis, context) {
+    const directory = toProjectPath(context.projectRoot, analysis.path);
+    const lines = [
+      `# AGENTS.md: ${directory === '.' ? 'project root' : `\`${directory}\``}`,
+      ''
+    ];
+    if (analysis.sourceHash) {
+      lines.push(formatSourceHashMarker(analysis.sourceHash), '');
+    }
+    lines.push(manualRegionSlot('notes'), '');
+    
+    lines.push('## Purpose', analysis.purpose || 'This directory contains project files.', '');
+    if (analysis.architecture) {
+      lines.push('## Architecture', analysis.architecture, '');
+    }
+    
+    if (analysis.keyFiles.length > 0) {
+      lines.push('## Key Files', '');
+      for (const file of analysis.keyFiles) {
+        lines.push(`### ${path.basename(file.path)}`, file.description);
+        if (file.primaryFunctions.length > 0) {
+          lines.push(`Main functions: ${file.primaryFunctions.map(fn => `\`${fn}\``).join(', ')}`);
+        }
+        lines.push('');
+      }
+    }
+    
+    if (analysis.apiSurface && analysis.apiSurface.length > 0) {
+      lines.push('## API Surface', ...analysis.apiSurface.map(symbol => `- \`${symbol.signature}\` in \`${symbol.file}\``), '');
+    }
+    
+    lines.push(...formatRelations('Depends On', analysis.dependsOn));
+    lines.push(...formatRelations('Used By', analysis.usedBy));
+    
+    // Static findings and untested files are gaps an agent should know about too
+    const untested = (analysis.tests || []).filter(status => status.tests.length === 0).map(status => `\`${status.file}\``);
+    const gaps = [
+      ...analysis.improvements,
+      ...(analysis.findings || []).map(finding => `${finding.message} (\`${finding.file}:${finding.line}\`, ${finding.area})`),
+      ...(untested.length > 0 ? [`No tests for ${untested.join(', ')}`] : [])
+    ];
+    if (gaps.length > 0) {
+      lines.push('## Known Gaps', ...gaps.map(gap => `- ${gap}`), '');
+    }
+    
+    if (analysis.recentChanges.length > 0) {
+      lines.push('## Recent Changes');
+      for (const change of analysis.recentChanges) {
+        lines.push(`- ${change.date.toISOString().slice(0, 10)} \`${change.commit}\` ${change.description} (${change.impact})`);
+      }
+      lines.push('');
+    }
+    
+    lines.push(
+      '---',
+      '*This file is automatically maintained by CodeContext. To update, run `codecontext refresh`. Text inside `codecontext:manual` comment blocks is kept across updates.*',
+      ''
+    );
+    return lines.join('\n');
+  }
+};
+
+function formatRelations(heading: string, relations?: DirectoryRelation[]): string[] {
+  if (!relations || relations.length === 0) {
+    return [];
+  }
+  return [
+    `## ${heading}`,
+    ...relations.map(relation => `- \`${relation.path}\` (${relation.imports} ${relation.imports === 1 ? 'import' : 'imports'})`),
+    ''
+  ];
+}
\ No newline at end of file
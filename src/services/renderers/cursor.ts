@@ -0,0 +1,58 @@
+import path from 'path';
+import { toProjectPath } from '../../utils/fileUtils';
+import { DirectoryRenderer } from '../outputRenderer';
+import { formatSourceHashMarker } from '../documentationGenerator';
+
+/**
+ * A Cursor project rule per directory, attached whenever a file in that
+ * directory is in context. The filename is relative to the project root and
+ * `{dir}` becomes the directory path with slashes turned into dashes.
+ */
+export const cursorRenderer: DirectoryRenderer = {
+  scope: 'directory',
+  format: 'cursor',
+  defaultFilename: '.cursor/rules/{dir}.mdc',
+  keepsManualRegions: false,
+  getOutputPath(projectRoot: string, dirPath: string, filename: string): string {
+    const directory = toProjectPath(projectRoot, dirPath);
+    const slug = directory === '.' ? 'root' : directory.replace(/\//g, '-');
+    return path.join(projectRoot, ...filename.replace(/\{dir\}/g, slug).split('/'));
+  },
+  async render(analysis, context) {
+    const directory = toProjectPath(context.projectRoot, analysis.path);
+    const purpose = (analysis.purpose || 'Project files').split('\n')[0];
+    const lines = [
+      '---',
+      `description: ${JSON.stringify(`${directory === '.' ? 'Project root' : directory}: ${purpose}`)}`,
+      `globs: ${directory === '.' ? '*' : `${directory}/*`}`,
+      'alwaysApply: false',
+      '---',
+      ''
+    ];
+    if (analysis.sourceHash) {
+      lines.push(formatSourceHashMarker(analysis.sourceHash), '');
+    }
+    
+    lines.push(analysis.purpose || 'This directory contains project files.', '');
+    if (analysis.architecture) {
+      lines.push(`Architecture: ${analysis.architecture}`, '');
+    }
+    
+    if (analysis.keyFiles.length > 0) {
+      lines.push('Key files:');
+      for (const file of analysis.keyFiles) {
+        lines.push(`- \`${path.basename(file.path)}\`: ${file.description}`);
+      }
+      lines.push('');
+    }
+    
+    if (analysis.dependsOn && analysis.dependsOn.length > 0) {
+      lines.push(`Depends on: ${analysis.dependsOn.map(relation => `\`${relation.path}\``).join(', ')}`);
+    }
+    if (analysis.usedBy && analysis.usedBy.length > 0) {
+      lines.push(`Used by: ${analysis.usedBy.map(relation => `\`${relation.path}\``).join(', ')}`);
+    }
+    
+    return `${lines.join('\n').trimEnd()}\n`;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,24 @@
+import { DirectoryAnalysis } from '../../types';
+import { toPortableAnalysis } from '../analysisStore';
+import { DirectoryRenderer } from '../outputRenderer';
+
+const JSON_SCHEMA_VERSION = 1;
+
+/**
+ * The full DirectoryAnalysis for tools that would rather not parse markdown.
+ * Paths are project-relative so the file is the same on every machine.
+ */
+export const jsonRenderer: DirectoryRenderer = {
+  scope: 'directory',
+  format: 'json',
+  defaultFilename: 'context.json',
+  keepsManualRegions: false,
+  async render(analysis, context) {
+    const document: DirectoryAnalysis & { version: number; generatedAt: string } = {
+      version: JSON_SCHEMA_VERSION,
+      generatedAt: new Date().toISOString(),
+      ...toPortableAnalysis(context.projectRoot, analysis)
+    };
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+};
\ No newline at end of file
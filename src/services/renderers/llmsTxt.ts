@@ -0,0 +1,35 @@
+import path from 'path';
+import { ProjectRenderer } from '../outputRenderer';
+
+/**
+ * A root-level llms.txt (https://llmstxt.org): the project name, its purpose
+ * as the summary line, and a link to every directory's primary doc.
+ */
+export const llmsTxtRenderer: ProjectRenderer = {
+  scope: 'project',
+  format: 'llms-txt',
+  defaultFilename: 'llms.txt',
+  async render(directories, context) {
+    const root = directories.find(summary => summary.directory === '.');
+    const lines = [`# ${path.basename(context.projectRoot)}`, ''];
+    if (root?.purpose) {
+      lines.push(`> ${firstLine(root.purpose)}`, '');
+    }
+    
+    const linked = directories.filter(summary => summary.files.length > 0);
+    if (linked.length > 0) {
+      lines.push('## Docs', '');
+      for (const summary of linked) {
+        const name = summary.directory === '.' ? 'Project root' : summary.directory;
+        lines.push(`- [${name}](${summary.files[0]}): ${firstLine(summary.purpose)}`);
+      }
+      lines.push('');
+    }
+    
+    return lines.join('\n');
+  }
+};
+
+function firstLine(text: string): string {
+  return text.split('\n')[0].trim();
+}
\ No newline at end of file
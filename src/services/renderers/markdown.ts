@@ -0,0 +1,12 @@
+import { DirectoryRenderer } from '../outputRenderer';
+import { generateDocumentation } from '../documentationGenerator';
+
+export const markdownRenderer: DirectoryRenderer = {
+  scope: 'directory',
+  format: 'markdown',
+  defaultFilename: 'claude.md',
+  keepsManualRegions: true,
+  render(analysis, context) {
+    return generateDocumentation(analysis, context.config);
+  }
+};
\ No newline at end of file
@@ -0,0 +1,345 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { FileAnalysis } from '../types';
+import { getCodeContextDir, toProjectPath } from '../utils/fileUtils';
+import { hashContent } from './analysisCache';
+import { ParsedFile } from './codeParser';
+import { formatSignature } from './parsers/common';
+
+const INDEX_VERSION = 1;
+const INDEX_FILE = 'search-index.json';
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Share of the hybrid score that comes from embedding similarity
+const EMBEDDING_WEIGHT = 0.5;
+const SNIPPET_LENGTH = 160;
+
+export type SearchDocumentKind = 'section' | 'file' | 'symbol';
+
+export interface SearchDocument {
+  kind: SearchDocumentKind;
+  // Project-relative POSIX path: the directory for doc sections, the file otherwise
+  path: string;
+  // Symbol name, or the claude.md heading for sections
+  name?: string;
+  line?: number;
+  text: string;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  limit?: number;
+  kind?: SearchDocumentKind;
+  // Embedding of the query, made with the same model as the index; enables hybrid ranking
+  queryVector?: number[];
+}
+
+interface SearchIndexData {
+  version: number;
+  // Documents per analyzed directory, so refreshing one directory replaces only its entries
+  directories: Record<string, SearchDocument[]>;
+  embeddings?: {
+    model: string;
+    // Keyed by the hash of the document text, so unchanged documents keep their vectors
+    vectors: Record<string, number[]>;
+  };
+}
+
+export interface Embedder {
+  // Provider and model; vectors from a different model are discarded
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+const indexes = new Map<string, SearchIndex>();
+
+export function getSearchIndex(projectRoot: string): SearchIndex {
+  let index = indexes.get(projectRoot);
+  if (!index) {
+    index = new SearchIndex(projectRoot);
+    indexes.set(projectRoot, index);
+  }
+  return index;
+}
+
+/**
+ * Forgets the loaded index, so the next getSearchIndex call re-reads
+ * search-index.json, including changes another process made to it.
+ */
+export function clearSearchIndex(projectRoot: string): void {
+  indexes.delete(projectRoot);
+}
+
+/**
+ * Everything searchable about one directory: each section of its claude.md,
+ * each file's description, and each parsed function, class, method and interface.
+ */
+export function buildSearchDocuments(
+  projectRoot: string,
+  dirPath: string,
+  files: FileAnalysis[],
+  parsedFiles: Map<string, ParsedFile>,
+  documentation: string
+): SearchDocument[] {
+  const dir = toProjectPath(projectRoot, dirPath);
+  const documents: SearchDocument[] = [];
+  
+  for (const match of documentation.matchAll(/^## (.+)\n([\s\S]*?)(?=^## |^---$|(?![\s\S]))/gm)) {
+    const text = match[2].trim();
+    if (text) {
+      documents.push({ kind: 'section', path: dir, name: match[1].trim(), text });
+    }
+  }
+  
+  for (const file of files) {
+    documents.push({ kind: 'file', path: toProjectPath(projectRoot, file.path), text: file.description });
+  }
+  
+  for (const [filePath, parsed] of parsedFiles) {
+    const file = toProjectPath(projectRoot, filePath);
+    
+    for (const fn of parsed.functions) {
+      const signature = formatSignature(fn.name, fn.params, fn.returnType, fn.typeParameters);
+      documents.push({ kind: 'symbol', path: file, name: fn.name, line: fn.span?.start.line, text: [signature, fn.description].filter(Boolean).join('\n') });
+    }
+    
+    for (const cls of parsed.classes) {
+      const heritage = `${cls.extends ? ` extends ${cls.extends}` : ''}${cls.implements?.length ? ` implements ${cls.implements.join(', ')}` : ''}`;
+      documents.push({ kind: 'symbol', path: file, name: cls.name, line: cls.span?.start.line, text: `class ${cls.name}${heritage}\n${cls.methods.join(', ')}` });
+      
+      for (const member of cls.members || []) {
+        if (member.kind === 'property' || member.visibility === 'private') continue;
+        const name = member.kind === 'constructor' ? 'constructor' : member.name;
+        documents.push({
+          kind: 'symbol',
+          path: file,
+          name: `${cls.name}.${name}`,
+          line: member.span?.start.line,
+          text: formatSignature(name, member.params || [], member.returnType)
+        });
+      }
+    }
+    
+    for (const iface of parsed.interfaces) {
+      documents.push({ kind: 'symbol', path: file, name: iface.name, line: iface.span?.start.line, text: `interface ${iface.name}\n${iface.properties.join(', ')}` });
+    }
+  }
+  
+  return documents;
+}
+
+/**
+ * Local search over generated docs and parsed symbols, persisted in
+ * `.codecontext/search-index.json`. Ranking is BM25, blended with embedding
+ * similarity when the index holds vectors and the caller passes a query vector.
+ */
+export class SearchIndex {
+  private data: SearchIndexData | null = null;
+  private loading: Promise<SearchIndexData> | null = null;
+  // Writes are chained so parallel directory updates never interleave
+  private saving: Promise<void> = Promise.resolve();
+  
+  constructor(private projectRoot: string) {}
+  
+  async exists(): Promise<boolean> {
+    return fs.pathExists(this.indexPath());
+  }
+  
+  /**
+   * Replaces the directory's documents and embeds any whose text has no vector
+   * yet. Embedding failures leave those documents to keyword ranking.
+   */
+  async updateDirectory(dir: string, documents: SearchDocument[], embedder?: Embedder): Promise<void> {
+    const data = await this.load();
+    data.directories[dir] = documents;
+    
+    if (embedder) {
+      if (data.embeddings?.model !== embedder.model) {
+        data.embeddings = { model: embedder.model, vectors: {} };
+      }
+      const vectors = data.embeddings.vectors;
+      const missing = Array.from(new Set(documents.map(documentKey))).filter(key => !vectors[key]);
+      const texts = missing.map(key => documentText(documents.find(document => documentKey(document) === key)!));
+      
+      if (texts.length > 0) {
+        try {
+          const embedded = await embedder.embed(texts);
+          missing.forEach((key, i) => {
+            if (embedded[i]?.length) vectors[key] = embedded[i];
+          });
+        } catch {
+          // Budget or provider trouble: these documents are ranked by keywords only
+        }
+      }
+    }
+    
+    await this.save();
+  }
+  
+  /**
+   * Drops directories that are no longer analyzed.
+   */
+  async retainDirectories(dirs: string[]): Promise<void> {
+    const data = await this.load();
+    const keep = new Set(dirs);
+    for (const dir of Object.keys(data.directories)) {
+      if (!keep.has(dir)) delete data.directories[dir];
+    }
+    await this.save();
+  }
+  
+  async getEmbeddingModel(): Promise<string | undefined> {
+    return (await this.load()).embeddings?.model;
+  }
+  
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const data = await this.load();
+    const documents = Object.values(data.directories)
+      .flat()
+      .filter(document => !options.kind || document.kind === options.kind);
+    const terms = Array.from(new Set(tokenize(query)));
+    if (documents.length === 0 || terms.length === 0) {
+      return [];
+    }
+    
+    const tokenized = documents.map(document => tokenize(indexedText(document)));
+    const averageLength = tokenized.reduce((sum, tokens) => sum + tokens.length, 0) / tokenized.length;
+    const documentFrequency = new Map<string, number>();
+    for (const tokens of tokenized) {
+      for (const term of new Set(tokens)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+    
+    let scores = tokenized.map(tokens => {
+      let score = 0;
+      for (const term of terms) {
+        const frequency = tokens.filter(token => token === term).length;
+        if (frequency === 0) continue;
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * tokens.length / averageLength));
+      }
+      return score;
+    });
+    
+    const vectors = data.embeddings?.vectors;
+    if (options.queryVector && vectors) {
+      const maxScore = Math.max(...scores, Number.EPSILON);
+      scores = scores.map((score, i) => {
+        const vector = vectors[documentKey(documents[i])];
+        const similarity = vector ? Math.max(0, cosineSimilarity(options.queryVector!, vector)) : 0;
+        return (1 - EMBEDDING_WEIGHT) * score / maxScore + EMBEDDING_WEIGHT * similarity;
+      });
+    }
+    
+    return documents
+      .map((document, i) => ({ document, score: scores[i], snippet: makeSnippet(document.text, terms) }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score || a.document.path.localeCompare(b.document.path))
+      .slice(0, options.limit || 10);
+  }
+  
+  private async load(): Promise<SearchIndexData> {
+    if (this.data) {
+      return this.data;
+    }
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const data: SearchIndexData = await fs.readJson(this.indexPath());
+          if (data.version === INDEX_VERSION) return data;
+        } catch {
+          // Missing or unreadable: start over
+        }
+        return { version: INDEX_VERSION, directories: {} };
+      })();
+    }
+    this.data = await this.loading;
+    return this.data;
+  }
+  
+  private save(): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      const data = this.data!;
+      // Vectors of documents that no longer exist would only grow the file
+      if (data.embeddings) {
+        const used = new Set(Object.values(data.directories).flat().map(documentKey));
+        for (const key of Object.keys(data.embeddings.vectors)) {
+          if (!used.has(key)) delete data.embeddings.vectors[key];
+        }
+      }
+      await fs.outputJson(this.indexPath(), data);
+    });
+    return this.saving;
+  }
+  
+  private indexPath(): string {
+    return path.join(getCodeContextDir(this.projectRoot), INDEX_FILE);
+  }
+}
+
+function documentText(document: SearchDocument): string {
+  return [document.name, document.text].filter(Boolean).join('\n');
+}
+
+function documentKey(document: SearchDocument): string {
+  return hashContent(documentText(document)).substring(0, 16);
+}
+
+// Names and paths are what people search for, so they count twice
+function indexedText(document: SearchDocument): string {
+  return [document.path, document.name, document.name, document.text].filter(Boolean).join(' ');
+}
+
+/**
+ * Lowercase word stems: identifiers are split on camelCase and punctuation,
+ * and plural "s" is dropped, so "getDirectories" matches "directory".
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length >= 2)
+    .map(stem);
+}
+
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Roughly SNIPPET_LENGTH characters of `text` around the first query term.
+ */
+function makeSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+  const hit = positions.length > 0 ? Math.min(...positions) : 0;
+  
+  const start = Math.max(0, Math.min(hit - SNIPPET_LENGTH / 4, flat.length - SNIPPET_LENGTH));
+  const snippet = flat.substring(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '...' : ''}${snippet}${start + SNIPPET_LENGTH < flat.length ? '...' : ''}`;
+}
\ No newline at end of file
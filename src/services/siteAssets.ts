@@ -0,0 +1,160 @@
+/**
+ * Static files of the generated site. Everything is inline so the site needs
+ * no network access; search data is a script rather than JSON because
+ * browsers refuse to fetch files over file://.
+ */
+
+export const SITE_STYLESHEET = `:root {
+  --fg: #1f2328;
+  --muted: #656d76;
+  --border: #d0d7de;
+  --bg-soft: #f6f8fa;
+  --accent: #0969da;
+  --warn: #cf222e;
+}
+* { box-sizing: border-box; }
+body {
+  margin: 0;
+  font: 15px/1.55 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif;
+  color: var(--fg);
+  display: flex;
+  min-height: 100vh;
+}
+a { color: var(--accent); text-decoration: none; }
+a:hover { text-decoration: underline; }
+code, pre, .signature { font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+nav.sidebar {
+  width: 300px;
+  flex-shrink: 0;
+  border-right: 1px solid var(--border);
+  background: var(--bg-soft);
+  padding: 16px;
+  position: sticky;
+  top: 0;
+  height: 100vh;
+  overflow-y: auto;
+}
+nav.sidebar .home { font-weight: 600; font-size: 17px; display: block; margin-bottom: 12px; }
+nav.sidebar ul { list-style: none; padding-left: 14px; margin: 0; }
+nav.sidebar > ul { padding-left: 0; }
+nav.sidebar li { margin: 2px 0; }
+nav.sidebar summary { cursor: pointer; }
+nav.sidebar .current > a, nav.sidebar .current > details > summary > a { font-weight: 600; color: var(--fg); }
+.search { position: relative; margin-bottom: 16px; }
+.search input {
+  width: 100%;
+  padding: 6px 8px;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  font: inherit;
+}
+.search ol {
+  list-style: none;
+  margin: 4px 0 0;
+  padding: 0;
+  background: #fff;
+  border: 1px solid var(--border);
+  border-radius: 6px;
+  max-height: 60vh;
+  overflow-y: auto;
+}
+.search ol:empty { display: none; }
+.search li { padding: 6px 8px; border-bottom: 1px solid var(--bg-soft); }
+.search li small { display: block; color: var(--muted); overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+.search .kind { color: var(--muted); font-size: 12px; margin-left: 4px; }
+main { flex: 1; min-width: 0; padding: 24px 40px 64px; max-width: 1100px; }
+h1 { margin-top: 0; }
+h2 { border-bottom: 1px solid var(--border); padding-bottom: 4px; margin-top: 32px; }
+.muted { color: var(--muted); }
+table { border-collapse: collapse; width: 100%; margin: 8px 0 16px; }
+th, td { text-align: left; padding: 4px 8px; border: 1px solid var(--border); vertical-align: top; }
+th { background: var(--bg-soft); }
+td.line { text-align: right; color: var(--muted); width: 1%; white-space: nowrap; }
+td.kind { width: 1%; white-space: nowrap; color: var(--muted); }
+.notes { border-left: 3px solid var(--warn); padding-left: 12px; }
+.graph { overflow-x: auto; border: 1px solid var(--border); border-radius: 6px; padding: 8px; }
+.graph rect { fill: #fff; stroke: var(--accent); rx: 4; }
+.graph a:hover rect { fill: var(--bg-soft); }
+.graph text { font: 12px ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; fill: var(--fg); }
+.graph path { fill: none; stroke: var(--muted); stroke-width: 1.2; }
+.graph path.cycle { stroke: var(--warn); stroke-dasharray: 4 3; }
+.graph marker path { fill: var(--muted); stroke: none; }
+.timeline { list-style: none; padding: 0; border-left: 2px solid var(--border); margin-left: 6px; }
+.timeline li { position: relative; padding: 0 0 12px 16px; }
+.timeline li::before {
+  content: "";
+  position: absolute;
+  left: -6px;
+  top: 7px;
+  width: 10px;
+  height: 10px;
+  border-radius: 50%;
+  background: var(--accent);
+}
+.timeline .meta { color: var(--muted); font-size: 13px; }
+`;
+
+export const SITE_SEARCH_SCRIPT = `(function () {
+  var input = document.getElementById('search-input');
+  var list = document.getElementById('search-results');
+  var root = document.body.getAttribute('data-root') || '';
+  var entries = window.CODECONTEXT_SEARCH || [];
+  if (!input || !list) return;
+  
+  function words(text) {
+    return text.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  }
+  
+  function score(entry, terms) {
+    var name = words(entry.title);
+    var rest = words(entry.path + ' ' + entry.detail);
+    var total = 0;
+    for (var i = 0; i < terms.length; i++) {
+      var term = terms[i];
+      var hit = 0;
+      for (var j = 0; j < name.length; j++) if (name[j].indexOf(term) === 0) { hit = 3; break; }
+      if (!hit) for (var k = 0; k < rest.length; k++) if (rest[k].indexOf(term) === 0) { hit = 1; break; }
+      if (!hit) return 0;
+      total += hit;
+    }
+    return total;
+  }
+  
+  function render(results) {
+    list.innerHTML = '';
+    results.forEach(function (entry) {
+      var item = document.createElement('li');
+      var link = document.createElement('a');
+      link.href = root + entry.url;
+      link.textContent = entry.title;
+      var kind = document.createElement('span');
+      kind.className = 'kind';
+      kind.textContent = entry.kind;
+      var detail = document.createElement('small');
+      detail.textContent = entry.detail || entry.path;
+      item.appendChild(link);
+      item.appendChild(kind);
+      item.appendChild(detail);
+      list.appendChild(item);
+    });
+  }
+  
+  input.addEventListener('input', function () {
+    var terms = words(input.value);
+    if (terms.length === 0) return render([]);
+    var scored = [];
+    for (var i = 0; i < entries.length; i++) {
+      var value = score(entries[i], terms);
+      if (value > 0) scored.push({ entry: entries[i], value: value });
+    }
+    scored.sort(function (a, b) { return b.value - a.value || a.entry.title.length - b.entry.title.length; });
+    render(scored.slice(0, 20).map(function (result) { return result.entry; }));
+  });
+  
+  input.addEventListener('keydown', function (event) {
+    if (event.key === 'Enter' && list.firstChild) {
+      window.location.href = list.firstChild.firstChild.href;
+    }
+  });
+})();
+`;
\ No newline at end of file
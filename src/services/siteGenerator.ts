@@ -0,0 +1,478 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { DependencyGraph, DirectoryAnalysis } from '../types';
+import { fromProjectPath } from '../utils/fileUtils';
+import { getAnalysisCache } from './analysisCache';
+import { getAnalysisStore } from './analysisStore';
+import { ParsedFile } from './codeParser';
+import { getDirectory, loadDependencyGraph } from './dependencyGraph';
+import { buildGraphView } from './graphExporter';
+import { formatSignature } from './parsers/common';
+import { SITE_SEARCH_SCRIPT, SITE_STYLESHEET } from './siteAssets';
+
+const STYLESHEET_PATH = 'assets/style.css';
+const SEARCH_SCRIPT_PATH = 'assets/search.js';
+const SEARCH_DATA_PATH = 'assets/search-data.js';
+const TIMELINE_LIMIT = 50;
+
+// Graph layout, in SVG pixels
+const NODE_HEIGHT = 26;
+const CHAR_WIDTH = 7.4;
+const COLUMN_GAP = 60;
+const ROW_GAP = 12;
+const GRAPH_PADDING = 10;
+
+export interface SiteResult {
+  pages: number;
+  directories: number;
+}
+
+interface SiteDirectory {
+  analysis: DirectoryAnalysis;
+  // Parsed source files of the directory, by project-relative path
+  files: { path: string; parsed: ParsedFile }[];
+  children: string[];
+}
+
+interface Site {
+  projectName: string;
+  directories: Map<string, SiteDirectory>;
+  // Directories without an analyzed ancestor; normally just '.'
+  roots: string[];
+}
+
+interface SearchEntry {
+  kind: 'directory' | 'file' | 'symbol';
+  title: string;
+  path: string;
+  detail: string;
+  // Relative to the site root
+  url: string;
+}
+
+interface TimelineEntry {
+  commit: string;
+  date: Date;
+  description: string;
+  impact: string;
+  directories: string[];
+}
+
+/**
+ * Builds a self-contained HTML site under `outputDir` from the stored
+ * analyses, the dependency graph, and the parsed source: a home page with the
+ * directory graph and change timeline, one page per directory with symbol
+ * tables for its files, and client-side search. Every link is relative, so
+ * the site works when opened straight from disk. Writes nothing when no
+ * directory has been analyzed yet.
+ */
+export async function generateSite(projectRoot: string, outputDir: string): Promise<SiteResult> {
+  const analyses = await getAnalysisStore(projectRoot).getAll();
+  if (analyses.length === 0) {
+    return { pages: 0, directories: 0 };
+  }
+  const graph = await loadDependencyGraph(projectRoot);
+  const cache = getAnalysisCache(projectRoot);
+  
+  const directories = new Map<string, SiteDirectory>();
+  for (const analysis of analyses) {
+    directories.set(analysis.path, { analysis, files: [], children: [] });
+  }
+  
+  for (const file of graph?.files || []) {
+    const dir = directories.get(getDirectory(file));
+    const parsed = dir && (await cache.parseFile(fromProjectPath(projectRoot, file)))?.parsed;
+    if (dir && parsed) {
+      dir.files.push({ path: file, parsed });
+    }
+  }
+  
+  for (const dir of directories.keys()) {
+    const parent = findParent(dir, directories);
+    if (parent) directories.get(parent)!.children.push(dir);
+  }
+  const roots = Array.from(directories.keys()).filter(dir => !findParent(dir, directories));
+  
+  const site: Site = { projectName: path.basename(projectRoot), directories, roots };
+  const search: SearchEntry[] = [];
+  
+  // Only what an earlier build wrote is cleared, in case outputDir holds anything else
+  await fs.remove(path.join(outputDir, 'tree'));
+  await fs.remove(path.join(outputDir, 'assets'));
+  await fs.outputFile(path.join(outputDir, STYLESHEET_PATH), SITE_STYLESHEET);
+  await fs.outputFile(path.join(outputDir, SEARCH_SCRIPT_PATH), SITE_SEARCH_SCRIPT);
+  
+  await fs.outputFile(path.join(outputDir, 'index.html'), renderHomePage(site, graph));
+  for (const dir of directories.values()) {
+    const pagePath = getPagePath(dir.analysis.path);
+    await fs.outputFile(path.join(outputDir, ...pagePath.split('/')), renderDirectoryPage(site, dir));
+    search.push(...getSearchEntries(dir, pagePath));
+  }
+  
+  await fs.outputFile(path.join(outputDir, SEARCH_DATA_PATH), `window.CODECONTEXT_SEARCH = ${JSON.stringify(search)};\n`);
+  
+  return { pages: directories.size + 1, directories: directories.size };
+}
+
+function findParent(dir: string, directories: Map<string, SiteDirectory>): string | null {
+  for (let current = dir; current !== '.'; ) {
+    current = getDirectory(current);
+    if (directories.has(current)) return current;
+  }
+  return null;
+}
+
+function getPagePath(dir: string): string {
+  return dir === '.' ? 'tree/index.html' : `tree/${dir}/index.html`;
+}
+
+function href(fromPage: string, to: string): string {
+  return path.posix.relative(path.posix.dirname(fromPage), to) || path.posix.basename(to);
+}
+
+function renderHomePage(site: Site, graph: DependencyGraph | null): string {
+  const page = 'index.html';
+  const rootAnalysis = site.directories.get('.')?.analysis;
+  const sections: string[] = [`<h1>${escapeHtml(site.projectName)}</h1>`];
+  
+  if (rootAnalysis) {
+    sections.push(renderParagraphs(rootAnalysis.purpose));
+  }
+  
+  const list = Array.from(site.directories.values())
+    .map(dir => `<li><a href="${href(page, getPagePath(dir.analysis.path))}">${escapeHtml(displayName(dir.analysis.path))}</a> <span class="muted">${escapeHtml(firstLine(dir.analysis.purpose))}</span></li>`);
+  sections.push('<h2>Directories</h2>', `<ul>${list.join('')}</ul>`);
+  
+  if (graph) {
+    const svg = renderGraph(site, graph, page);
+    if (svg) {
+      sections.push('<h2>Dependency Graph</h2>', '<p class="muted">Directories and the directories they import from. Dashed red edges are part of an import cycle.</p>', `<div class="graph">${svg}</div>`);
+    }
+  }
+  
+  const timeline = buildTimeline(site);
+  if (timeline.length > 0) {
+    const items = timeline.map(entry => {
+      const dirs = entry.directories
+        .map(dir => `<a href="${href(page, getPagePath(dir))}">${escapeHtml(displayName(dir))}</a>`)
+        .join(', ');
+      return `<li><strong>${escapeHtml(entry.description)}</strong><div class="meta">${formatDate(entry.date)} · <code>${escapeHtml(entry.commit)}</code> · ${dirs}</div></li>`;
+    });
+    sections.push('<h2>Recent Changes</h2>', `<ol class="timeline">${items.join('')}</ol>`);
+  }
+  
+  return renderPage(site, page, site.projectName, null, sections.join('\n'));
+}
+
+function renderDirectoryPage(site: Site, dir: SiteDirectory): string {
+  const { analysis } = dir;
+  const page = getPagePath(analysis.path);
+  const link = (target: string) => `<a href="${href(page, getPagePath(target))}">${escapeHtml(displayName(target))}</a>`;
+  const sections: string[] = [
+    `<h1>${escapeHtml(displayName(analysis.path))}</h1>`,
+    renderParagraphs(analysis.purpose)
+  ];
+  if (analysis.architecture) {
+    sections.push('<h2>Architecture</h2>', renderParagraphs(analysis.architecture));
+  }
+  
+  if (dir.children.length > 0) {
+    const children = dir.children.sort().map(child => `<li>${link(child)} <span class="muted">${escapeHtml(firstLine(site.directories.get(child)!.analysis.purpose))}</span></li>`);
+    sections.push('<h2>Subdirectories</h2>', `<ul>${children.join('')}</ul>`);
+  }
+  
+  if (analysis.keyFiles.length > 0) {
+    const rows = analysis.keyFiles.map(file => {
+      const name = path.posix.basename(file.path);
+      const anchor = dir.files.some(parsed => parsed.path === file.path) ? `<a href="#${fileAnchor(file.path)}">${escapeHtml(name)}</a>` : escapeHtml(name);
+      return `<tr><td>${anchor}</td><td>${escapeHtml(file.description)}</td><td class="line">${formatDate(file.lastModified)}</td></tr>`;
+    });
+    sections.push('<h2>Key Files</h2>', `<table><thead><tr><th>File</th><th>Description</th><th>Modified</th></tr></thead><tbody>${rows.join('')}</tbody></table>`);
+  }
+  
+  const relations = (heading: string, list: { path: string; imports: number }[] | undefined) => {
+    if (!list || list.length === 0) return;
+    const items = list.map(relation => `<li>${site.directories.has(relation.path) ? link(relation.path) : `<code>${escapeHtml(relation.path)}</code>`} <span class="muted">(${relation.imports} ${relation.imports === 1 ? 'import' : 'imports'})</span></li>`);
+    sections.push(`<h2>${heading}</h2>`, `<ul>${items.join('')}</ul>`);
+  };
+  relations('Depends On', analysis.dependsOn);
+  relations('Used By', analysis.usedBy);
+  
+  if (dir.files.length > 0) {
+    sections.push('<h2>Symbols</h2>');
+    for (const file of dir.files.sort((a, b) => a.path.localeCompare(b.path))) {
+      sections.push(renderSymbolTable(file.path, file.parsed));
+    }
+  }
+  
+  if (analysis.recentChanges.length > 0) {
+    const items = analysis.recentChanges.map(change =>
+      `<li><strong>${escapeHtml(change.description)}</strong><div class="meta">${formatDate(change.date)} · <code>${escapeHtml(change.commit)}</code> · ${escapeHtml(change.impact)}</div></li>`
+    );
+    sections.push('<h2>Recent Changes</h2>', `<ol class="timeline">${items.join('')}</ol>`);
+  }
+  
+  if (analysis.improvements.length > 0) {
+    sections.push('<h2>Suggested Improvements</h2>', `<ul>${analysis.improvements.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`);
+  }
+  
+  if (analysis.analysisNotes && analysis.analysisNotes.length > 0) {
+    sections.push('<h2>Analysis Notes</h2>', `<ul class="notes">${analysis.analysisNotes.map(note => `<li>${escapeHtml(note)}</li>`).join('')}</ul>`);
+  }
+  
+  return renderPage(site, page, `${displayName(analysis.path)} · ${site.projectName}`, analysis.path, sections.join('\n'));
+}
+
+function renderSymbolTable(filePath: string, parsed: ParsedFile): string {
+  const rows: string[] = [];
+  const row = (kind: string, name: string, signature: string, line: number | undefined, description = '') => {
+    rows.push(`<tr id="${symbolAnchor(filePath, name)}"><td class="kind">${kind}</td><td><span class="signature">${escapeHtml(signature)}</span>${description ? `<div class="muted">${escapeHtml(description)}</div>` : ''}</td><td class="line">${line ?? ''}</td></tr>`);
+  };
+  
+  for (const fn of parsed.functions) {
+    row(`${fn.isExported ? 'export ' : ''}function`, fn.name, formatSignature(fn.name, fn.params, fn.returnType, fn.typeParameters), fn.span?.start.line, firstLine(fn.description || ''));
+  }
+  for (const cls of parsed.classes) {
+    const heritage = `${cls.extends ? ` extends ${cls.extends}` : ''}${cls.implements?.length ? ` implements ${cls.implements.join(', ')}` : ''}`;
+    row(`${cls.isExported ? 'export ' : ''}class`, cls.name, `class ${cls.name}${heritage}`, cls.span?.start.line);
+    for (const member of cls.members || []) {
+      const name = member.kind === 'constructor' ? 'constructor' : member.name;
+      const signature = member.kind === 'property' ? `${name}${member.type ? `: ${member.type}` : ''}` : formatSignature(name, member.params || [], member.returnType);
+      row(`${member.visibility === 'public' ? '' : `${member.visibility} `}${member.kind}`, `${cls.name}.${name}`, `${cls.name}.${signature}`, member.span?.start.line);
+    }
+  }
+  for (const iface of parsed.interfaces) {
+    const extendsList = iface.extends?.length ? ` extends ${iface.extends.join(', ')}` : '';
+    row('interface', iface.name, `interface ${iface.name}${extendsList}`, iface.span?.start.line, iface.properties.join(', '));
+  }
+  
+  const heading = `<h3 id="${fileAnchor(filePath)}"><code>${escapeHtml(path.posix.basename(filePath))}</code></h3>`;
+  const purpose = parsed.mainPurpose ? `<p class="muted">${escapeHtml(parsed.mainPurpose)}</p>` : '';
+  if (rows.length === 0) {
+    return `${heading}${purpose}<p class="muted">No functions, classes or interfaces.</p>`;
+  }
+  return `${heading}${purpose}<table><thead><tr><th>Kind</th><th>Signature</th><th>Line</th></tr></thead><tbody>${rows.join('')}</tbody></table>`;
+}
+
+function getSearchEntries(dir: SiteDirectory, pagePath: string): SearchEntry[] {
+  const { analysis } = dir;
+  const entries: SearchEntry[] = [
+    { kind: 'directory', title: displayName(analysis.path), path: analysis.path, detail: firstLine(analysis.purpose), url: pagePath }
+  ];
+  
+  for (const file of analysis.keyFiles) {
+    const parsed = dir.files.some(candidate => candidate.path === file.path);
+    entries.push({
+      kind: 'file',
+      title: path.posix.basename(file.path),
+      path: file.path,
+      detail: file.description,
+      url: parsed ? `${pagePath}#${fileAnchor(file.path)}` : pagePath
+    });
+  }
+  
+  for (const { path: filePath, parsed } of dir.files) {
+    const symbol = (name: string, detail: string) => {
+      entries.push({ kind: 'symbol', title: name, path: filePath, detail, url: `${pagePath}#${symbolAnchor(filePath, name)}` });
+    };
+    parsed.functions.forEach(fn => symbol(fn.name, formatSignature(fn.name, fn.params, fn.returnType, fn.typeParameters)));
+    for (const cls of parsed.classes) {
+      symbol(cls.name, `class ${cls.name}`);
+      for (const member of cls.members || []) {
+        if (member.kind === 'property' || member.visibility === 'private') continue;
+        const name = member.kind === 'constructor' ? 'constructor' : member.name;
+        symbol(`${cls.name}.${name}`, formatSignature(name, member.params || [], member.returnType));
+      }
+    }
+    parsed.interfaces.forEach(iface => symbol(iface.name, `interface ${iface.name}`));
+  }
+  
+  return entries;
+}
+
+/**
+ * Every directory's recent changes merged by commit, newest first.
+ */
+function buildTimeline(site: Site): TimelineEntry[] {
+  const byCommit = new Map<string, TimelineEntry>();
+  for (const { analysis } of site.directories.values()) {
+    for (const change of analysis.recentChanges) {
+      const entry = byCommit.get(change.commit);
+      if (entry) {
+        entry.directories.push(analysis.path);
+      } else {
+        byCommit.set(change.commit, { ...change, directories: [analysis.path] });
+      }
+    }
+  }
+  
+  return Array.from(byCommit.values())
+    .sort((a, b) => b.date.getTime() - a.date.getTime())
+    .slice(0, TIMELINE_LIMIT);
+}
+
+/**
+ * The directory graph as inline SVG. Directories are placed in columns by
+ * their longest import chain, so dependencies sit to the right of the
+ * directories that use them; edges closing a cycle are drawn dashed.
+ */
+function renderGraph(site: Site, graph: DependencyGraph, page: string): string | null {
+  const view = buildGraphView(graph, { directories: true });
+  if (view.edges.length === 0) {
+    return null;
+  }
+  
+  const outgoing = new Map<string, string[]>(view.nodes.map(node => [node, []]));
+  view.edges.forEach(edge => outgoing.get(edge.from)!.push(edge.to));
+  
+  // Depth-first search marks the edges that point back up the stack; without them the graph is acyclic
+  const backEdges = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (node: string) => {
+    state.set(node, 'visiting');
+    for (const next of outgoing.get(node)!) {
+      if (state.get(next) === 'visiting') {
+        backEdges.add(`${node}\0${next}`);
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    state.set(node, 'done');
+  };
+  view.nodes.forEach(node => { if (!state.has(node)) visit(node); });
+  
+  const column = new Map<string, number>(view.nodes.map(node => [node, 0]));
+  const forward = view.edges.filter(edge => !backEdges.has(`${edge.from}\0${edge.to}`));
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const edge of forward) {
+      if (column.get(edge.to)! < column.get(edge.from)! + 1) {
+        column.set(edge.to, column.get(edge.from)! + 1);
+        changed = true;
+      }
+    }
+  }
+  
+  const columns: string[][] = [];
+  for (const node of view.nodes) {
+    (columns[column.get(node)!] ||= []).push(node);
+  }
+  
+  const boxes = new Map<string, { x: number; y: number; width: number }>();
+  let x = GRAPH_PADDING;
+  let height = 0;
+  for (const nodes of columns) {
+    const width = Math.max(...nodes.map(node => displayName(node).length)) * CHAR_WIDTH + 20;
+    nodes.forEach((node, row) => boxes.set(node, { x, y: GRAPH_PADDING + row * (NODE_HEIGHT + ROW_GAP), width }));
+    x += width + COLUMN_GAP;
+    height = Math.max(height, GRAPH_PADDING * 2 + nodes.length * (NODE_HEIGHT + ROW_GAP) - ROW_GAP);
+  }
+  const width = x - COLUMN_GAP + GRAPH_PADDING;
+  
+  const sameCycle = (from: string, to: string) => view.cycles.some(cycle => cycle.includes(from) && cycle.includes(to));
+  const edges = view.edges.map(edge => {
+    const from = boxes.get(edge.from)!;
+    const to = boxes.get(edge.to)!;
+    const x1 = from.x + from.width;
+    const y1 = from.y + NODE_HEIGHT / 2;
+    const x2 = to.x;
+    const y2 = to.y + NODE_HEIGHT / 2;
+    const bend = Math.max(30, Math.abs(x2 - x1) / 2);
+    const title = `${edge.from} → ${edge.to} (${edge.weight} ${edge.weight === 1 ? 'import' : 'imports'})`;
+    return `<path${sameCycle(edge.from, edge.to) ? ' class="cycle"' : ''} d="M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}" marker-end="url(#arrow)"><title>${escapeHtml(title)}</title></path>`;
+  });
+  
+  const nodes = view.nodes.map(node => {
+    const box = boxes.get(node)!;
+    const label = `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${NODE_HEIGHT}"/><text x="${box.x + 10}" y="${box.y + NODE_HEIGHT / 2 + 4}">${escapeHtml(displayName(node))}</text>`;
+    return site.directories.has(node) ? `<a href="${href(page, getPagePath(node))}">${label}</a>` : label;
+  });
+  
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width)}" height="${Math.ceil(height)}" viewBox="0 0 ${Math.ceil(width)} ${Math.ceil(height)}">`
+    + '<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto"><path d="M0,0 L10,5 L0,10 z"/></marker></defs>'
+    + `${edges.join('')}${nodes.join('')}</svg>`;
+}
+
+function renderTree(site: Site, page: string, current: string | null): string {
+  const renderNode = (dir: string): string => {
+    const node = site.directories.get(dir)!;
+    const link = `<a href="${href(page, getPagePath(dir))}">${escapeHtml(dir === '.' ? 'Project root' : path.posix.basename(dir))}</a>`;
+    const className = dir === current ? ' class="current"' : '';
+    if (node.children.length === 0) {
+      return `<li${className}>${link}</li>`;
+    }
+    // Keep the branch leading to the current page open
+    const open = current !== null && (dir === current || dir === '.' || current.startsWith(`${dir}/`)) ? ' open' : '';
+    return `<li${className}><details${open}><summary>${link}</summary><ul>${node.children.sort().map(renderNode).join('')}</ul></details></li>`;
+  };
+  
+  return `<ul>${site.roots.sort().map(renderNode).join('')}</ul>`;
+}
+
+function renderPage(site: Site, page: string, title: string, current: string | null, body: string): string {
+  const root = href(page, 'index.html').replace(/index\.html$/, '');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="${root}${STYLESHEET_PATH}">
+</head>
+<body data-root="${root}">
+<nav class="sidebar">
+<a class="home" href="${root}index.html">${escapeHtml(site.projectName)}</a>
+<div class="search"><input id="search-input" type="search" placeholder="Search directories, files, symbols" autocomplete="off"><ol id="search-results"></ol></div>
+${renderTree(site, page, current)}
+</nav>
+<main>
+${body}
+<p class="muted"><small>Generated by CodeContext on ${new Date().toISOString()}</small></p>
+</main>
+<script src="${root}${SEARCH_DATA_PATH}"></script>
+<script src="${root}${SEARCH_SCRIPT_PATH}"></script>
+</body>
+</html>
+`;
+}
+
+function renderParagraphs(text: string): string {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(Boolean)
+    .map(paragraph => `<p>${escapeHtml(paragraph)}</p>`)
+    .join('\n');
+}
+
+function fileAnchor(filePath: string): string {
+  return `file-${slugify(path.posix.basename(filePath))}`;
+}
+
+function symbolAnchor(filePath: string, name: string): string {
+  return `${fileAnchor(filePath)}-${slugify(name)}`;
+}
+
+function slugify(text: string): string {
+  return text.replace(/[^A-Za-z0-9_-]+/g, '-');
+}
+
+function displayName(dir: string): string {
+  return dir === '.' ? 'Project root' : dir;
+}
+
+function firstLine(text: string): string {
+  return text.split('\n')[0].trim();
+}
+
+function formatDate(date: Date): string {
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
\ No newline at end of file
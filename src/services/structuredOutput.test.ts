@@ -0,0 +1,127 @@
+import { describe, expect, it } from '@jest/globals';
+import { LLMMessage, LLMProvider, LLMRequest } from './llmProvider';
+import { completeStructured, describeSchema, extractJson, Schema, StructuredOutputError, validateSchema } from './structuredOutput';
+
+const schema: Schema = {
+  type: 'object',
+  properties: {
+    purpose: { type: 'string', minLength: 1 },
+    tags: { type: 'array', items: { type: 'string' }, minItems: 1 }
+  },
+  required: ['purpose']
+};
+
+const request: LLMRequest = {
+  model: 'test-model',
+  maxTokens: 100,
+  messages: [{ role: 'user', content: 'Describe the directory.' }]
+};
+
+// Answers with the given replies in order and records the conversation it was sent
+function scriptedProvider(replies: string[]): LLMProvider & { calls: LLMMessage[][] } {
+  const calls: LLMMessage[][] = [];
+  return {
+    name: 'mock',
+    id: 'mock:test',
+    defaultModels: {
+      smart: { file: 'm', directory: 'm', improvements: 'm' },
+      deep: { file: 'm', directory: 'm', improvements: 'm' }
+    },
+    isAvailable: () => true,
+    calls,
+    async complete(req: LLMRequest) {
+      calls.push([...req.messages]);
+      return { text: replies[calls.length - 1] ?? '', model: req.model };
+    }
+  };
+}
+
+describe('extractJson', () => {
+  it('prefers a fenced block over surrounding text', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": 1}\n```\nAnything else? {"b": 2}')).toEqual({ ok: true, value: { a: 1 } });
+  });
+  
+  it('falls back to the outermost braces or brackets', () => {
+    expect(extractJson('Sure! {"a": {"b": [1]}} Hope that helps.')).toEqual({ ok: true, value: { a: { b: [1] } } });
+    expect(extractJson('Result: ["x", "y"]')).toEqual({ ok: true, value: ['x', 'y'] });
+  });
+  
+  it('tells empty replies from replies without JSON', () => {
+    expect(extractJson('  ')).toEqual({ ok: false, error: 'response was empty' });
+    expect(extractJson('{not json}')).toEqual({ ok: false, error: 'response did not contain valid JSON' });
+  });
+});
+
+describe('validateSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateSchema({ purpose: 'Parses config', tags: ['config'] }, schema)).toEqual([]);
+  });
+  
+  it('reports every problem with its location', () => {
+    expect(validateSchema({ purpose: ' ', tags: [1] }, schema)).toEqual([
+      'response.purpose should not be empty',
+      'response.tags[0] should be a string'
+    ]);
+    expect(validateSchema({ tags: [] }, schema)).toEqual([
+      'response.purpose is missing',
+      'response.tags should have at least 1 item'
+    ]);
+    expect(validateSchema([], schema)).toEqual(['response should be an object']);
+  });
+});
+
+describe('describeSchema', () => {
+  it('renders a compact shape', () => {
+    expect(describeSchema(schema)).toBe('{"purpose": string, "tags": string[]}');
+  });
+});
+
+describe('completeStructured', () => {
+  it('returns the first valid reply without retrying', async () => {
+    const provider = scriptedProvider(['{"purpose": "Parses config"}']);
+    
+    expect(await completeStructured(provider, request, schema)).toEqual({ purpose: 'Parses config' });
+    expect(provider.calls).toHaveLength(1);
+  });
+  
+  it('sends a repair prompt listing the problems, then accepts the fixed reply', async () => {
+    const provider = scriptedProvider(['{"tags": []}', '{"purpose": "Parses config", "tags": ["config"]}']);
+    
+    expect(await completeStructured(provider, request, schema)).toEqual({ purpose: 'Parses config', tags: ['config'] });
+    expect(provider.calls).toHaveLength(2);
+    
+    const [original, reply, repair] = provider.calls[1];
+    expect(original).toEqual(request.messages[0]);
+    expect(reply).toEqual({ role: 'assistant', content: '{"tags": []}' });
+    expect(repair.role).toBe('user');
+    expect(repair.content).toContain('- response.purpose is missing');
+    expect(repair.content).toContain('- response.tags should have at least 1 item');
+    expect(repair.content).toContain(describeSchema(schema));
+  });
+  
+  it('does not mutate the caller\'s messages', async () => {
+    await completeStructured(scriptedProvider(['nope', '{"purpose": "x"}']), request, schema);
+    expect(request.messages).toHaveLength(1);
+  });
+  
+  it('gives up after the configured attempts with the last problems and reply', async () => {
+    const provider = scriptedProvider(['', 'still not JSON', 'never sent']);
+    
+    const attempt = completeStructured(provider, request, schema);
+    await expect(attempt).rejects.toBeInstanceOf(StructuredOutputError);
+    await expect(attempt).rejects.toMatchObject({
+      message: 'model returned invalid output after 2 attempts (response did not contain valid JSON)',
+      rawResponse: 'still not JSON'
+    });
+    // An empty reply is shown to the model as such
+    expect(provider.calls[1][1].content).toBe('(empty response)');
+    expect(provider.calls).toHaveLength(2);
+  });
+  
+  it('makes at least one attempt', async () => {
+    const provider = scriptedProvider(['[]']);
+    
+    await expect(completeStructured(provider, request, schema, { attempts: 0 })).rejects.toThrow('after 1 attempt (response should be an object)');
+    expect(provider.calls).toHaveLength(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { LLMProvider, LLMRequest } from './llmProvider';
+
+/**
+ * The small JSON-schema subset our prompts need. Kept in-house so every AI call
+ * can be validated without pulling in a schema library.
+ */
+export type Schema =
+  | { type: 'string'; minLength?: number }
+  | { type: 'array'; items: Schema; minItems?: number }
+  | { type: 'object'; properties: Record<string, Schema>; required?: string[] };
+
+/**
+ * Thrown when the model never produced a valid response. The message is written
+ * for humans, since it ends up in the generated documentation.
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string, readonly rawResponse: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export interface StructuredOptions {
+  // Total attempts including the first; each retry sends a repair prompt
+  attempts?: number;
+}
+
+/**
+ * Sends a request, then extracts, parses and validates JSON from the reply.
+ * Invalid replies are answered with a repair prompt listing what was wrong.
+ */
+export async function completeStructured<T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  schema: Schema,
+  options: StructuredOptions = {}
+): Promise<T> {
+  const attempts = Math.max(1, options.attempts ?? 2);
+  const messages = [...request.messages];
+  let problems: string[] = [];
+  let lastText = '';
+  
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const response = await provider.complete({ ...request, messages });
+    lastText = response.text;
+    
+    const extracted = extractJson(response.text);
+    problems = extracted.ok ? validateSchema(extracted.value, schema) : [extracted.error];
+    if (extracted.ok && problems.length === 0) {
+      return extracted.value as T;
+    }
+    
+    messages.push(
+      { role: 'assistant', content: response.text || '(empty response)' },
+      { role: 'user', content: buildRepairPrompt(problems, schema) }
+    );
+  }
+  
+  throw new StructuredOutputError(
+    `model returned invalid output after ${attempts} attempt${attempts === 1 ? '' : 's'} (${problems.join('; ')})`,
+    lastText
+  );
+}
+
+/**
+ * Finds JSON in a model reply: fenced ```json blocks first, then the whole
+ * text, then the outermost {...} or [...] span.
+ */
+export function extractJson(text: string): { ok: true; value: unknown } | { ok: false; error: string } {
+  const candidates: string[] = [];
+  
+  for (const match of text.matchAll(/```(?:json)?[^\n]*\n([\s\S]*?)```/gi)) {
+    candidates.push(match[1]);
+  }
+  candidates.push(text.trim());
+  
+  const start = text.search(/[[{]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start >= 0 && end > start) {
+    candidates.push(text.substring(start, end + 1));
+  }
+  
+  for (const candidate of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate
+    }
+  }
+  
+  return { ok: false, error: text.trim() ? 'response did not contain valid JSON' : 'response was empty' };
+}
+
+export function validateSchema(value: unknown, schema: Schema, location = 'response'): string[] {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${location} should be a string`];
+      }
+      if (schema.minLength && value.trim().length < schema.minLength) {
+        return [`${location} should not be empty`];
+      }
+      return [];
+    
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return [`${location} should be an array`];
+      }
+      const problems: string[] = [];
+      if (schema.minItems && value.length < schema.minItems) {
+        problems.push(`${location} should have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`);
+      }
+      value.forEach((item, index) => problems.push(...validateSchema(item, schema.items, `${location}[${index}]`)));
+      return problems;
+    }
+    
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${location} should be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const problems: string[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          problems.push(`${location}.${key} is missing`);
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        if (record[key] !== undefined) {
+          problems.push(...validateSchema(record[key], propertySchema, `${location}.${key}`));
+        }
+      }
+      return problems;
+    }
+  }
+}
+
+/**
+ * Renders a schema as a compact JSON-like shape, e.g. {"purpose": string, "tags": string[]}.
+ */
+export function describeSchema(schema: Schema): string {
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'array':
+      return `${describeSchema(schema.items)}[]`;
+    case 'object':
+      return `{${Object.entries(schema.properties)
+        .map(([key, propertySchema]) => `"${key}": ${describeSchema(propertySchema)}`)
+        .join(', ')}}`;
+  }
+}
+
+function buildRepairPrompt(problems: string[], schema: Schema): string {
+  return `Your previous response could not be used:
+${problems.map(problem => `- ${problem}`).join('\n')}
+
+Reply again with only a JSON value of this shape and no other text:
+${describeSchema(schema)}`;
+}
\ No newline at end of file
@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals';
+import path from 'path';
+import { DependencyGraph, FileEdge } from '../types';
+import { ParsedFile } from './codeParser';
+import { CoverageReport } from './coverageReport';
+import { isTestFile, mapTestFiles } from './testMapping';
+
+const projectRoot = path.resolve('/project');
+
+function parsedWith(exported: string[]): ParsedFile {
+  return {
+    imports: [],
+    exports: [],
+    functions: exported.map(name => ({ name, params: [], isAsync: false, isExported: true })),
+    classes: [],
+    interfaces: [],
+    mainPurpose: ''
+  };
+}
+
+function graphOf(files: string[], fileEdges: FileEdge[] = []): DependencyGraph {
+  return { version: 1, generatedAt: '', files, fileEdges, directoryEdges: [], externals: {}, unresolved: {} };
+}
+
+function map(sources: Record<string, string[]>, graph: DependencyGraph, coverage: CoverageReport | null = null) {
+  const parsedFiles = new Map(Object.entries(sources).map(([file, exported]) => [path.join(projectRoot, file), parsedWith(exported)]));
+  return mapTestFiles(projectRoot, parsedFiles, graph, coverage);
+}
+
+describe('isTestFile', () => {
+  it('recognizes the usual naming conventions', () => {
+    for (const file of ['src/a.test.ts', 'src/a.spec.js', 'app/test_models.py', 'app/models_test.py', 'store/store_test.go', 'src/__tests__/a.ts']) {
+      expect(isTestFile(file)).toBe(true);
+    }
+    for (const file of ['src/testing.ts', 'src/latest.ts', 'app/tests.py', 'src/contest_test.rs']) {
+      expect(isTestFile(file)).toBe(false);
+    }
+  });
+});
+
+describe('mapTestFiles', () => {
+  it('links tests by import and reports exports no test imports', () => {
+    const graph = graphOf(['src/math.ts', 'src/math.test.ts'], [
+      { from: 'src/math.test.ts', to: 'src/math.ts', specifiers: ['add'], kind: 'named' }
+    ]);
+    
+    expect(map({ 'src/math.ts': ['add', 'subtract'], 'src/math.test.ts': [] }, graph)).toEqual([
+      { file: 'src/math.ts', tests: ['src/math.test.ts'], coverage: undefined, untestedFunctions: ['subtract'] }
+    ]);
+  });
+  
+  it('counts a namespace or default import as testing the whole module', () => {
+    const graph = graphOf(['src/math.ts', 'test/math.spec.ts'], [
+      { from: 'test/math.spec.ts', to: 'src/math.ts', specifiers: ['math'], kind: 'namespace' }
+    ]);
+    
+    expect(map({ 'src/math.ts': ['add', 'subtract'] }, graph)[0]).toMatchObject({ tests: ['test/math.spec.ts'], untestedFunctions: undefined });
+  });
+  
+  it('links tests by name next to the file, in __tests__, and under a mirrored tests tree', () => {
+    const graph = graphOf([
+      'src/a.ts', 'src/a.test.ts',
+      'src/b.ts', 'src/__tests__/b.ts',
+      'src/core/c.ts', 'tests/core/c.test.ts',
+      'app/models.py', 'tests/test_models.py',
+      'src/untested.ts'
+    ]);
+    const statuses = map({ 'src/a.ts': ['a'], 'src/b.ts': ['b'], 'src/core/c.ts': ['c'], 'app/models.py': ['load'], 'src/untested.ts': ['u'] }, graph);
+    
+    expect(statuses.map(({ file, tests, untestedFunctions }) => [file, tests, untestedFunctions])).toEqual([
+      ['app/models.py', ['tests/test_models.py'], undefined],
+      ['src/a.ts', ['src/a.test.ts'], undefined],
+      ['src/b.ts', ['src/__tests__/b.ts'], undefined],
+      ['src/core/c.ts', ['tests/core/c.test.ts'], undefined],
+      ['src/untested.ts', [], ['u']]
+    ]);
+  });
+  
+  it('does not guess between several files a flat test could be named after', () => {
+    const graph = graphOf(['src/a/utils.ts', 'src/b/utils.ts', 'tests/test_utils.ts']);
+    expect(map({ 'src/a/utils.ts': ['x'], 'src/b/utils.ts': ['y'] }, graph).map(status => status.tests)).toEqual([[], []]);
+  });
+  
+  it('prefers coverage data over imports when the report has function counts', () => {
+    const graph = graphOf(['src/math.ts', 'src/math.test.ts'], [
+      { from: 'src/math.test.ts', to: 'src/math.ts', specifiers: ['add', 'subtract'], kind: 'named' }
+    ]);
+    const coverage: CoverageReport = {
+      source: 'coverage/lcov.info',
+      files: new Map([['src/math.ts', { linesFound: 8, linesHit: 6, functions: new Map([['add', 3], ['subtract', 0]]) }]])
+    };
+    
+    expect(map({ 'src/math.ts': ['add', 'subtract', 'multiply'] }, graph, coverage)[0]).toEqual({
+      file: 'src/math.ts',
+      tests: ['src/math.test.ts'],
+      coverage: 75,
+      // multiply is not in the report, so it is left out rather than guessed
+      untestedFunctions: ['subtract']
+    });
+  });
+});
\ No newline at end of file
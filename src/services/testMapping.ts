@@ -0,0 +1,164 @@
+import path from 'path';
+import { DependencyGraph, FileTestStatus } from '../types';
+import { toProjectPath } from '../utils/fileUtils';
+import { ParsedFile } from './codeParser';
+import { CoverageReport, getLineCoverage } from './coverageReport';
+
+// foo.test.ts, foo.spec.js, test_foo.py, foo_test.py, foo_test.go
+const TEST_FILE_PATTERN = /(\.(test|spec)\.[^.]+$)|(^test_.+\.py$)|(_test\.(py|go)$)/;
+// Top-level trees that hold only tests, mirroring the source layout
+const TEST_ROOTS = ['test', 'tests', '__tests__', 'spec'];
+// Source trees a mirrored test path leaves out, e.g. tests/a/x.test.ts for src/a/x.ts
+const SOURCE_ROOTS = ['src', 'lib'];
+
+interface TestLinks {
+  tests: Set<string>;
+  // Names tests import from the file; meaningless once `wholeModule` is set
+  importedNames: Set<string>;
+  // A test uses the module as a whole (default, namespace or side-effect import, or only its name matches)
+  wholeModule: boolean;
+}
+
+const indexes = new WeakMap<DependencyGraph, Map<string, TestLinks>>();
+
+export function isTestFile(filePath: string): boolean {
+  return TEST_FILE_PATTERN.test(path.basename(filePath)) || filePath.split(/[\\/]/).includes('__tests__');
+}
+
+/**
+ * Test status of every non-test file in `parsedFiles`. A test covers a source
+ * file when it imports it, or when it is named after it: next to it, in a
+ * sibling `__tests__` folder, or at the mirrored path under a top-level
+ * `tests/` tree. Coverage comes from `coverage` when the report lists the file.
+ */
+export function mapTestFiles(
+  projectRoot: string,
+  parsedFiles: Map<string, ParsedFile>,
+  graph: DependencyGraph,
+  coverage: CoverageReport | null
+): FileTestStatus[] {
+  const index = getTestIndex(graph);
+  const statuses: FileTestStatus[] = [];
+  
+  for (const [filePath, parsed] of parsedFiles) {
+    const file = toProjectPath(projectRoot, filePath);
+    if (isProjectTestFile(file)) continue;
+    
+    const links = index.get(file);
+    const fileCoverage = coverage?.files.get(file);
+    const exported = parsed.functions.filter(fn => fn.isExported).map(fn => fn.name);
+    
+    let untested: string[];
+    if (fileCoverage && fileCoverage.functions.size > 0) {
+      // Functions the report doesn't know (e.g. renamed by a bundler) are left out rather than guessed
+      untested = exported.filter(name => fileCoverage.functions.get(name) === 0);
+    } else if (!links) {
+      untested = exported;
+    } else if (links.wholeModule) {
+      untested = [];
+    } else {
+      untested = exported.filter(name => !links.importedNames.has(name));
+    }
+    
+    statuses.push({
+      file,
+      tests: links ? Array.from(links.tests).sort() : [],
+      coverage: fileCoverage ? getLineCoverage(fileCoverage) : undefined,
+      untestedFunctions: untested.length > 0 ? untested : undefined
+    });
+  }
+  
+  return statuses.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+function isProjectTestFile(file: string): boolean {
+  return isTestFile(file) || TEST_ROOTS.includes(file.split('/')[0]);
+}
+
+// Built once per graph: a whole-project analysis shares one graph across directories
+function getTestIndex(graph: DependencyGraph): Map<string, TestLinks> {
+  let index = indexes.get(graph);
+  if (index) {
+    return index;
+  }
+  
+  index = new Map();
+  const links = (file: string) => {
+    let entry = index!.get(file);
+    if (!entry) {
+      entry = { tests: new Set(), importedNames: new Set(), wholeModule: false };
+      index!.set(file, entry);
+    }
+    return entry;
+  };
+  
+  const tests = graph.files.filter(isProjectTestFile);
+  const sources = graph.files.filter(file => !isProjectTestFile(file));
+  const imported = new Set<string>();
+  
+  for (const edge of graph.fileEdges) {
+    if (!isProjectTestFile(edge.from) || isProjectTestFile(edge.to)) continue;
+    const entry = links(edge.to);
+    entry.tests.add(edge.from);
+    if (edge.kind === 'named' || edge.kind === 'require') {
+      edge.specifiers.forEach(name => entry.importedNames.add(name));
+    }
+    if (edge.kind !== 'named' || edge.specifiers.length === 0) {
+      entry.wholeModule = true;
+    }
+    imported.add(`${edge.from}\0${edge.to}`);
+  }
+  
+  for (const test of tests) {
+    for (const source of findSubjects(test, sources)) {
+      const entry = links(source);
+      entry.tests.add(test);
+      // Without an import to go by, assume the test exercises the whole file
+      if (!imported.has(`${test}\0${source}`)) entry.wholeModule = true;
+    }
+  }
+  
+  indexes.set(graph, index);
+  return index;
+}
+
+// The source files a test is named after
+function findSubjects(test: string, sources: string[]): string[] {
+  const subject = testSubject(test);
+  if (!subject) {
+    return [];
+  }
+  const dir = path.posix.dirname(test);
+  const parts = test.split('/');
+  const withoutExt = (file: string) => file.slice(0, file.length - path.posix.extname(file).length);
+  
+  // Next to the test, or in the folder holding its __tests__ directory
+  const nearby = [dir, path.posix.basename(dir) === '__tests__' ? path.posix.dirname(dir) : null].filter((d): d is string => d !== null);
+  const local = sources.filter(source => nearby.includes(path.posix.dirname(source)) && stem(source) === subject);
+  if (local.length > 0 || !TEST_ROOTS.includes(parts[0])) {
+    return local;
+  }
+  
+  // tests/a/x.test.ts for a/x.ts, src/a/x.ts or lib/a/x.ts
+  const mirrored = path.posix.join(...parts.slice(1, -1), subject);
+  const matches = sources.filter(source => {
+    const candidate = withoutExt(source);
+    return candidate === mirrored || SOURCE_ROOTS.some(root => candidate === `${root}/${mirrored}`);
+  });
+  if (matches.length > 0) {
+    return matches;
+  }
+  
+  // A flat tests/ folder: fall back to the only source file with that name
+  const named = sources.filter(source => stem(source) === subject);
+  return named.length === 1 ? named : [];
+}
+
+function stem(filePath: string): string {
+  const base = path.posix.basename(filePath);
+  return base.slice(0, base.length - path.posix.extname(base).length);
+}
+
+function testSubject(testPath: string): string {
+  return stem(testPath).replace(/\.(test|spec)$/, '').replace(/^test_/, '').replace(/_test$/, '');
+}
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { describe, expect, it } from '@jest/globals';
+import { countTokens, truncateToTokens } from './tokenizer';
+
+describe('countTokens', () => {
+  it('counts nothing for empty text', () => {
+    expect(countTokens('')).toBe(0);
+  });
+  
+  it('costs short words one token each', () => {
+    expect(countTokens('the quick brown fox')).toBe(4);
+  });
+  
+  it('encodes common words and operators as single tokens', () => {
+    expect(countTokens('internationalization')).toBe(2);
+    expect(countTokens('=>')).toBe(1);
+    expect(countTokens('!==')).toBe(1);
+  });
+  
+  it('counts special token markers as plain text', () => {
+    expect(countTokens('a <|endoftext|> b')).toBeGreaterThan(3);
+  });
+  
+  it('groups digits by three', () => {
+    expect(countTokens('123')).toBe(1);
+    expect(countTokens('1234567')).toBe(3);
+  });
+  
+  it('grows with the text', () => {
+    const line = 'export function allocateContext(sections: ContextSection[], maxTokens: number): ContextAllocation {}\n';
+    expect(countTokens(line.repeat(10))).toBe(countTokens(line) * 10);
+  });
+});
+
+describe('truncateToTokens', () => {
+  it('returns short text unchanged', () => {
+    expect(truncateToTokens('one two three', 10)).toBe('one two three');
+  });
+  
+  it('returns nothing for a budget of zero', () => {
+    expect(truncateToTokens('one two three', 0)).toBe('');
+  });
+  
+  it('stays within the budget', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `line ${i} of the document`).join('\n');
+    for (const budget of [1, 7, 40, 100]) {
+      expect(countTokens(truncateToTokens(text, budget))).toBeLessThanOrEqual(budget);
+    }
+  });
+  
+  it('never cuts inside a multi-byte character', () => {
+    const cut = truncateToTokens('日本語のテキストです', 3);
+    expect('日本語のテキストです'.startsWith(cut)).toBe(true);
+    expect(cut).not.toContain('\uFFFD');
+  });
+  
+  it('prefers to end on a line break', () => {
+    const text = 'first line here\nsecond line here\nthird line here';
+    expect(truncateToTokens(text, countTokens('first line here\nsecond line') + 1)).toBe('first line here\nsecond line here');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { decode, encode } from 'gpt-tokenizer';
+
+// Source and docs may quote special tokens such as <|endoftext|>; count them as plain text
+const ENCODE_OPTIONS = { disallowedSpecial: new Set<string>() };
+
+/**
+ * Counts the tokens in `text` with the o200k_base BPE vocabulary used by
+ * GPT-4o and later OpenAI models. Other model families have their own
+ * vocabularies, so their counts for the same text differ by a few percent.
+ */
+export function countTokens(text: string): number {
+  return text ? encode(text, ENCODE_OPTIONS).length : 0;
+}
+
+/**
+ * Cuts `text` to at most `maxTokens`, preferring to end on a line break so
+ * markdown structure survives.
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (maxTokens <= 0) {
+    return '';
+  }
+  
+  const tokens = encode(text, ENCODE_OPTIONS);
+  if (tokens.length <= maxTokens) {
+    return text;
+  }
+  
+  // Re-encoding a cut can merge differently, so shorten until the result fits
+  for (let length = maxTokens; length > 0; length--) {
+    // A cut inside a multi-byte character decodes to a replacement character
+    let cut = decode(tokens.slice(0, length)).replace(/\uFFFD+$/, '');
+    const lastLineEnd = cut.lastIndexOf('\n');
+    if (lastLineEnd > cut.length / 2) {
+      cut = cut.slice(0, lastLineEnd);
+    }
+    cut = cut.trimEnd();
+    if (countTokens(cut) <= maxTokens) {
+      return cut;
+    }
+  }
+  return '';
+}
\ No newline at end of file
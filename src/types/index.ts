@@ -2,12 +2,128 @@ export interface CodeContextConfig {
   version: string;
   mode: 'quick' | 'smart' | 'deep';
   ignorePatterns: string[];
-  analysisFocus: string[];
-  outputFormat: string;
+  analysisFocus: AnalysisFocus[];
+  // One format, or several outputs written side by side; see OutputTarget
+  outputFormat: OutputFormat | (OutputFormat | OutputTarget)[];
   integrations: {
     git: boolean;
     claude: boolean;
   };
+  ai?: AIConfig;
+  search?: SearchConfig;
+  docs?: DocsConfig;
+  tests?: TestsConfig;
+  overrides?: DirectoryOverride[];
+}
+
+/**
+ * Settings for one directory and everything below it, e.g.
+ * `{ "path": "src/core", "mode": "deep" }`. The most specific path wins.
+ */
+export interface DirectoryOverride {
+  // Project-relative POSIX path
+  path: string;
+  mode?: 'quick' | 'smart' | 'deep';
+  analysisFocus?: AnalysisFocus[];
+}
+
+/**
+ * An analysis pass and the doc section it produces. Purpose and key files are
+ * always included; everything else runs only when listed in `analysisFocus`.
+ */
+export type AnalysisFocus =
+  | 'architecture'
+  | 'dependencies'
+  | 'recent-changes'
+  | 'improvements'
+  | 'api-surface'
+  | 'tests'
+  | 'security'
+  | 'performance';
+
+/**
+ * Where per-directory docs are written. 'in-tree' (the default) puts them in
+ * each directory; 'central' mirrors the directory tree under `directory`,
+ * e.g. `.codecontext/docs/src/services/claude.md`, next to a generated index.md.
+ */
+export interface DocsConfig {
+  location: 'in-tree' | 'central';
+  // Project-relative; defaults to .codecontext/docs
+  directory?: string;
+}
+
+export interface TestsConfig {
+  // lcov or istanbul JSON report, relative to the project root; defaults to
+  // coverage/lcov.info, then coverage/coverage-final.json
+  coverageReport?: string;
+}
+
+export type OutputFormat = 'markdown' | 'json' | 'agents' | 'cursor' | 'llms-txt';
+
+/**
+ * A generated file and its name. Per-directory formats resolve `filename`
+ * inside each directory (cursor against the project root, where `{dir}` is
+ * replaced by the directory); llms-txt is a single file at the project root.
+ */
+export interface OutputTarget {
+  format: OutputFormat;
+  filename?: string;
+}
+
+export interface SearchConfig {
+  // Also store embedding vectors from the AI provider and rank by meaning as well as keywords
+  embeddings?: boolean;
+}
+
+export type AIProviderName = 'anthropic' | 'openai' | 'mock';
+
+export type AITask = 'file' | 'directory' | 'improvements';
+
+/**
+ * Which LLM backend smart/deep mode talks to. Omitted fields fall back to the
+ * provider's defaults, so `{ "provider": "anthropic" }` is a complete config.
+ */
+export interface AIConfig {
+  provider: AIProviderName;
+  // Base URL of an OpenAI-compatible endpoint, e.g. http://inference.internal/v1
+  baseUrl?: string;
+  // Environment variable holding the API key; defaults per provider
+  apiKeyEnv?: string;
+  models?: {
+    smart?: Partial<Record<AITask, string>>;
+    deep?: Partial<Record<AITask, string>>;
+  };
+  // JSON fixture file for the mock provider
+  fixtures?: string;
+  // Model for search embeddings; defaults per provider (Anthropic has none)
+  embeddingModel?: string;
+  limits?: AILimits;
+  budget?: AIBudget;
+  // USD per million tokens, keyed by model name; used for cost budgets and reporting
+  pricing?: Record<string, ModelPricing>;
+}
+
+export interface AILimits {
+  // Parallel AI requests, and parallel files/directories during analysis
+  concurrency?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+  // Retries for rate-limited (429) or overloaded (503/529) responses
+  maxRetries?: number;
+}
+
+/**
+ * Per-run caps. Once a request would exceed either, AI enrichment stops and
+ * the remaining directories fall back to static analysis.
+ */
+export interface AIBudget {
+  tokens?: number;
+  cost?: number;
+}
+
+export interface ModelPricing {
+  input: number;
+  output: number;
 }
 
 export interface DirectoryAnalysis {
@@ -18,6 +134,16 @@ export interface DirectoryAnalysis {
   recentChanges: Change[];
   improvements: string[];
   dependencies: Dependency[];
+  dependsOn?: DirectoryRelation[];
+  usedBy?: DirectoryRelation[];
+  apiSurface?: ApiSymbol[];
+  tests?: FileTestStatus[];
+  // Security and performance checks
+  findings?: Finding[];
+  // Why AI enrichment was skipped or rejected, so bad output never lands silently
+  analysisNotes?: string[];
+  // Hash of the directory's files when the doc was generated; see `codecontext status`
+  sourceHash?: string;
 }
 
 export interface FileAnalysis {
@@ -32,8 +158,64 @@ export interface Change {
   commit: string;
   date: Date;
   description: string;
+  // Readable summary of the fields below, e.g. "2 files, +40/-3 lines; added parseLog"
   impact: string;
+  // Files the commit changed in this directory, relative to it
   files: string[];
+  insertions?: number;
+  deletions?: number;
+  symbolsAdded?: string[];
+  symbolsRemoved?: string[];
+}
+
+/**
+ * An exported symbol and its shape. `file` is project-relative.
+ */
+export interface ApiSymbol {
+  file: string;
+  name: string;
+  kind: 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable' | 'namespace';
+  // Readable declaration, e.g. "function parse(input: string): Ast"
+  signature: string;
+  params?: ApiParameter[];
+  returns?: string;
+  // Public methods and properties of classes, properties of interfaces
+  members?: ApiMember[];
+}
+
+export interface ApiMember {
+  name: string;
+  kind: 'constructor' | 'method' | 'property';
+  signature: string;
+  optional: boolean;
+  params?: ApiParameter[];
+  returns?: string;
+}
+
+export interface ApiParameter {
+  name: string;
+  type?: string;
+  optional: boolean;
+  rest: boolean;
+}
+
+// Paths are project-relative
+export interface FileTestStatus {
+  file: string;
+  // Test files that import it or are named after it
+  tests: string[];
+  // Percentage of lines covered, when a coverage report lists the file
+  coverage?: number;
+  // Exported functions no test imports, or that the coverage report shows never ran
+  untestedFunctions?: string[];
+}
+
+// A line a static check flagged; `file` is project-relative
+export interface Finding {
+  area: 'security' | 'performance';
+  file: string;
+  line: number;
+  message: string;
 }
 
 export interface Dependency {
@@ -41,6 +223,40 @@ export interface Dependency {
   type: 'import' | 'export' | 'external';
   from: string;
   to: string;
+  // Project-relative file the import resolved to, when it is inside the project
+  resolved?: string;
+}
+
+export interface DirectoryRelation {
+  path: string;
+  imports: number;
+}
+
+export interface FileEdge {
+  from: string;
+  to: string;
+  specifiers: string[];
+  kind: 'named' | 'default' | 'namespace' | 'side-effect' | 'require' | 'dynamic';
+}
+
+export interface DirectoryEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+/**
+ * Project-wide module graph persisted under .codecontext/. All paths are
+ * project-relative POSIX paths; the project root directory is '.'.
+ */
+export interface DependencyGraph {
+  version: number;
+  generatedAt: string;
+  files: string[];
+  fileEdges: FileEdge[];
+  directoryEdges: DirectoryEdge[];
+  externals: Record<string, string[]>;
+  unresolved: Record<string, string[]>;
 }
 
 export interface AnalysisOptions {
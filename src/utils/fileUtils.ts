@@ -1,5 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
+import crypto from 'crypto';
+import { IgnoreRules } from './ignoreRules';
 import { FileAnalysis } from '../types';
 
 export async function getFileInfo(filePath: string): Promise<FileAnalysis> {
@@ -203,4 +205,82 @@ function getPrimaryFunctions(fileName: string, ext: string): string[] {
   }
   
   return ['General functionality'];
+}
+
+// Directory (relative to the project root) holding CodeContext's generated state
+export const CODECONTEXT_DIR = '.codecontext';
+
+export function getCodeContextDir(projectRoot: string): string {
+  return path.join(projectRoot, CODECONTEXT_DIR);
+}
+
+/**
+ * Converts an absolute path to a project-relative POSIX path, using '.' for the root itself.
+ */
+export function toProjectPath(projectRoot: string, absolutePath: string): string {
+  const relative = path.relative(projectRoot, absolutePath).split(path.sep).join('/');
+  return relative || '.';
+}
+
+export function fromProjectPath(projectRoot: string, projectPath: string): string {
+  return projectPath === '.' ? projectRoot : path.join(projectRoot, ...projectPath.split('/'));
+}
+
+/**
+ * Walks up from `startDir` to the directory holding .codecontext.json, falling
+ * back to the git root and finally to `startDir` itself.
+ */
+export async function findProjectRoot(startDir: string): Promise<string> {
+  let gitRoot: string | null = null;
+  let current = path.resolve(startDir);
+  
+  for (;;) {
+    if (await fs.pathExists(path.join(current, '.codecontext.json'))) {
+      return current;
+    }
+    if (!gitRoot && await fs.pathExists(path.join(current, '.git'))) {
+      gitRoot = current;
+    }
+    
+    const parent = path.dirname(current);
+    if (parent === current) break;
+    current = parent;
+  }
+  
+  return gitRoot || path.resolve(startDir);
+}
+
+/**
+ * Names of the entries analyzeDirectory considers: direct children that are
+ * neither hidden nor ignored.
+ */
+export async function listDirectoryEntries(dirPath: string, rules: IgnoreRules): Promise<string[]> {
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  return entries
+    .filter(entry => !entry.name.startsWith('.'))
+    .filter(entry => !rules.ignores(path.join(dirPath, entry.name), entry.isDirectory()))
+    .map(entry => entry.name);
+}
+
+/**
+ * Hash over the names and contents of the files a directory's docs are
+ * generated from, so a doc can record exactly which source state it describes.
+ * `generatedNames` are the doc files themselves, which never count.
+ */
+export async function computeSourceHash(dirPath: string, rules: IgnoreRules, generatedNames: string[] = ['claude.md']): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  const entries = (await listDirectoryEntries(dirPath, rules)).sort();
+  
+  for (const entry of entries) {
+    if (generatedNames.includes(entry)) continue;
+    
+    const filePath = path.join(dirPath, entry);
+    const stat = await fs.stat(filePath);
+    if (!stat.isFile()) continue;
+    
+    const content = await fs.readFile(filePath);
+    hash.update(entry).update('\0').update(crypto.createHash('sha256').update(content).digest('hex')).update('\n');
+  }
+  
+  return hash.digest('hex');
 }
\ No newline at end of file
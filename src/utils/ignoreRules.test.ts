@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { clearIgnoreRules, getIgnoreRules } from './ignoreRules';
+
+describe('IgnoreRules', () => {
+  let projectRoot: string;
+  
+  beforeEach(async () => {
+    projectRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'codecontext-ignore-'));
+  });
+  
+  afterEach(async () => {
+    clearIgnoreRules(projectRoot);
+    await fs.remove(projectRoot);
+  });
+  
+  async function write(file: string, lines: string[]) {
+    await fs.outputFile(path.join(projectRoot, file), `${lines.join('\n')}\n`);
+  }
+  
+  it('matches config patterns on root-relative paths', () => {
+    const rules = getIgnoreRules(projectRoot, ['src/generated/**', '*.log']);
+    
+    expect(rules.ignores('src/generated', true)).toBe(true);
+    expect(rules.ignores('src/generated/api.ts')).toBe(true);
+    expect(rules.ignores(path.join(projectRoot, 'src', 'app.ts'))).toBe(false);
+    expect(rules.ignores('logs/debug.log')).toBe(true);
+  });
+  
+  it('applies directory-only patterns to directories', async () => {
+    await write('.gitignore', ['build/']);
+    const rules = getIgnoreRules(projectRoot);
+    
+    expect(rules.ignores('build', true)).toBe(true);
+    expect(rules.ignores('build/out.js')).toBe(true);
+    expect(rules.ignores('build')).toBe(false);
+  });
+  
+  it('lets a nested ignore file re-include what a parent ignored', async () => {
+    await write('.gitignore', ['*.gen.ts']);
+    await write('src/keep/.codecontextignore', ['!schema.gen.ts', 'fixtures/']);
+    const rules = getIgnoreRules(projectRoot);
+    
+    expect(rules.ignores('src/other.gen.ts')).toBe(true);
+    expect(rules.ignores('src/keep/schema.gen.ts')).toBe(false);
+    expect(rules.ignores('src/keep/fixtures', true)).toBe(true);
+    expect(rules.ignores('fixtures', true)).toBe(false);
+  });
+  
+  it('never re-includes files inside an ignored directory', async () => {
+    await write('.gitignore', ['vendor/', '!vendor/sdk/index.ts']);
+    
+    expect(getIgnoreRules(projectRoot).ignores('vendor/sdk/index.ts')).toBe(true);
+  });
+  
+  it('reuses the rules until they are cleared', async () => {
+    const rules = getIgnoreRules(projectRoot, ['dist/**']);
+    expect(getIgnoreRules(projectRoot, ['dist/**'])).toBe(rules);
+    expect(rules.ignores('scratch', true)).toBe(false);
+    
+    await write('.codecontextignore', ['scratch/']);
+    expect(getIgnoreRules(projectRoot, ['dist/**']).ignores('scratch', true)).toBe(false);
+    clearIgnoreRules(projectRoot);
+    expect(getIgnoreRules(projectRoot, ['dist/**']).ignores('scratch', true)).toBe(true);
+    // Changed patterns build new rules too
+    expect(getIgnoreRules(projectRoot, ['out/**'])).not.toBe(rules);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,142 @@
+import fs from 'fs-extra';
+import path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+// Read in every directory, like git reads .gitignore
+const IGNORE_FILES = ['.gitignore', '.codecontextignore'];
+
+interface IgnoreLayer {
+  // Project-relative POSIX directory the patterns are relative to; '' for the root
+  base: string;
+  ig: Ignore;
+}
+
+const cache = new Map<string, { key: string; rules: IgnoreRules }>();
+
+/**
+ * The ignore rules every walk over the project shares. Rebuilt when the
+ * configured patterns change; ignore files are read once per directory, so
+ * long-running callers clear them with clearIgnoreRules to pick up edits.
+ */
+export function getIgnoreRules(projectRoot: string, ignorePatterns: string[] = []): IgnoreRules {
+  const key = JSON.stringify(ignorePatterns);
+  const cached = cache.get(projectRoot);
+  if (cached && cached.key === key) {
+    return cached.rules;
+  }
+  
+  const rules = new IgnoreRules(projectRoot, ignorePatterns);
+  cache.set(projectRoot, { key, rules });
+  return rules;
+}
+
+/**
+ * Forgets the cached rules, so the next getIgnoreRules call re-reads every
+ * .gitignore and .codecontextignore.
+ */
+export function clearIgnoreRules(projectRoot: string): void {
+  cache.delete(projectRoot);
+}
+
+/**
+ * Layered ignore rules matched on project-relative paths, the way git applies
+ * .gitignore files:
+ * - `ignorePatterns` from the config, then the root's `.git/info/exclude`,
+ *   `.gitignore` and `.codecontextignore`
+ * - each directory's own `.gitignore` and `.codecontextignore`, relative to
+ *   that directory, overriding the layers above it (so `!` can re-include)
+ * - nothing inside an ignored directory can be re-included
+ */
+export class IgnoreRules {
+  private layers = new Map<string, IgnoreLayer[]>();
+  private directoryResults = new Map<string, boolean>();
+  
+  constructor(private projectRoot: string, private ignorePatterns: string[]) {}
+  
+  /**
+   * Whether `filePath` (absolute, or relative to the project root) is
+   * ignored. Pass `isDirectory` so directory-only patterns like `build/` apply.
+   */
+  ignores(filePath: string, isDirectory: boolean = false): boolean {
+    const relative = path.isAbsolute(filePath)
+      ? path.relative(this.projectRoot, filePath).split(path.sep).join('/')
+      : filePath.split(path.sep).join('/').replace(/^\.\//, '');
+    // The root itself, and anything outside the project, is never ignored
+    if (!relative || relative === '.' || relative.startsWith('../')) {
+      return false;
+    }
+    
+    const parts = relative.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      if (this.ignoresDirectory(parts.slice(0, i).join('/'))) {
+        return true;
+      }
+    }
+    return isDirectory ? this.ignoresDirectory(relative) : this.matches(relative, false);
+  }
+  
+  private ignoresDirectory(relative: string): boolean {
+    let result = this.directoryResults.get(relative);
+    if (result === undefined) {
+      result = this.matches(relative, true);
+      this.directoryResults.set(relative, result);
+    }
+    return result;
+  }
+  
+  // Deeper layers override shallower ones; within a layer, the last matching pattern wins
+  private matches(relative: string, isDirectory: boolean): boolean {
+    let ignored = false;
+    for (const layer of this.getLayers(path.posix.dirname(relative))) {
+      const local = layer.base ? path.posix.relative(layer.base, relative) : relative;
+      const result = layer.ig.test(isDirectory ? `${local}/` : local);
+      if (result.ignored) ignored = true;
+      else if (result.unignored) ignored = false;
+    }
+    return ignored;
+  }
+  
+  /**
+   * Layers that apply inside `dir` (project-relative, '.' for the root), root first.
+   */
+  private getLayers(dir: string): IgnoreLayer[] {
+    const cached = this.layers.get(dir);
+    if (cached) {
+      return cached;
+    }
+    
+    let layers: IgnoreLayer[];
+    if (dir === '.') {
+      const patterns = [
+        ...this.ignorePatterns,
+        ...readPatterns(path.join(this.projectRoot, '.git', 'info', 'exclude')),
+        ...IGNORE_FILES.flatMap(file => readPatterns(path.join(this.projectRoot, file)))
+      ];
+      layers = [{ base: '', ig: createIgnore(patterns) }];
+    } else {
+      const patterns = IGNORE_FILES.flatMap(file => readPatterns(path.join(this.projectRoot, ...dir.split('/'), file)));
+      const parent = this.getLayers(path.posix.dirname(dir));
+      layers = patterns.length > 0 ? [...parent, { base: dir, ig: createIgnore(patterns) }] : parent;
+    }
+    
+    this.layers.set(dir, layers);
+    return layers;
+  }
+}
+
+function readPatterns(filePath: string): string[] {
+  try {
+    return fs.readFileSync(filePath, 'utf-8').split(/\r?\n/);
+  } catch {
+    return [];
+  }
+}
+
+// `dir/**` only matches what is inside dir, so dir itself would still be walked
+// and documented; ignore the directory as well
+function createIgnore(patterns: string[]): Ignore {
+  const expanded = patterns.flatMap(pattern =>
+    pattern.endsWith('/**') && !pattern.startsWith('!') ? [pattern, pattern.slice(0, -2)] : [pattern]
+  );
+  return ignore().add(expanded);
+}
\ No newline at end of file